@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MapPin, Plus, Pencil, Trash2 } from 'lucide-react';
+import { AddressForm } from '@/components/AddressForm';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ShippingAddress,
+  UserAddress,
+  emptyShippingAddress,
+  formatAddress,
+  isCompleteAddress,
+  toAddressFields,
+  toShippingAddress
+} from '@/lib/address';
+
+export const AddressBook: React.FC = () => {
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // 'new' while adding, an address id while editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ShippingAddress>(emptyShippingAddress);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      loadAddresses();
+    }
+  }, [user]);
+
+  const loadAddresses = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('user_addresses')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('is_default', { ascending: false })
+        .order('created_at');
+
+      if (error) throw error;
+      setAddresses(data || []);
+    } catch (error) {
+      console.error('Error loading addresses:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (address?: UserAddress) => {
+    setEditingId(address?.id ?? 'new');
+    setDraft(address ? toShippingAddress(address) : emptyShippingAddress);
+  };
+
+  const saveAddress = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editingId) return;
+
+    setSaving(true);
+    try {
+      const fields = toAddressFields(draft);
+
+      const { error } = editingId === 'new'
+        ? await supabase
+            .from('user_addresses')
+            // The first address saved becomes the default
+            .insert({ ...fields, user_id: user.id, is_default: addresses.length === 0 })
+        : await supabase
+            .from('user_addresses')
+            .update(fields)
+            .eq('id', editingId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      await loadAddresses();
+    } catch (error) {
+      console.error('Error saving address:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save address. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const makeDefault = async (address: UserAddress) => {
+    try {
+      const { error } = await supabase
+        .from('user_addresses')
+        .update({ is_default: true })
+        .eq('id', address.id);
+
+      if (error) throw error;
+
+      await loadAddresses();
+    } catch (error) {
+      console.error('Error updating address:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update address. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeAddress = async (address: UserAddress) => {
+    try {
+      const { error } = await supabase
+        .from('user_addresses')
+        .delete()
+        .eq('id', address.id);
+
+      if (error) throw error;
+
+      setAddresses(addresses.filter(a => a.id !== address.id));
+    } catch (error) {
+      console.error('Error removing address:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove address. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <MapPin className="w-5 h-5 mr-2" />
+          Address Book
+        </CardTitle>
+        {!editingId && (
+          <Button size="sm" variant="outline" onClick={() => startEditing()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Address
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {editingId ? (
+          <form onSubmit={saveAddress} className="space-y-4">
+            <AddressForm value={draft} onChange={setDraft} idPrefix="address-book" />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saving || !isCompleteAddress(draft)}>
+                {saving ? 'Saving...' : 'Save Address'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : loading ? (
+          <p>Loading addresses...</p>
+        ) : addresses.length === 0 ? (
+          <p className="text-muted-foreground">No saved addresses yet. Add one to speed up checkout.</p>
+        ) : (
+          <div className="space-y-4">
+            {addresses.map((address) => (
+              <div key={address.id} className="flex items-start justify-between p-3 border rounded">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h4 className="font-semibold">{address.label || address.line1}</h4>
+                    {address.is_default && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{formatAddress(address)}</p>
+                  {address.phone && (
+                    <p className="text-sm text-muted-foreground">{address.phone}</p>
+                  )}
+                  {address.delivery_instructions && (
+                    <p className="text-sm text-muted-foreground italic">{address.delivery_instructions}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {!address.is_default && (
+                    <Button size="sm" variant="ghost" onClick={() => makeDefault(address)}>
+                      Make Default
+                    </Button>
+                  )}
+                  <Button size="icon" variant="ghost" onClick={() => startEditing(address)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => removeAddress(address)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
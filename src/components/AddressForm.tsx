@@ -0,0 +1,119 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import MapLocationPicker from '@/components/MapLocationPicker';
+import { ShippingAddress } from '@/lib/address';
+
+interface AddressFormProps {
+  value: ShippingAddress;
+  onChange: (address: ShippingAddress) => void;
+  // Prefixes input ids so two forms can be on the same page
+  idPrefix?: string;
+}
+
+export const AddressForm: React.FC<AddressFormProps> = ({ value, onChange, idPrefix = 'address' }) => {
+  const setField = (field: keyof ShippingAddress, fieldValue: string) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  // Keep the pinned coordinates; only fill the street if it's still empty
+  const handleLocationSelect = (address: string, coordinates?: [number, number]) => {
+    onChange({
+      ...value,
+      line1: value.line1.trim() ? value.line1 : address,
+      longitude: coordinates ? coordinates[0] : value.longitude,
+      latitude: coordinates ? coordinates[1] : value.latitude
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-label`}>Label</Label>
+          <Input
+            id={`${idPrefix}-label`}
+            placeholder="e.g. Home, Work"
+            value={value.label || ''}
+            onChange={(e) => setField('label', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-phone`}>Phone</Label>
+          <Input
+            id={`${idPrefix}-phone`}
+            type="tel"
+            value={value.phone || ''}
+            onChange={(e) => setField('phone', e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-line1`}>Street Address</Label>
+        <Input
+          id={`${idPrefix}-line1`}
+          value={value.line1}
+          onChange={(e) => setField('line1', e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-line2`}>Apartment, Suite, etc.</Label>
+        <Input
+          id={`${idPrefix}-line2`}
+          value={value.line2 || ''}
+          onChange={(e) => setField('line2', e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-city`}>City</Label>
+          <Input
+            id={`${idPrefix}-city`}
+            value={value.city}
+            onChange={(e) => setField('city', e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-postal-code`}>Postal Code</Label>
+          <Input
+            id={`${idPrefix}-postal-code`}
+            value={value.postal_code || ''}
+            onChange={(e) => setField('postal_code', e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-country`}>Country</Label>
+          <Input
+            id={`${idPrefix}-country`}
+            value={value.country}
+            onChange={(e) => setField('country', e.target.value)}
+            required
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-instructions`}>Delivery Instructions</Label>
+        <Textarea
+          id={`${idPrefix}-instructions`}
+          placeholder="e.g. Leave with the concierge, gate code 1234"
+          value={value.delivery_instructions || ''}
+          onChange={(e) => setField('delivery_instructions', e.target.value)}
+          rows={2}
+        />
+      </div>
+      <MapLocationPicker
+        mapOnly
+        onLocationSelect={handleLocationSelect}
+        initialAddress={value.line1}
+      />
+      {value.latitude != null && value.longitude != null && (
+        <p className="text-sm text-muted-foreground">
+          Pinned at {value.latitude.toFixed(6)}, {value.longitude.toFixed(6)}
+        </p>
+      )}
+    </div>
+  );
+};
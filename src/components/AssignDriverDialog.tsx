@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Truck } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Driver } from '@/components/DriverManagement';
+
+interface AssignDriverDialogProps {
+  fulfillmentId: string;
+  onAssigned: () => void;
+}
+
+// Value for a datetime-local input, in the browser's time zone
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const AssignDriverDialog: React.FC<AssignDriverDialogProps> = ({ fulfillmentId, onAssigned }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [driverId, setDriverId] = useState('');
+  const [estimatedDelivery, setEstimatedDelivery] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const loadDrivers = async () => {
+      const { data, error } = await supabase
+        .from('drivers')
+        .select('id, name, phone, vehicle, email, active, user_id')
+        .eq('seller_id', user.id)
+        .eq('active', true)
+        .order('name');
+
+      if (error) {
+        console.error('Error loading drivers:', error);
+      } else {
+        setDrivers(data || []);
+      }
+    };
+
+    loadDrivers();
+
+    const defaultEta = new Date();
+    defaultEta.setHours(defaultEta.getHours() + 2);
+    setEstimatedDelivery(toLocalInputValue(defaultEta));
+  }, [isOpen, user]);
+
+  const assignDriver = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('assign_fulfillment_driver', {
+        p_fulfillment_id: fulfillmentId,
+        p_driver_id: driverId,
+        p_estimated_delivery: new Date(estimatedDelivery).toISOString(),
+        p_driver_notes: notes
+      });
+
+      if (error) throw error;
+
+      const driver = drivers.find(d => d.id === driverId);
+      toast({
+        title: "Driver Assigned",
+        description: `${driver?.name ?? 'The driver'} will deliver your items by ${new Date(estimatedDelivery).toLocaleString()}.`
+      });
+      setIsOpen(false);
+      setDriverId('');
+      setNotes('');
+      onAssigned();
+    } catch (error) {
+      console.error('Error assigning driver:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign driver. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Truck className="w-3 h-3 mr-1" />
+          Assign Driver
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Assign Driver</DialogTitle>
+        </DialogHeader>
+
+        {drivers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no active drivers. Add one from the Drivers tab first.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Driver</Label>
+              <Select value={driverId} onValueChange={setDriverId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a driver" />
+                </SelectTrigger>
+                <SelectContent>
+                  {drivers.map((driver) => (
+                    <SelectItem key={driver.id} value={driver.id}>
+                      {driver.name}{driver.vehicle ? ` (${driver.vehicle})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="estimatedDelivery">Estimated delivery</Label>
+              <Input
+                id="estimatedDelivery"
+                type="datetime-local"
+                value={estimatedDelivery}
+                min={toLocalInputValue(new Date())}
+                onChange={(e) => setEstimatedDelivery(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driverNotes">Notes for the driver</Label>
+              <Textarea
+                id="driverNotes"
+                placeholder="Pickup instructions, gate codes..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={assignDriver}
+            disabled={saving || !driverId || !estimatedDelivery}
+          >
+            {saving ? 'Assigning...' : 'Assign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
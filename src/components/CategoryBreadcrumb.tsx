@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator
+} from '@/components/ui/breadcrumb';
+import { Category } from '@/lib/categories';
+import { listingPath } from '@/lib/listing-filters';
+
+interface CategoryBreadcrumbProps {
+  // Outermost category first
+  path: Category[];
+  // The page below the last category, such as a product; without it the
+  // last category is the current page
+  current?: string;
+}
+
+export const CategoryBreadcrumb: React.FC<CategoryBreadcrumbProps> = ({ path, current }) => (
+  <Breadcrumb>
+    <BreadcrumbList>
+      <BreadcrumbItem>
+        <BreadcrumbLink asChild>
+          <Link to="/">Home</Link>
+        </BreadcrumbLink>
+      </BreadcrumbItem>
+      {path.map((category, index) => (
+        <React.Fragment key={category.id}>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            {index === path.length - 1 && current === undefined ? (
+              <BreadcrumbPage>{category.name}</BreadcrumbPage>
+            ) : (
+              <BreadcrumbLink asChild>
+                <Link to={listingPath(category.slug)}>{category.name}</Link>
+              </BreadcrumbLink>
+            )}
+          </BreadcrumbItem>
+        </React.Fragment>
+      ))}
+      {current !== undefined && (
+        <>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>{current}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </>
+      )}
+    </BreadcrumbList>
+  </Breadcrumb>
+);
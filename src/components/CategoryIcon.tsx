@@ -0,0 +1,64 @@
+import React from 'react';
+import {
+  Baby,
+  Book,
+  Car,
+  Dumbbell,
+  Gamepad2,
+  Gem,
+  Gift,
+  Headphones,
+  Home,
+  Laptop,
+  LucideProps,
+  Music,
+  Palette,
+  PawPrint,
+  Plane,
+  Shirt,
+  ShoppingBasket,
+  Smartphone,
+  Sparkles,
+  Sprout,
+  Tag,
+  Utensils,
+  Watch,
+  Wrench
+} from 'lucide-react';
+
+// The icons a category's `icon` may name. Only these are bundled; any other
+// name shows a tag.
+const CATEGORY_ICONS: Record<string, React.ComponentType<LucideProps>> = {
+  baby: Baby,
+  book: Book,
+  car: Car,
+  dumbbell: Dumbbell,
+  'gamepad-2': Gamepad2,
+  gem: Gem,
+  gift: Gift,
+  headphones: Headphones,
+  home: Home,
+  laptop: Laptop,
+  music: Music,
+  palette: Palette,
+  'paw-print': PawPrint,
+  plane: Plane,
+  shirt: Shirt,
+  'shopping-basket': ShoppingBasket,
+  smartphone: Smartphone,
+  sparkles: Sparkles,
+  sprout: Sprout,
+  tag: Tag,
+  utensils: Utensils,
+  watch: Watch,
+  wrench: Wrench
+};
+
+interface CategoryIconProps extends LucideProps {
+  name: string | null;
+}
+
+export const CategoryIcon: React.FC<CategoryIconProps> = ({ name, ...props }) => {
+  const Icon = (name && CATEGORY_ICONS[name]) || Tag;
+  return <Icon {...props} />;
+};
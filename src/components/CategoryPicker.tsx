@@ -0,0 +1,37 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCategories } from '@/hooks/use-categories';
+import { flattenCategories } from '@/lib/categories';
+
+interface CategoryPickerProps {
+  id?: string;
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+}
+
+const NO_CATEGORY = 'none';
+
+// Chooses from the managed categories, nested ones indented under their parent
+export const CategoryPicker: React.FC<CategoryPickerProps> = ({ id, value, onChange }) => {
+  const { categories, loading } = useCategories();
+
+  return (
+    <Select
+      value={value ?? NO_CATEGORY}
+      onValueChange={(next) => onChange(next === NO_CATEGORY ? null : next)}
+      disabled={loading}
+    >
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Choose a category" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+        {flattenCategories(categories).map(({ category, depth }) => (
+          <SelectItem key={category.id} value={category.id}>
+            <span style={{ paddingLeft: `${depth}rem` }}>{category.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
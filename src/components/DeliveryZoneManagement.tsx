@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { MapPinned, Plus, Trash2 } from 'lucide-react';
+import { DeliveryZoneMap, ZoneType } from '@/components/DeliveryZoneMap';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from '@/lib/money';
+
+type DeliveryZone = Tables<'delivery_zones'>;
+
+export const DeliveryZoneManagement: React.FC = () => {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [zoneType, setZoneType] = useState<ZoneType>('radius');
+  const [center, setCenter] = useState<[number, number] | null>(null);
+  const [radiusKm, setRadiusKm] = useState('5');
+  const [polygon, setPolygon] = useState<[number, number][]>([]);
+  const [fee, setFee] = useState('0');
+  const [minOrderAmount, setMinOrderAmount] = useState('0');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      loadZones();
+    }
+  }, [user]);
+
+  const loadZones = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('delivery_zones')
+        .select('*')
+        .eq('seller_id', user?.id)
+        .order('fee');
+
+      if (error) throw error;
+      setZones(data || []);
+    } catch (error) {
+      console.error('Error loading delivery zones:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shapeComplete = zoneType === 'radius'
+    ? center !== null && parseFloat(radiusKm) > 0
+    : polygon.length >= 3;
+
+  const addZone = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !shapeComplete) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('delivery_zones')
+        .insert({
+          seller_id: user.id,
+          name: name.trim(),
+          zone_type: zoneType,
+          center_longitude: zoneType === 'radius' ? center?.[0] : null,
+          center_latitude: zoneType === 'radius' ? center?.[1] : null,
+          radius_km: zoneType === 'radius' ? parseFloat(radiusKm) : null,
+          polygon: zoneType === 'polygon' ? polygon : null,
+          fee: toMinorUnits(fee),
+          min_order_amount: toMinorUnits(minOrderAmount)
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Delivery zone added",
+        description: `Buyers in ${name.trim()} can now order from you.`
+      });
+      setName('');
+      setCenter(null);
+      setPolygon([]);
+      setFee('0');
+      setMinOrderAmount('0');
+      await loadZones();
+    } catch (error) {
+      console.error('Error adding delivery zone:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add delivery zone. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (zone: DeliveryZone, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('delivery_zones')
+        .update({ active })
+        .eq('id', zone.id);
+
+      if (error) throw error;
+
+      setZones(zones.map(z => z.id === zone.id ? { ...z, active } : z));
+    } catch (error) {
+      console.error('Error updating delivery zone:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update delivery zone. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeZone = async (zone: DeliveryZone) => {
+    try {
+      const { error } = await supabase
+        .from('delivery_zones')
+        .delete()
+        .eq('id', zone.id);
+
+      if (error) throw error;
+
+      setZones(zones.filter(z => z.id !== zone.id));
+    } catch (error) {
+      console.error('Error removing delivery zone:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove delivery zone. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Plus className="w-5 h-5 mr-2" />
+            Add Delivery Zone
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={addZone} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="zoneName">Name</Label>
+              <Input
+                id="zoneName"
+                placeholder="e.g. City centre"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <RadioGroup
+              value={zoneType}
+              onValueChange={(value) => setZoneType(value as ZoneType)}
+              className="flex gap-6"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="radius" id="zoneRadius" />
+                <Label htmlFor="zoneRadius" className="cursor-pointer">Radius from a location</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="polygon" id="zonePolygon" />
+                <Label htmlFor="zonePolygon" className="cursor-pointer">Draw an area</Label>
+              </div>
+            </RadioGroup>
+            <DeliveryZoneMap
+              zoneType={zoneType}
+              center={center}
+              radiusKm={parseFloat(radiusKm) || 0}
+              polygon={polygon}
+              onCenterChange={setCenter}
+              onPolygonChange={setPolygon}
+            />
+            {zoneType === 'radius' ? (
+              <div className="space-y-2">
+                <Label htmlFor="zoneRadiusKm">Radius (km)</Label>
+                <Input
+                  id="zoneRadiusKm"
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={radiusKm}
+                  onChange={(e) => setRadiusKm(e.target.value)}
+                  required
+                />
+                <p className="text-sm text-muted-foreground">
+                  {center ? 'Click the map to move the centre.' : 'Click the map to set your store location.'}
+                </p>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {polygon.length < 3
+                    ? `Click the map to add corners (${polygon.length} of at least 3).`
+                    : `${polygon.length} corners.`}
+                </span>
+                {polygon.length > 0 && (
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setPolygon([])}>
+                    Clear
+                  </Button>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zoneFee">Delivery Fee ({BASE_CURRENCY})</Label>
+                <Input
+                  id="zoneFee"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={fee}
+                  onChange={(e) => setFee(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zoneMinOrder">Minimum Order ({BASE_CURRENCY})</Label>
+                <Input
+                  id="zoneMinOrder"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={minOrderAmount}
+                  onChange={(e) => setMinOrderAmount(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={saving || !shapeComplete} className="w-full">
+              {saving ? 'Adding...' : 'Add Delivery Zone'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <MapPinned className="w-5 h-5 mr-2" />
+            Your Delivery Zones
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading delivery zones...</p>
+          ) : zones.length === 0 ? (
+            <p className="text-muted-foreground">
+              No delivery zones yet. Until you add one, you deliver anywhere for free.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {zones.map((zone) => (
+                <div key={zone.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold">{zone.name}</h4>
+                      <Badge variant="outline">
+                        {zone.zone_type === 'radius' ? `${zone.radius_km} km radius` : 'Drawn area'}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {zone.fee > 0 ? `${formatMoney(zone.fee)} delivery` : 'Free delivery'}
+                      {zone.min_order_amount > 0 ? ` · ${formatMoney(zone.min_order_amount)} minimum` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`zone-active-${zone.id}`}
+                        checked={zone.active}
+                        onCheckedChange={(checked) => setActive(zone, checked)}
+                      />
+                      <Label htmlFor={`zone-active-${zone.id}`} className="text-sm">Active</Label>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeZone(zone)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getMapboxToken, saveMapboxToken } from '@/lib/mapbox';
+import { circlePolygon } from '@/lib/geo';
+
+export type ZoneType = 'radius' | 'polygon';
+
+interface DeliveryZoneMapProps {
+  zoneType: ZoneType;
+  center: [number, number] | null;
+  radiusKm: number;
+  polygon: [number, number][];
+  // Clicking sets the centre of a radius zone, or adds a corner to a polygon
+  onCenterChange: (center: [number, number]) => void;
+  onPolygonChange: (polygon: [number, number][]) => void;
+}
+
+const ZONE_SOURCE = 'delivery-zone';
+
+export const DeliveryZoneMap: React.FC<DeliveryZoneMapProps> = ({
+  zoneType,
+  center,
+  radiusKm,
+  polygon,
+  onCenterChange,
+  onPolygonChange
+}) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const centerMarker = useRef<mapboxgl.Marker | null>(null);
+  const [mapboxToken, setMapboxToken] = useState(getMapboxToken);
+  const [loaded, setLoaded] = useState(false);
+
+  // The click handler is bound once; read the latest props through a ref
+  const latest = useRef({ zoneType, polygon, onCenterChange, onPolygonChange });
+  latest.current = { zoneType, polygon, onCenterChange, onPolygonChange };
+
+  useEffect(() => {
+    if (!mapContainer.current || !mapboxToken) return;
+
+    mapboxgl.accessToken = mapboxToken;
+    map.current = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: 'mapbox://styles/mapbox/light-v11',
+      center: center ?? polygon[0] ?? [-74.006, 40.7128], // NYC default
+      zoom: 11,
+    });
+    map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
+
+    map.current.on('load', () => {
+      map.current?.addSource(ZONE_SOURCE, {
+        type: 'geojson',
+        data: { type: 'FeatureCollection', features: [] }
+      });
+      map.current?.addLayer({
+        id: `${ZONE_SOURCE}-fill`,
+        type: 'fill',
+        source: ZONE_SOURCE,
+        paint: { 'fill-color': '#2563eb', 'fill-opacity': 0.15 }
+      });
+      map.current?.addLayer({
+        id: `${ZONE_SOURCE}-line`,
+        type: 'line',
+        source: ZONE_SOURCE,
+        paint: { 'line-color': '#2563eb', 'line-width': 2 }
+      });
+      setLoaded(true);
+    });
+
+    map.current.on('click', (e) => {
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat];
+      const { zoneType, polygon, onCenterChange, onPolygonChange } = latest.current;
+
+      if (zoneType === 'radius') {
+        onCenterChange(point);
+      } else {
+        onPolygonChange([...polygon, point]);
+      }
+    });
+
+    return () => {
+      setLoaded(false);
+      centerMarker.current = null;
+      map.current?.remove();
+      map.current = null;
+    };
+  }, [mapboxToken]);
+
+  // Redraw the zone whenever its shape changes
+  useEffect(() => {
+    if (!map.current || !loaded) return;
+
+    const ring = zoneType === 'radius'
+      ? (center && radiusKm > 0 ? circlePolygon(center, radiusKm) : [])
+      : polygon.length >= 3 ? [...polygon, polygon[0]] : polygon;
+
+    const source = map.current.getSource(ZONE_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+    source?.setData({
+      type: 'FeatureCollection',
+      features: ring.length === 0 ? [] : [{
+        type: 'Feature',
+        properties: {},
+        geometry: ring.length >= 4
+          ? { type: 'Polygon', coordinates: [ring] }
+          : { type: 'LineString', coordinates: ring }
+      }]
+    });
+
+    if (zoneType === 'radius' && center) {
+      if (!centerMarker.current) {
+        centerMarker.current = new mapboxgl.Marker().setLngLat(center).addTo(map.current);
+      } else {
+        centerMarker.current.setLngLat(center);
+      }
+    } else {
+      centerMarker.current?.remove();
+      centerMarker.current = null;
+    }
+  }, [loaded, zoneType, center, radiusKm, polygon]);
+
+  const handleTokenChange = (token: string) => {
+    setMapboxToken(token);
+    saveMapboxToken(token);
+  };
+
+  if (!mapboxToken) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="zoneMapboxToken">Mapbox Public Token (Required for Maps)</Label>
+        <Input
+          id="zoneMapboxToken"
+          type="password"
+          placeholder="Enter your Mapbox public token"
+          value={mapboxToken}
+          onChange={(e) => handleTokenChange(e.target.value)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-64 w-full rounded-lg border">
+      <div ref={mapContainer} className="h-full w-full rounded-lg" />
+    </div>
+  );
+};
@@ -0,0 +1,248 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Truck, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export interface Driver {
+  id: string;
+  name: string;
+  phone: string;
+  vehicle: string | null;
+  email: string | null;
+  active: boolean;
+  user_id: string | null;
+}
+
+export const DriverManagement: React.FC = () => {
+  const [drivers, setDrivers] = useState<Driver[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [vehicle, setVehicle] = useState('');
+  const [email, setEmail] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      loadDrivers();
+    }
+  }, [user]);
+
+  const loadDrivers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('drivers')
+        .select('id, name, phone, vehicle, email, active, user_id')
+        .eq('seller_id', user?.id)
+        .order('name');
+
+      if (error) throw error;
+      setDrivers(data || []);
+    } catch (error) {
+      console.error('Error loading drivers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addDriver = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('drivers')
+        .insert({
+          seller_id: user.id,
+          name: name.trim(),
+          phone: phone.trim(),
+          vehicle: vehicle.trim() || null,
+          email: email.trim() || null
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Driver added",
+        description: email.trim()
+          ? `${name} can sign up as a driver with ${email.trim()} to see their deliveries.`
+          : `${name} has been added to your drivers.`
+      });
+      setName('');
+      setPhone('');
+      setVehicle('');
+      setEmail('');
+      await loadDrivers();
+    } catch (error) {
+      console.error('Error adding driver:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add driver. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (driver: Driver, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('drivers')
+        .update({ active })
+        .eq('id', driver.id);
+
+      if (error) throw error;
+
+      setDrivers(drivers.map(d => d.id === driver.id ? { ...d, active } : d));
+    } catch (error) {
+      console.error('Error updating driver:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update driver. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeDriver = async (driver: Driver) => {
+    try {
+      const { error } = await supabase
+        .from('drivers')
+        .delete()
+        .eq('id', driver.id);
+
+      if (error) throw error;
+
+      setDrivers(drivers.filter(d => d.id !== driver.id));
+    } catch (error) {
+      console.error('Error removing driver:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove driver. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Plus className="w-5 h-5 mr-2" />
+            Add Driver
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={addDriver} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="driverName">Name</Label>
+              <Input
+                id="driverName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driverPhone">Phone</Label>
+              <Input
+                id="driverPhone"
+                type="tel"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driverVehicle">Vehicle</Label>
+              <Input
+                id="driverVehicle"
+                placeholder="e.g. White van, AB12 CDE"
+                value={vehicle}
+                onChange={(e) => setVehicle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="driverEmail">Email</Label>
+              <Input
+                id="driverEmail"
+                type="email"
+                placeholder="Lets the driver sign in to see their deliveries"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={saving} className="w-full">
+              {saving ? 'Adding...' : 'Add Driver'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Truck className="w-5 h-5 mr-2" />
+            Your Drivers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading drivers...</p>
+          ) : drivers.length === 0 ? (
+            <p className="text-muted-foreground">No drivers yet. Add one to start assigning deliveries.</p>
+          ) : (
+            <div className="space-y-4">
+              {drivers.map((driver) => (
+                <div key={driver.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold">{driver.name}</h4>
+                      {driver.user_id ? (
+                        <Badge variant="secondary">Account linked</Badge>
+                      ) : driver.email ? (
+                        <Badge variant="outline">Invite pending</Badge>
+                      ) : null}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {driver.phone}{driver.vehicle ? ` · ${driver.vehicle}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`active-${driver.id}`}
+                        checked={driver.active}
+                        onCheckedChange={(checked) => setActive(driver, checked)}
+                      />
+                      <Label htmlFor={`active-${driver.id}`} className="text-sm">Active</Label>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeDriver(driver)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { splitHighlights } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text }) => (
+  <>
+    {splitHighlights(text).map((segment, index) =>
+      segment.highlighted ? (
+        <mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
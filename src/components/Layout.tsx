@@ -1,10 +1,12 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { ShoppingCart, User, LogOut, Home, Package } from 'lucide-react';
+import { ShoppingCart, User, LogOut, Home, Package, Truck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -13,6 +15,7 @@ interface LayoutProps {
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const { user, userRole, signOut } = useAuth();
   const { cartCount } = useCart();
+  const { currencies, displayCurrency, setDisplayCurrency } = useCurrency();
   const location = useLocation();
 
   return (
@@ -33,7 +36,7 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               <Home className="w-4 h-4" />
               <span>Home</span>
             </Link>
-            {user && (
+            {user && userRole !== 'driver' && (
               <Link
                 to={userRole === 'seller' ? '/seller/dashboard' : '/dashboard'}
                 className={`flex items-center space-x-2 text-foreground hover:text-primary transition-colors ${
@@ -45,26 +48,50 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
                 <span>{userRole === 'seller' ? 'Seller Dashboard' : 'Dashboard'}</span>
               </Link>
             )}
+            {user && userRole === 'driver' && (
+              <Link
+                to="/driver"
+                className={`flex items-center space-x-2 text-foreground hover:text-primary transition-colors ${
+                  location.pathname === '/driver' ? 'text-primary font-medium' : ''
+                }`}
+              >
+                <Truck className="w-4 h-4" />
+                <span>Deliveries</span>
+              </Link>
+            )}
           </nav>
 
           <div className="flex items-center space-x-4">
+            {currencies.length > 1 && (
+              <Select value={displayCurrency} onValueChange={setDisplayCurrency}>
+                <SelectTrigger className="w-24 h-9" aria-label="Display currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((currency) => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {/* Signed-out shoppers keep a cart too */}
+            {(!user || userRole === 'buyer') && (
+              <Link to="/cart" className="relative">
+                <Button variant="ghost" size="sm" className="relative">
+                  <ShoppingCart className="w-5 h-5" />
+                  {cartCount > 0 && (
+                    <Badge 
+                      variant="destructive" 
+                      className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center p-0 text-xs"
+                    >
+                      {cartCount}
+                    </Badge>
+                  )}
+                </Button>
+              </Link>
+            )}
             {user ? (
               <>
-                {userRole === 'buyer' && (
-                  <Link to="/cart" className="relative">
-                    <Button variant="ghost" size="sm" className="relative">
-                      <ShoppingCart className="w-5 h-5" />
-                      {cartCount > 0 && (
-                        <Badge 
-                          variant="destructive" 
-                          className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center p-0 text-xs"
-                        >
-                          {cartCount}
-                        </Badge>
-                      )}
-                    </Button>
-                  </Link>
-                )}
                 <Button onClick={signOut} variant="ghost" size="sm">
                   <LogOut className="w-4 h-4 mr-2" />
                   Sign Out
@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+
+interface ListingPaginationProps {
+  page: number;
+  pageCount: number;
+  hrefFor: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// The first and last pages and those either side of the current one, with
+// gaps between
+const visiblePages = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let n = 1; n <= pageCount; n++) {
+    if (n === 1 || n === pageCount || Math.abs(n - page) <= 1) {
+      pages.push(n);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+export const ListingPagination: React.FC<ListingPaginationProps> = ({ page, pageCount, hrefFor, onPageChange }) => {
+  // Links keep their addresses so they can be opened in a new tab
+  const linkProps = (target: number) => ({
+    href: hrefFor(target),
+    onClick: (e: React.MouseEvent) => {
+      e.preventDefault();
+      onPageChange(target);
+    }
+  });
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        {page > 1 && (
+          <PaginationItem>
+            <PaginationPrevious {...linkProps(page - 1)} />
+          </PaginationItem>
+        )}
+        {visiblePages(page, pageCount).map((n, index) => (
+          <PaginationItem key={n ?? `gap-${index}`}>
+            {n === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink isActive={n === page} {...linkProps(n)}>
+                {n}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        {page < pageCount && (
+          <PaginationItem>
+            <PaginationNext {...linkProps(page + 1)} />
+          </PaginationItem>
+        )}
+      </PaginationContent>
+    </Pagination>
+  );
+};
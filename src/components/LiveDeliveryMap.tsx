@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Navigation } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { getMapboxToken, saveMapboxToken, geocodeAddress } from '@/lib/mapbox';
+import { estimateArrival } from '@/lib/geo';
+
+interface DriverLocation {
+  latitude: number;
+  longitude: number;
+  speed: number | null;
+  recorded_at: string;
+}
+
+interface LiveDeliveryMapProps {
+  fulfillmentId: string;
+  shippingAddress: string | null;
+  // Coordinates saved with the order; the address is geocoded without them
+  destination?: [number, number] | null;
+}
+
+export const LiveDeliveryMap: React.FC<LiveDeliveryMapProps> = ({
+  fulfillmentId,
+  shippingAddress,
+  destination: savedDestination = null
+}) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<mapboxgl.Map | null>(null);
+  const driverMarker = useRef<mapboxgl.Marker | null>(null);
+  const [mapboxToken, setMapboxToken] = useState(getMapboxToken);
+  const [location, setLocation] = useState<DriverLocation | null>(null);
+  const [destination, setDestination] = useState<[number, number] | null>(null);
+
+  // Current position, then every update the driver publishes
+  useEffect(() => {
+    const loadLocation = async () => {
+      const { data, error } = await supabase
+        .from('delivery_locations')
+        .select('latitude, longitude, speed, recorded_at')
+        .eq('fulfillment_id', fulfillmentId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading driver location:', error);
+      } else {
+        setLocation(data);
+      }
+    };
+
+    loadLocation();
+
+    const channel = supabase
+      .channel(`delivery-location-${fulfillmentId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'delivery_locations',
+          filter: `fulfillment_id=eq.${fulfillmentId}`
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            setLocation(null);
+          } else {
+            setLocation(payload.new as DriverLocation);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fulfillmentId]);
+
+  useEffect(() => {
+    if (!mapContainer.current || !mapboxToken) return;
+
+    mapboxgl.accessToken = mapboxToken;
+    map.current = new mapboxgl.Map({
+      container: mapContainer.current,
+      style: 'mapbox://styles/mapbox/light-v11',
+      center: [-74.006, 40.7128], // NYC default
+      zoom: 12,
+    });
+    map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
+
+    const showDestination = async () => {
+      try {
+        const coordinates = savedDestination
+          ?? (shippingAddress ? await geocodeAddress(shippingAddress, mapboxToken) : null);
+        if (!coordinates || !map.current) return;
+
+        new mapboxgl.Marker({ color: '#16a34a' })
+          .setLngLat(coordinates)
+          .addTo(map.current);
+        setDestination(coordinates);
+      } catch (error) {
+        console.error('Error finding delivery address:', error);
+      }
+    };
+
+    showDestination();
+
+    return () => {
+      driverMarker.current = null;
+      map.current?.remove();
+      map.current = null;
+    };
+  }, [mapboxToken, shippingAddress]);
+
+  // Move the driver marker and keep both points in view
+  useEffect(() => {
+    if (!map.current) return;
+
+    if (!location) {
+      driverMarker.current?.remove();
+      driverMarker.current = null;
+      return;
+    }
+
+    const position: [number, number] = [location.longitude, location.latitude];
+    if (!driverMarker.current) {
+      driverMarker.current = new mapboxgl.Marker({ color: '#2563eb' })
+        .setLngLat(position)
+        .addTo(map.current);
+    } else {
+      driverMarker.current.setLngLat(position);
+    }
+
+    if (destination) {
+      map.current.fitBounds(new mapboxgl.LngLatBounds(position, position).extend(destination), {
+        padding: 48,
+        maxZoom: 15
+      });
+    } else {
+      map.current.setCenter(position);
+    }
+  }, [location, destination, mapboxToken]);
+
+  const handleTokenChange = (token: string) => {
+    setMapboxToken(token);
+    saveMapboxToken(token);
+  };
+
+  const eta = location && destination
+    ? estimateArrival([location.longitude, location.latitude], destination, location.speed)
+    : null;
+
+  return (
+    <div className="space-y-2">
+      {mapboxToken ? (
+        <div className="h-64 w-full rounded-lg border">
+          <div ref={mapContainer} className="h-full w-full rounded-lg" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={`mapboxToken-${fulfillmentId}`}>Mapbox Public Token (Required for Maps)</Label>
+          <Input
+            id={`mapboxToken-${fulfillmentId}`}
+            type="password"
+            placeholder="Enter your Mapbox public token"
+            value={mapboxToken}
+            onChange={(e) => handleTokenChange(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Navigation className="w-4 h-4 mr-2" />
+        {!location
+          ? 'Waiting for the driver to share their location...'
+          : eta
+            ? `Driver is ${eta.distanceKm.toFixed(1)} km away, arriving in about ${eta.minutes} min`
+            : `Driver location updated ${new Date(location.recorded_at).toLocaleTimeString()}`}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React, { useEffect, useRef } from 'react';
+
+interface LoadMoreTriggerProps {
+  onLoadMore: () => void;
+  disabled?: boolean;
+}
+
+// Placed after a list; calls onLoadMore as it comes near the bottom of the
+// screen, starting a little early so the next page is ready in time
+export const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({ onLoadMore, disabled = false }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    if (disabled || !ref.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMoreRef.current();
+      },
+      { rootMargin: '600px 0px' }
+    );
+
+    observer.observe(ref.current);
+    return () => observer.disconnect();
+  }, [disabled]);
+
+  return <div ref={ref} aria-hidden="true" />;
+};
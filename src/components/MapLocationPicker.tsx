@@ -6,25 +6,36 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { MapPin, Navigation } from 'lucide-react';
+import { getMapboxToken, saveMapboxToken, reverseGeocode, geocodeAddress } from '@/lib/mapbox';
 
 interface MapLocationPickerProps {
-  onLocationSelect: (address: string, coordinates?: [number, number]) => void;
+  onLocationSelect?: (address: string, coordinates?: [number, number]) => void;
   initialAddress?: string;
+  // Only show initialAddress on the map, e.g. for a driver's delivery
+  readOnly?: boolean;
+  // Skip the free-text entry, for forms that collect the address themselves
+  mapOnly?: boolean;
 }
 
 const MapLocationPicker: React.FC<MapLocationPickerProps> = ({ 
   onLocationSelect, 
-  initialAddress = '' 
+  initialAddress = '',
+  readOnly = false,
+  mapOnly = false
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const marker = useRef<mapboxgl.Marker | null>(null);
   const [manualAddress, setManualAddress] = useState(initialAddress);
   const [selectedCoordinates, setSelectedCoordinates] = useState<[number, number] | null>(null);
-  const [isMapMode, setIsMapMode] = useState(false);
-  const [mapboxToken, setMapboxToken] = useState('');
+  const [isMapMode, setIsMapMode] = useState(readOnly || mapOnly);
+  const [mapboxToken, setMapboxToken] = useState(getMapboxToken);
+
+  const handleTokenChange = (token: string) => {
+    setMapboxToken(token);
+    saveMapboxToken(token);
+  };
 
-  // For demonstration - in production you'd get this from Supabase secrets
   const initializeMap = () => {
     if (!mapContainer.current || !mapboxToken) return;
 
@@ -39,6 +50,11 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
 
     map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
 
+    if (readOnly) {
+      showAddress();
+      return;
+    }
+
     // Add click handler to place marker
     map.current.on('click', async (e) => {
       const { lng, lat } = e.lngLat;
@@ -57,13 +73,8 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
 
       // Reverse geocoding to get address
       try {
-        const response = await fetch(
-          `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?access_token=${mapboxToken}`
-        );
-        const data = await response.json();
-        
-        if (data.features && data.features.length > 0) {
-          const address = data.features[0].place_name;
+        const address = await reverseGeocode(lng, lat, mapboxToken);
+        if (address) {
           setManualAddress(address);
         }
       } catch (error) {
@@ -72,6 +83,25 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
     });
   };
 
+  // Centre the map on the given address
+  const showAddress = async () => {
+    if (!initialAddress.trim()) return;
+
+    try {
+      const coordinates = await geocodeAddress(initialAddress, mapboxToken);
+      if (!coordinates || !map.current) return;
+
+      map.current.setCenter(coordinates);
+      map.current.setZoom(15);
+      marker.current = new mapboxgl.Marker()
+        .setLngLat(coordinates)
+        .addTo(map.current);
+      setSelectedCoordinates(coordinates);
+    } catch (error) {
+      console.error('Error finding address:', error);
+    }
+  };
+
   useEffect(() => {
     if (isMapMode && mapboxToken) {
       initializeMap();
@@ -111,13 +141,8 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
             // Get address for current location
             if (mapboxToken) {
               try {
-                const response = await fetch(
-                  `https://api.mapbox.com/geocoding/v5/mapbox.places/${longitude},${latitude}.json?access_token=${mapboxToken}`
-                );
-                const data = await response.json();
-                
-                if (data.features && data.features.length > 0) {
-                  const address = data.features[0].place_name;
+                const address = await reverseGeocode(longitude, latitude, mapboxToken);
+                if (address) {
                   setManualAddress(address);
                 }
               } catch (error) {
@@ -135,9 +160,9 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
 
   const handleUseSelectedLocation = () => {
     if (isMapMode && selectedCoordinates) {
-      onLocationSelect(manualAddress, selectedCoordinates);
+      onLocationSelect?.(manualAddress, selectedCoordinates);
     } else {
-      onLocationSelect(manualAddress);
+      onLocationSelect?.(manualAddress);
     }
   };
 
@@ -150,22 +175,30 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex gap-2">
-          <Button
-            variant={!isMapMode ? "default" : "outline"}
-            onClick={() => setIsMapMode(false)}
-            size="sm"
-          >
-            Manual Entry
-          </Button>
-          <Button
-            variant={isMapMode ? "default" : "outline"}
-            onClick={() => setIsMapMode(true)}
-            size="sm"
-          >
-            Map Selection
-          </Button>
-        </div>
+        {readOnly && (
+          <p className="text-sm">{initialAddress}</p>
+        )}
+
+        {!readOnly && !mapOnly && (
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant={!isMapMode ? "default" : "outline"}
+              onClick={() => setIsMapMode(false)}
+              size="sm"
+            >
+              Manual Entry
+            </Button>
+            <Button
+              type="button"
+              variant={isMapMode ? "default" : "outline"}
+              onClick={() => setIsMapMode(true)}
+              size="sm"
+            >
+              Map Selection
+            </Button>
+          </div>
+        )}
 
         {isMapMode && !mapboxToken && (
           <div className="space-y-2">
@@ -175,7 +208,7 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
               type="password"
               placeholder="Enter your Mapbox public token"
               value={mapboxToken}
-              onChange={(e) => setMapboxToken(e.target.value)}
+              onChange={(e) => handleTokenChange(e.target.value)}
             />
             <p className="text-sm text-muted-foreground">
               Get your token from{' '}
@@ -196,21 +229,24 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
             <div className="h-64 w-full rounded-lg border">
               <div ref={mapContainer} className="h-full w-full rounded-lg" />
             </div>
-            <Button
-              variant="outline"
-              onClick={handleGetCurrentLocation}
-              className="w-full"
-            >
-              <Navigation className="w-4 h-4 mr-2" />
-              Use My Current Location
-            </Button>
+            {!readOnly && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleGetCurrentLocation}
+                className="w-full"
+              >
+                <Navigation className="w-4 h-4 mr-2" />
+                Use My Current Location
+              </Button>
+            )}
             {selectedCoordinates && (
               <p className="text-sm text-muted-foreground">
                 Selected: {selectedCoordinates[1].toFixed(6)}, {selectedCoordinates[0].toFixed(6)}
               </p>
             )}
           </div>
-        ) : (
+        ) : !readOnly && !mapOnly && (
           <div className="space-y-2">
             <Label htmlFor="address">Delivery Address</Label>
             <textarea
@@ -224,13 +260,16 @@ const MapLocationPicker: React.FC<MapLocationPickerProps> = ({
           </div>
         )}
 
-        <Button 
-          onClick={handleUseSelectedLocation}
-          className="w-full"
-          disabled={!manualAddress.trim()}
-        >
-          Use This Location
-        </Button>
+        {!readOnly && (
+          <Button 
+            type="button"
+            onClick={handleUseSelectedLocation}
+            className="w-full"
+            disabled={!manualAddress.trim()}
+          >
+            Use This Location
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,78 @@
+import React from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { AttributeFormValues, CategoryAttribute } from '@/lib/attributes';
+
+interface ProductAttributeFieldsProps {
+  attributes: CategoryAttribute[];
+  form: UseFormReturn<AttributeFormValues>;
+}
+
+// A field for each attribute of the product's category, checked against
+// the category's rules as the seller goes
+export const ProductAttributeFields: React.FC<ProductAttributeFieldsProps> = ({ attributes, form }) => (
+  <Form {...form}>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {attributes.map((attribute) => (
+        <FormField
+          key={attribute.key}
+          control={form.control}
+          name={attribute.key}
+          render={({ field }) => attribute.type === 'boolean' ? (
+            <FormItem className="flex items-center gap-2 space-y-0 pt-8">
+              <FormControl>
+                <Checkbox checked={field.value === true} onCheckedChange={(checked) => field.onChange(!!checked)} />
+              </FormControl>
+              <FormLabel className="font-normal">{attribute.label}</FormLabel>
+            </FormItem>
+          ) : (
+            <FormItem>
+              <FormLabel>
+                {attribute.label}{attribute.required && ' *'}
+              </FormLabel>
+              {attribute.type === 'select' ? (
+                <Select value={String(field.value) || undefined} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Choose ${attribute.label.toLowerCase()}`} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {attribute.options.map((option) => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <FormControl>
+                  <Input
+                    type={attribute.type === 'number' ? 'number' : 'text'}
+                    step="any"
+                    name={field.name}
+                    ref={field.ref}
+                    value={String(field.value ?? '')}
+                    onChange={field.onChange}
+                    onBlur={field.onBlur}
+                  />
+                </FormControl>
+              )}
+              {attribute.unit && <FormDescription>In {attribute.unit}</FormDescription>}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  </Form>
+);
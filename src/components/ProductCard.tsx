@@ -1,43 +1,73 @@
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ShoppingCart, Eye } from 'lucide-react';
+import { ShoppingCart, Eye, Star } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import ChatSystem from '@/components/ChatSystem';
+import { HighlightedText } from '@/components/HighlightedText';
+import { Json } from '@/integrations/supabase/types';
+import { MinorUnits } from '@/lib/money';
+import { parseVariantOptions } from '@/lib/variants';
 
 interface Product {
   id: string;
   name: string;
   description: string;
-  price: number;
+  price: MinorUnits;
   image_url: string;
   category: string;
   stock_quantity: number;
+  reserved_quantity?: number;
   seller_id: string;
+  variant_options?: Json;
+  average_rating?: number | null;
+  review_count?: number;
 }
 
+// Search results' name and description with the matched words marked
+interface SearchHighlight {
+  name: string;
+  snippet: string | null;
+}
+
+// Lets the product page go back to the listing as it was left
+const LISTING_STATE = { fromListing: true };
+
 interface ProductCardProps {
   product: Product;
+  highlight?: SearchHighlight;
   showAddToCart?: boolean;
   onAddToCart?: () => void;
 }
 
 export const ProductCard: React.FC<ProductCardProps> = ({ 
   product, 
+  highlight,
   showAddToCart = true,
   onAddToCart 
 }) => {
   const { addToCart } = useCart();
   const { user, userRole } = useAuth();
+  const { formatPrice } = useCurrency();
+  const navigate = useNavigate();
+
+  // Units held by unpaid orders can't be bought
+  const availableStock = Math.max(product.stock_quantity - (product.reserved_quantity || 0), 0);
+
+  // A variant has to be picked on the product page first
+  const hasVariants = parseVariantOptions(product.variant_options).length > 0;
 
   const handleAddToCart = () => {
     if (onAddToCart) {
       onAddToCart();
+    } else if (hasVariants) {
+      navigate(`/product/${product.id}`, { state: LISTING_STATE });
     } else {
-      addToCart(product.id);
+      addToCart(product.id, product);
     }
   };
 
@@ -57,22 +87,30 @@ export const ProductCard: React.FC<ProductCardProps> = ({
               {product.category}
             </Badge>
             <span className="text-sm text-muted-foreground">
-              {product.stock_quantity} in stock
+              {availableStock} in stock
             </span>
           </div>
-          <h3 className="font-semibold text-lg line-clamp-2">{product.name}</h3>
+          <h3 className="font-semibold text-lg line-clamp-2">
+            <HighlightedText text={highlight?.name ?? product.name} />
+          </h3>
           <p className="text-muted-foreground text-sm line-clamp-2">
-            {product.description}
+            <HighlightedText text={highlight?.snippet ?? product.description ?? ''} />
           </p>
+          {product.review_count > 0 && (
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Star className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+              {product.average_rating} ({product.review_count})
+            </div>
+          )}
           <div className="text-2xl font-bold text-primary">
-            ${product.price.toFixed(2)}
+            {formatPrice(product.price)}
           </div>
         </div>
       </CardContent>
       <CardFooter className="p-4 pt-0">
         <div className="space-y-2 w-full">
           <div className="flex gap-2">
-            <Link to={`/product/${product.id}`} className="flex-1">
+            <Link to={`/product/${product.id}`} state={LISTING_STATE} className="flex-1">
               <Button variant="outline" className="w-full">
                 <Eye className="w-4 h-4 mr-2" />
                 View Details
@@ -82,10 +120,10 @@ export const ProductCard: React.FC<ProductCardProps> = ({
               <Button 
                 onClick={handleAddToCart}
                 className="flex-1"
-                disabled={product.stock_quantity === 0}
+                disabled={availableStock === 0}
               >
                 <ShoppingCart className="w-4 h-4 mr-2" />
-                {product.stock_quantity === 0 ? 'Out of Stock' : 'Add to Cart'}
+                {availableStock === 0 ? 'Out of Stock' : hasVariants ? 'Choose Options' : 'Add to Cart'}
               </Button>
             )}
           </div>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Stands in for a ProductCard while the listing loads, at the same size
+export const ProductCardSkeleton: React.FC = () => (
+  <Card className="h-full flex flex-col">
+    <CardContent className="p-4 flex-grow">
+      <Skeleton className="aspect-square mb-4" />
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Skeleton className="h-5 w-20" />
+          <Skeleton className="h-4 w-16" />
+        </div>
+        <Skeleton className="h-6 w-3/4" />
+        <Skeleton className="h-4 w-full" />
+        <Skeleton className="h-4 w-2/3" />
+        <Skeleton className="h-8 w-24" />
+      </div>
+    </CardContent>
+    <CardFooter className="p-4 pt-0">
+      <Skeleton className="h-10 w-full" />
+    </CardFooter>
+  </Card>
+);
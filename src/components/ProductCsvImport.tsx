@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCategories } from '@/hooks/use-categories';
+import { useToast } from '@/hooks/use-toast';
+import { parseCsv } from '@/lib/csv';
+import {
+  PRODUCT_CSV_FIELDS,
+  ProductCsvField,
+  ProductCsvMapping,
+  buildProductImport,
+  guessProductCsvMapping
+} from '@/lib/product-csv';
+
+interface ProductCsvImportProps {
+  sellerId: string;
+  onImported: () => void;
+}
+
+const NOT_MAPPED = 'none';
+
+export const ProductCsvImport: React.FC<ProductCsvImportProps> = ({ sellerId, onImported }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ProductCsvMapping>({});
+  const [existing, setExisting] = useState<Tables<'products'>[]>([]);
+  const [importing, setImporting] = useState(false);
+  const { currencies, displayCurrency } = useCurrency();
+  const { categories } = useCategories();
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    reset();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const [data, { data: products, error }] = await Promise.all([
+        file.text().then(parseCsv),
+        supabase.from('products').select('*').eq('seller_id', sellerId)
+      ]);
+
+      if (error) throw error;
+
+      if (data.length < 2) {
+        toast({
+          title: "Error",
+          description: "The file needs a header row and at least one product",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(data[0]);
+      setRows(data.slice(1));
+      setMapping(guessProductCsvMapping(data[0]));
+      setExisting(products || []);
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read the file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const importRows = useMemo(
+    () => buildProductImport(rows, mapping, existing, currencies, displayCurrency, categories),
+    [rows, mapping, existing, currencies, displayCurrency, categories]
+  );
+
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const updates = validRows.filter(row => row.existingId).length;
+  const missingFields = PRODUCT_CSV_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+
+  const setColumn = (field: ProductCsvField, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+
+    try {
+      const { error } = await supabase
+        .from('products')
+        .upsert(
+          validRows.map(row => ({ seller_id: sellerId, ...row.record })),
+          { onConflict: 'seller_id,sku' }
+        );
+
+      if (error) throw error;
+
+      const skipped = importRows.length - validRows.length;
+      toast({
+        title: "Import complete",
+        description: `${validRows.length - updates} added, ${updates} updated` +
+          (skipped > 0 ? `, ${skipped} skipped because of errors` : '')
+      });
+
+      close();
+      onImported();
+    } catch (error) {
+      console.error('Error importing products:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import products",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="w-4 h-4 mr-2" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            Rows are matched to your products by SKU: known SKUs are updated and new ones are added.
+            Variants, images beyond the cover, and archiving are managed on each product's page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="productCsv">CSV file</Label>
+            <input
+              id="productCsv"
+              type="file"
+              accept=".csv,text/csv"
+              className="block text-sm"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {fileName && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {rows.length} row{rows.length !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <h3 className="font-semibold">Columns</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {PRODUCT_CSV_FIELDS.map((field) => (
+                    <div key={field.key} className="flex items-center gap-2">
+                      <Label className="w-28 shrink-0">
+                        {field.label}{field.required && ' *'}
+                      </Label>
+                      <Select
+                        value={mapping[field.key] === undefined ? NOT_MAPPED : String(mapping[field.key])}
+                        onValueChange={(value) => setColumn(field.key, value)}
+                      >
+                        <SelectTrigger aria-label={`${field.label} column`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                          {headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {missingFields.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Choose a column for {missingFields.map(field => field.label).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {missingFields.length === 0 && (
+                <div className="space-y-2">
+                  <h3 className="font-semibold">Preview</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {validRows.length - updates} new, {updates} to update,{' '}
+                    {importRows.length - validRows.length} with errors
+                  </p>
+                  <div className="max-h-80 overflow-y-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Line</TableHead>
+                          <TableHead>SKU</TableHead>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {importRows.map((row) => (
+                          <TableRow key={row.line}>
+                            <TableCell>{row.line}</TableCell>
+                            <TableCell className="font-mono text-sm">{row.sku}</TableCell>
+                            <TableCell>{row.name}</TableCell>
+                            <TableCell>
+                              {row.errors.length > 0 ? (
+                                <ul className="text-sm text-destructive">
+                                  {row.errors.map((error) => (
+                                    <li key={error}>{error}</li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <Badge variant={row.existingId ? 'secondary' : 'default'}>
+                                  {row.existingId ? 'Update' : 'New'}
+                                </Badge>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={importing || missingFields.length > 0 || validRows.length === 0}
+          >
+            {importing
+              ? 'Importing...'
+              : `Import ${validRows.length} product${validRows.length !== 1 ? 's' : ''}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
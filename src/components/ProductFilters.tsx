@@ -0,0 +1,261 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Star } from 'lucide-react';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { convertFromBase, convertToBase, toMinorUnits } from '@/lib/money';
+import { AttributeFacet, AttributeFilter, ListingFacets, ListingFilters } from '@/lib/listing-filters';
+
+interface ProductFiltersProps {
+  filters: ListingFilters;
+  facets: ListingFacets;
+  onChange: (changes: Partial<ListingFilters>) => void;
+}
+
+const ALL_SELLERS = 'all';
+
+interface AttributeRangeFilterProps {
+  facet: AttributeFacet;
+  filter: AttributeFilter | undefined;
+  onChange: (filter: AttributeFilter | null) => void;
+}
+
+// A number attribute's range, between the lowest and highest value of the
+// matching products
+const AttributeRangeFilter: React.FC<AttributeRangeFilterProps> = ({ facet, filter, onChange }) => {
+  const lowest = Math.floor(facet.min ?? 0);
+  const highest = Math.ceil(facet.max ?? 0);
+  const selectedMin = filter?.min ?? lowest;
+  const selectedMax = filter?.max ?? highest;
+
+  const [range, setRange] = useState([selectedMin, selectedMax]);
+
+  useEffect(() => {
+    setRange([selectedMin, selectedMax]);
+  }, [selectedMin, selectedMax]);
+
+  const commitRange = ([min, max]: number[]) => {
+    const next = { values: [], min: min <= lowest ? null : min, max: max >= highest ? null : max };
+    onChange(next.min === null && next.max === null ? null : next);
+  };
+
+  if (highest <= lowest) return null;
+
+  const withUnit = (value: number) => facet.unit ? `${value} ${facet.unit}` : String(value);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold">{facet.label}</h3>
+      <Slider
+        min={lowest}
+        max={highest}
+        step={1}
+        value={range}
+        onValueChange={setRange}
+        onValueCommit={commitRange}
+        aria-label={`${facet.label} range`}
+      />
+      <div className="flex justify-between text-sm text-muted-foreground">
+        <span>{withUnit(range[0])}</span>
+        <span>{withUnit(range[1])}</span>
+      </div>
+    </div>
+  );
+};
+
+const valueLabel = (facet: AttributeFacet, value: string) =>
+  facet.type === 'boolean' ? (value === 'true' ? 'Yes' : 'No') : value;
+
+export const ProductFilters: React.FC<ProductFiltersProps> = ({ filters, facets, onChange }) => {
+  const { rate, formatPrice } = useCurrency();
+
+  // The slider moves in whole units of the buyer's currency
+  const toDisplayUnits = (amount: number) => convertFromBase(amount, rate) / 100;
+  const lowest = facets.price.min !== null ? Math.floor(toDisplayUnits(facets.price.min)) : 0;
+  const highest = facets.price.max !== null ? Math.ceil(toDisplayUnits(facets.price.max)) : 0;
+  const selectedMin = filters.minPrice !== null ? Math.floor(toDisplayUnits(filters.minPrice)) : lowest;
+  const selectedMax = filters.maxPrice !== null ? Math.ceil(toDisplayUnits(filters.maxPrice)) : highest;
+
+  // Follows the thumbs while dragging; the filter changes when they're let go
+  const [priceRange, setPriceRange] = useState([selectedMin, selectedMax]);
+
+  useEffect(() => {
+    setPriceRange([selectedMin, selectedMax]);
+  }, [selectedMin, selectedMax]);
+
+  const commitPriceRange = ([min, max]: number[]) => {
+    onChange({
+      minPrice: min <= lowest ? null : convertToBase(toMinorUnits(min), rate),
+      maxPrice: max >= highest ? null : convertToBase(toMinorUnits(max), rate)
+    });
+  };
+
+  const changeAttribute = (key: string, filter: AttributeFilter | null) => {
+    const { [key]: _previous, ...others } = filters.attributes;
+    onChange({ attributes: filter ? { ...others, [key]: filter } : others });
+  };
+
+  const toggleAttributeValue = (key: string, value: string, checked: boolean) => {
+    const values = filters.attributes[key]?.values ?? [];
+    const next = checked ? [...values, value] : values.filter(accepted => accepted !== value);
+    changeAttribute(key, next.length > 0 ? { values: next, min: null, max: null } : null);
+  };
+
+  const hasFilters = filters.category !== null || filters.sellerId !== null || filters.minPrice !== null
+    || filters.maxPrice !== null || filters.inStock || filters.minRating !== null
+    || Object.keys(filters.attributes).length > 0;
+
+  return (
+    <div className="space-y-6">
+      {facets.categories.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">{filters.category === null ? 'Category' : 'Subcategory'}</h3>
+          <div className="flex flex-wrap gap-2">
+            {facets.categories.map((category) => (
+              <Badge
+                key={category.slug}
+                variant="secondary"
+                className="cursor-pointer"
+                onClick={() => onChange({ category: category.slug })}
+              >
+                {category.name} ({category.count})
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {highest > lowest && (
+        <div className="space-y-3">
+          <h3 className="font-semibold">Price</h3>
+          <Slider
+            min={lowest}
+            max={highest}
+            step={1}
+            minStepsBetweenThumbs={1}
+            value={priceRange}
+            onValueChange={setPriceRange}
+            onValueCommit={commitPriceRange}
+            aria-label="Price range"
+          />
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>{formatPrice(convertToBase(toMinorUnits(priceRange[0]), rate))}</span>
+            <span>{formatPrice(convertToBase(toMinorUnits(priceRange[1]), rate))}</span>
+          </div>
+        </div>
+      )}
+
+      {facets.attributes.map((facet) => facet.type === 'number' ? (
+        <AttributeRangeFilter
+          key={facet.key}
+          facet={facet}
+          filter={filters.attributes[facet.key]}
+          onChange={(filter) => changeAttribute(facet.key, filter)}
+        />
+      ) : (facet.values ?? []).length > 0 && (
+        <div key={facet.key} className="space-y-2">
+          <h3 className="font-semibold">{facet.label}</h3>
+          <div className="space-y-1">
+            {(facet.values ?? []).map(({ value, count }) => {
+              const id = `attr-${facet.key}-${value}`;
+              return (
+                <div key={value} className="flex items-center gap-2">
+                  <Checkbox
+                    id={id}
+                    checked={filters.attributes[facet.key]?.values.includes(value) ?? false}
+                    onCheckedChange={(checked) => toggleAttributeValue(facet.key, value, !!checked)}
+                  />
+                  <Label htmlFor={id} className="font-normal">
+                    {valueLabel(facet, value)} ({count})
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Availability</h3>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="inStock"
+            checked={filters.inStock}
+            onCheckedChange={(checked) => onChange({ inStock: !!checked })}
+          />
+          <Label htmlFor="inStock" className="font-normal">
+            In stock only ({facets.inStock})
+          </Label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Rating</h3>
+        <div className="space-y-1">
+          {facets.ratings.map((rating) => (
+            <Button
+              key={rating.min}
+              variant={filters.minRating === rating.min ? "secondary" : "ghost"}
+              size="sm"
+              className="w-full justify-start"
+              disabled={rating.count === 0 && filters.minRating !== rating.min}
+              onClick={() => onChange({ minRating: filters.minRating === rating.min ? null : rating.min })}
+            >
+              {Array.from({ length: 5 }, (_, i) => (
+                <Star
+                  key={i}
+                  className={`w-3 h-3 ${i < rating.min ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground'}`}
+                />
+              ))}
+              <span className="ml-2">& up ({rating.count})</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {facets.sellers.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Seller</h3>
+          <Select
+            value={filters.sellerId ?? ALL_SELLERS}
+            onValueChange={(value) => onChange({ sellerId: value === ALL_SELLERS ? null : value })}
+          >
+            <SelectTrigger aria-label="Seller">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SELLERS}>All sellers</SelectItem>
+              {facets.sellers.map((seller) => (
+                <SelectItem key={seller.id} value={seller.id}>
+                  {seller.name} ({seller.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {hasFilters && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => onChange({
+            category: null,
+            sellerId: null,
+            minPrice: null,
+            maxPrice: null,
+            inStock: false,
+            minRating: null,
+            attributes: {}
+          })}
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+};
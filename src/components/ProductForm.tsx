@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useToast } from '@/hooks/use-toast';
+import { ProductImageManager } from '@/components/ProductImageManager';
+import { VariantEditor } from '@/components/VariantEditor';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { ProductAttributeFields } from '@/components/ProductAttributeFields';
+import { useCategoryAttributes } from '@/hooks/use-category-attributes';
+import {
+  AttributeFormValues,
+  attributeFormSchema,
+  toAttributeFormValues,
+  toProductAttributes
+} from '@/lib/attributes';
+import { ProductFormValues, validateProductFields } from '@/lib/product-form';
+import { toVariantOptions } from '@/lib/variants';
+
+interface ProductFormProps {
+  sellerId: string;
+  initialValues: ProductFormValues;
+  // Storage paths of images the product already has
+  savedImagePaths?: string[];
+  submitLabel: string;
+  submittingLabel: string;
+  loading: boolean;
+  onSubmit: (values: ProductFormValues) => void;
+  onCancel: () => void;
+}
+
+export const ProductForm: React.FC<ProductFormProps> = ({
+  sellerId,
+  initialValues,
+  savedImagePaths,
+  submitLabel,
+  submittingLabel,
+  loading,
+  onSubmit,
+  onCancel
+}) => {
+  const [values, setValues] = useState(initialValues);
+  const { currencies } = useCurrency();
+  const { toast } = useToast();
+
+  const hasVariants = toVariantOptions(values.variantAxes).length > 0;
+
+  // The category decides which attributes there are, so they're checked
+  // against its rules rather than the fixed ones above
+  const { attributes } = useCategoryAttributes(values.categoryId);
+  const attributeForm = useForm<AttributeFormValues>({
+    resolver: zodResolver(attributeFormSchema(attributes)),
+    mode: 'onTouched'
+  });
+
+  // Another category keeps what was entered for the attributes they share
+  useEffect(() => {
+    attributeForm.reset(toAttributeFormValues(attributes, initialValues.attributes, attributeForm.getValues()));
+  }, [attributes, attributeForm, initialValues.attributes]);
+
+  const update = (changes: Partial<ProductFormValues>) => {
+    setValues(current => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateProductFields({
+      name: values.name,
+      price: values.price,
+      currency: values.currency,
+      stockQuantity: hasVariants ? undefined : values.stockQuantity
+    }, currencies);
+
+    if (!(await attributeForm.trigger())) {
+      errors.push('Check the highlighted specifications');
+    }
+
+    if (errors.length > 0) {
+      toast({
+        title: "Error",
+        description: errors.join('. '),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onSubmit({ ...values, attributes: toProductAttributes(attributes, attributeForm.getValues()) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="name">Product Name *</Label>
+        <Input
+          id="name"
+          type="text"
+          placeholder="Enter product name"
+          value={values.name}
+          onChange={(e) => update({ name: e.target.value })}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Textarea
+          id="description"
+          placeholder="Enter product description"
+          value={values.description}
+          onChange={(e) => update({ description: e.target.value })}
+          rows={4}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="price">Price *</Label>
+          <div className="flex gap-2">
+            <Input
+              id="price"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={values.price}
+              onChange={(e) => update({ price: e.target.value })}
+              required
+            />
+            <Select value={values.currency} onValueChange={(currency) => update({ currency })}>
+              <SelectTrigger className="w-24" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map((c) => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!hasVariants && (
+          <div className="space-y-2">
+            <Label htmlFor="stockQuantity">Stock Quantity *</Label>
+            <Input
+              id="stockQuantity"
+              type="number"
+              min="0"
+              placeholder="0"
+              value={values.stockQuantity}
+              onChange={(e) => update({ stockQuantity: e.target.value })}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="category">Category</Label>
+          <CategoryPicker
+            id="category"
+            value={values.categoryId}
+            onChange={(categoryId) => update({ categoryId })}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sku">SKU</Label>
+          <Input
+            id="sku"
+            type="text"
+            placeholder="Your own product code"
+            value={values.sku}
+            onChange={(e) => update({ sku: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {attributes.length > 0 && (
+        <div className="space-y-2">
+          <Label>Specifications</Label>
+          <p className="text-sm text-muted-foreground">
+            Shown on the product page, and used to filter the category's listing.
+          </p>
+          <ProductAttributeFields attributes={attributes} form={attributeForm} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Images</Label>
+        <p className="text-sm text-muted-foreground">
+          The cover is shown in listings. Use the arrows to set the order on the product page.
+        </p>
+        <ProductImageManager
+          sellerId={sellerId}
+          images={values.images}
+          onChange={(images) => update({ images })}
+          savedPaths={savedImagePaths}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Variants</Label>
+        <p className="text-sm text-muted-foreground">
+          Sell this product in several options, such as sizes or colours. Each combination
+          gets its own stock, and can have its own SKU, price and image.
+        </p>
+        <VariantEditor
+          axes={values.variantAxes}
+          onAxesChange={(variantAxes) => update({ variantAxes })}
+          drafts={values.variantDrafts}
+          onDraftsChange={(variantDrafts) => update({ variantDrafts })}
+          currency={values.currency}
+        />
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={loading} className="flex-1">
+          {loading ? submittingLabel : submitLabel}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1"
+        >
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious
+} from '@/components/ui/carousel';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { ZoomIn } from 'lucide-react';
+
+interface GalleryImage {
+  url: string;
+  thumbnail_url: string;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  alt: string;
+}
+
+export const ProductGallery: React.FC<ProductGalleryProps> = ({ images, alt }) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [zoomOpen, setZoomOpen] = useState(false);
+  // Where the zoomed image is magnified from, as percentages; null when not magnified
+  const [zoomOrigin, setZoomOrigin] = useState<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  // A newly picked variant puts its own image first
+  const firstUrl = images[0]?.url;
+  useEffect(() => {
+    api?.scrollTo(0);
+  }, [api, firstUrl]);
+
+  const toggleZoom = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (zoomOrigin) {
+      setZoomOrigin(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    setZoomOrigin({
+      x: ((e.clientX - rect.left) / rect.width) * 100,
+      y: ((e.clientY - rect.top) / rect.height) * 100
+    });
+  };
+
+  if (images.length === 0) {
+    return <div className="w-full h-96 rounded-lg bg-muted" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} className="relative">
+        <CarouselContent>
+          {images.map((image, index) => (
+            <CarouselItem key={`${image.url}-${index}`}>
+              <button
+                type="button"
+                className="relative block w-full cursor-zoom-in"
+                onClick={() => setZoomOpen(true)}
+              >
+                <img
+                  src={image.url}
+                  alt={`${alt} ${index + 1}`}
+                  className="w-full h-96 object-cover rounded-lg"
+                />
+                <span className="absolute bottom-2 right-2 rounded-full bg-background/80 p-2">
+                  <ZoomIn className="w-4 h-4" />
+                </span>
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-2" />
+            <CarouselNext className="right-2" />
+          </>
+        )}
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={`${image.thumbnail_url}-${index}`}
+              type="button"
+              className={`shrink-0 rounded-md border-2 overflow-hidden ${
+                index === current ? 'border-primary' : 'border-transparent'
+              }`}
+              onClick={() => api?.scrollTo(index)}
+            >
+              <img
+                src={image.thumbnail_url}
+                alt={`${alt} thumbnail ${index + 1}`}
+                className="w-16 h-16 object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={zoomOpen}
+        onOpenChange={(open) => {
+          setZoomOpen(open);
+          setZoomOrigin(null);
+        }}
+      >
+        <DialogContent className="max-w-5xl p-2">
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <div className="overflow-hidden rounded-md">
+            <img
+              src={images[current]?.url}
+              alt={alt}
+              onClick={toggleZoom}
+              className={`w-full max-h-[85vh] object-contain transition-transform ${
+                zoomOrigin ? 'scale-[2.5] cursor-zoom-out' : 'cursor-zoom-in'
+              }`}
+              style={zoomOrigin ? { transformOrigin: `${zoomOrigin.x}% ${zoomOrigin.y}%` } : undefined}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ChevronLeft, ChevronRight, ImagePlus, Star, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ProductImageDraft, removeProductImageFiles, uploadProductImage } from '@/lib/product-images';
+
+interface ProductImageManagerProps {
+  sellerId: string;
+  // In display order; the seller can pick any of them as the cover
+  images: ProductImageDraft[];
+  onChange: (images: ProductImageDraft[]) => void;
+  // Storage paths of images already saved against the product. Their files
+  // are left for the product's save to remove, in case the edit is abandoned.
+  savedPaths?: string[];
+}
+
+export const ProductImageManager: React.FC<ProductImageManagerProps> = ({
+  sellerId,
+  images,
+  onChange,
+  savedPaths = []
+}) => {
+  const [uploading, setUploading] = useState(0);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const selected = Array.from(files);
+    setUploading(selected.length);
+    const results = await Promise.allSettled(selected.map(file => uploadProductImage(sellerId, file)));
+    setUploading(0);
+
+    const uploaded = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failed = results.length - uploaded.length;
+    results.forEach(result => {
+      if (result.status === 'rejected') console.error('Error uploading image:', result.reason);
+    });
+
+    onChange([
+      ...images,
+      ...uploaded.map((upload, index) => ({
+        ...upload,
+        // The first image of a product becomes its cover
+        is_cover: images.length === 0 && index === 0
+      }))
+    ]);
+
+    if (failed > 0) {
+      toast({
+        title: "Error",
+        description: `${failed} image${failed !== 1 ? 's' : ''} could not be uploaded. Please try again.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const move = (index: number, offset: number) => {
+    const reordered = [...images];
+    const [image] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, image);
+    onChange(reordered);
+  };
+
+  const setCover = (index: number) => {
+    onChange(images.map((image, i) => ({ ...image, is_cover: i === index })));
+  };
+
+  const remove = async (index: number) => {
+    const image = images[index];
+    const remaining = images.filter((_, i) => i !== index);
+    if (image.is_cover && remaining.length > 0) {
+      remaining[0] = { ...remaining[0], is_cover: true };
+    }
+    onChange(remaining);
+
+    if (savedPaths.includes(image.storage_path)) return;
+
+    try {
+      await removeProductImageFiles([image]);
+    } catch (error) {
+      // The image is already off the product; a leftover file does no harm
+      console.error('Error removing image files:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {images.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {images.map((image, index) => (
+            <div key={image.storage_path} className="relative border rounded-md overflow-hidden">
+              <img
+                src={image.thumbnail_url}
+                alt={`Product image ${index + 1}`}
+                className="w-full aspect-square object-cover"
+              />
+              {image.is_cover && (
+                <Badge className="absolute top-1 left-1">Cover</Badge>
+              )}
+              <div className="flex justify-between bg-background/90 p-1">
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  aria-label="Move left"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  aria-label="Use as cover"
+                  disabled={image.is_cover}
+                  onClick={() => setCover(index)}
+                >
+                  <Star className={`w-4 h-4 ${image.is_cover ? 'fill-current text-yellow-400' : ''}`} />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  aria-label="Remove"
+                  onClick={() => remove(index)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  aria-label="Move right"
+                  disabled={index === images.length - 1}
+                  onClick={() => move(index, 1)}
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/jpeg,image/png,image/webp"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        disabled={uploading > 0}
+        onClick={() => fileInput.current?.click()}
+      >
+        <ImagePlus className="w-4 h-4 mr-2" />
+        {uploading > 0 ? `Uploading ${uploading} image${uploading !== 1 ? 's' : ''}...` : 'Upload Images'}
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Plus, Tag, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { DiscountType, Promotion, describePromotion, normalizePromotionCode } from '@/lib/promotions';
+import { BASE_CURRENCY, formatMoney, toMinorUnits } from '@/lib/money';
+
+// datetime-local inputs give local time without a zone
+const toTimestamp = (value: string) => value ? new Date(value).toISOString() : null;
+
+const describeSchedule = (promotion: Promotion) => {
+  const format = (value: string) => new Date(value).toLocaleDateString();
+  if (promotion.starts_at && promotion.ends_at) {
+    return `${format(promotion.starts_at)} – ${format(promotion.ends_at)}`;
+  }
+  if (promotion.starts_at) return `From ${format(promotion.starts_at)}`;
+  if (promotion.ends_at) return `Until ${format(promotion.ends_at)}`;
+  return null;
+};
+
+export const PromotionManagement: React.FC = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [code, setCode] = useState('');
+  const [description, setDescription] = useState('');
+  const [discountType, setDiscountType] = useState<DiscountType>('percentage');
+  const [discountValue, setDiscountValue] = useState('10');
+  const [minOrderAmount, setMinOrderAmount] = useState('0');
+  const [maxUses, setMaxUses] = useState('');
+  const [maxUsesPerUser, setMaxUsesPerUser] = useState('1');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (user) {
+      loadPromotions();
+    }
+  }, [user]);
+
+  const loadPromotions = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('seller_id', user?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPromotions(data || []);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addPromotion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const normalizedCode = normalizePromotionCode(code);
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .insert({
+          seller_id: user.id,
+          code: normalizedCode,
+          description: description.trim() || null,
+          discount_type: discountType,
+          // A percent, or an amount in minor units for fixed discounts
+          discount_value: discountType === 'percentage'
+            ? parseFloat(discountValue)
+            : toMinorUnits(discountValue),
+          min_order_amount: toMinorUnits(minOrderAmount),
+          max_uses: parseInt(maxUses) || null,
+          max_uses_per_user: parseInt(maxUsesPerUser) || null,
+          starts_at: toTimestamp(startsAt),
+          ends_at: toTimestamp(endsAt)
+        });
+
+      if (error) {
+        // Codes are unique across all sellers
+        if (error.code === '23505') {
+          toast({
+            title: "Error",
+            description: `The code ${normalizedCode} is already taken. Please choose another.`,
+            variant: "destructive"
+          });
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Discount code added",
+        description: `Buyers can now use ${normalizedCode} on your products.`
+      });
+      setCode('');
+      setDescription('');
+      setMinOrderAmount('0');
+      setMaxUses('');
+      setStartsAt('');
+      setEndsAt('');
+      await loadPromotions();
+    } catch (error) {
+      console.error('Error adding promotion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add discount code. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (promotion: Promotion, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .update({ active })
+        .eq('id', promotion.id);
+
+      if (error) throw error;
+
+      setPromotions(promotions.map(p => p.id === promotion.id ? { ...p, active } : p));
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update discount code. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removePromotion = async (promotion: Promotion) => {
+    try {
+      const { error } = await supabase
+        .from('promotions')
+        .delete()
+        .eq('id', promotion.id);
+
+      if (error) throw error;
+
+      setPromotions(promotions.filter(p => p.id !== promotion.id));
+    } catch (error) {
+      console.error('Error removing promotion:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove discount code. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Plus className="w-5 h-5 mr-2" />
+            Add Discount Code
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={addPromotion} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotionCode">Code</Label>
+              <Input
+                id="promotionCode"
+                placeholder="e.g. SUMMER10"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promotionDescription">Description (optional)</Label>
+              <Input
+                id="promotionDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <RadioGroup
+              value={discountType}
+              onValueChange={(value) => setDiscountType(value as DiscountType)}
+              className="flex gap-6"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="percentage" id="promotionPercentage" />
+                <Label htmlFor="promotionPercentage" className="cursor-pointer">Percentage off</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="fixed" id="promotionFixed" />
+                <Label htmlFor="promotionFixed" className="cursor-pointer">Fixed amount off</Label>
+              </div>
+            </RadioGroup>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promotionValue">
+                  {discountType === 'percentage' ? 'Discount (%)' : `Discount (${BASE_CURRENCY})`}
+                </Label>
+                <Input
+                  id="promotionValue"
+                  type="number"
+                  min="0.01"
+                  max={discountType === 'percentage' ? '100' : undefined}
+                  step="0.01"
+                  value={discountValue}
+                  onChange={(e) => setDiscountValue(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotionMinOrder">Minimum Spend ({BASE_CURRENCY})</Label>
+                <Input
+                  id="promotionMinOrder"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={minOrderAmount}
+                  onChange={(e) => setMinOrderAmount(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotionMaxUses">Total Uses</Label>
+                <Input
+                  id="promotionMaxUses"
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={maxUses}
+                  onChange={(e) => setMaxUses(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotionMaxUsesPerUser">Uses per Buyer</Label>
+                <Input
+                  id="promotionMaxUsesPerUser"
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={maxUsesPerUser}
+                  onChange={(e) => setMaxUsesPerUser(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotionStartsAt">Starts</Label>
+                <Input
+                  id="promotionStartsAt"
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promotionEndsAt">Ends</Label>
+                <Input
+                  id="promotionEndsAt"
+                  type="datetime-local"
+                  min={startsAt || undefined}
+                  value={endsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Your codes only discount your own products, and the minimum spend counts only those.
+            </p>
+            <Button type="submit" disabled={saving || !code.trim()} className="w-full">
+              {saving ? 'Adding...' : 'Add Discount Code'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Tag className="w-5 h-5 mr-2" />
+            Your Discount Codes
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p>Loading discount codes...</p>
+          ) : promotions.length === 0 ? (
+            <p className="text-muted-foreground">No discount codes yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {promotions.map((promotion) => {
+                const schedule = describeSchedule(promotion);
+                return (
+                  <div key={promotion.id} className="flex items-center justify-between p-3 border rounded">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-semibold font-mono">{promotion.code}</h4>
+                        <Badge variant="outline">{describePromotion(promotion)}</Badge>
+                      </div>
+                      {promotion.description && (
+                        <p className="text-sm">{promotion.description}</p>
+                      )}
+                      <p className="text-sm text-muted-foreground">
+                        {promotion.min_order_amount > 0
+                          ? `${formatMoney(promotion.min_order_amount)} minimum`
+                          : 'No minimum'}
+                        {promotion.max_uses ? ` · ${promotion.max_uses} uses` : ''}
+                        {promotion.max_uses_per_user ? ` · ${promotion.max_uses_per_user} per buyer` : ''}
+                        {schedule ? ` · ${schedule}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id={`promotion-active-${promotion.id}`}
+                          checked={promotion.active}
+                          onCheckedChange={(checked) => setActive(promotion, checked)}
+                        />
+                        <Label htmlFor={`promotion-active-${promotion.id}`} className="text-sm">Active</Label>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => removePromotion(promotion)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
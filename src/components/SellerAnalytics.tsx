@@ -4,6 +4,7 @@ import { Badge } from '@/components/ui/badge';
 import { TrendingUp, TrendingDown, Package, DollarSign, ShoppingBag, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import {
   LineChart,
   Line,
@@ -19,16 +20,17 @@ import {
   Cell,
   Legend
 } from 'recharts';
+import { MinorUnits } from '@/lib/money';
 
 interface AnalyticsData {
-  totalRevenue: number;
+  totalRevenue: MinorUnits;
   totalOrders: number;
   totalProducts: number;
-  avgOrderValue: number;
+  avgOrderValue: MinorUnits;
   revenueGrowth: number;
   orderGrowth: number;
-  revenueByDay: Array<{ date: string; revenue: number; orders: number }>;
-  productPerformance: Array<{ name: string; revenue: number; orders: number; stock: number }>;
+  revenueByDay: Array<{ date: string; revenue: MinorUnits; orders: number }>;
+  productPerformance: Array<{ name: string; revenue: MinorUnits; orders: number; stock: number }>;
   categoryDistribution: Array<{ name: string; value: number; count: number }>;
 }
 
@@ -39,6 +41,7 @@ const SellerAnalytics: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
   const { user } = useAuth();
+  const { formatPrice } = useCurrency();
 
   useEffect(() => {
     if (user) {
@@ -259,7 +262,7 @@ const SellerAnalytics: React.FC = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${analytics.totalRevenue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatPrice(analytics.totalRevenue)}</div>
             <div className="flex items-center text-xs text-muted-foreground">
               {analytics.revenueGrowth >= 0 ? (
                 <TrendingUp className="h-3 w-3 mr-1 text-green-500" />
@@ -295,7 +298,7 @@ const SellerAnalytics: React.FC = () => {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">${analytics.avgOrderValue.toFixed(2)}</div>
+            <div className="text-2xl font-bold">{formatPrice(analytics.avgOrderValue)}</div>
             <p className="text-xs text-muted-foreground">Per order average</p>
           </CardContent>
         </Card>
@@ -326,7 +329,7 @@ const SellerAnalytics: React.FC = () => {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="date" />
                   <YAxis />
-                  <Tooltip formatter={(value) => [`$${Number(value).toFixed(2)}`, 'Revenue']} />
+                  <Tooltip formatter={(value) => [formatPrice(Number(value)), 'Revenue']} />
                   <Line 
                     type="monotone" 
                     dataKey="revenue" 
@@ -364,7 +367,7 @@ const SellerAnalytics: React.FC = () => {
                       <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                     ))}
                   </Pie>
-                  <Tooltip formatter={(value) => [`$${Number(value).toFixed(2)}`, 'Revenue']} />
+                  <Tooltip formatter={(value) => [formatPrice(Number(value)), 'Revenue']} />
                   <Legend />
                 </PieChart>
               </ResponsiveContainer>
@@ -420,7 +423,7 @@ const SellerAnalytics: React.FC = () => {
                     height={80}
                   />
                   <YAxis />
-                  <Tooltip formatter={(value) => [`$${Number(value).toFixed(2)}`, 'Revenue']} />
+                  <Tooltip formatter={(value) => [formatPrice(Number(value)), 'Revenue']} />
                   <Bar dataKey="revenue" fill="hsl(var(--primary))" />
                 </BarChart>
               </ResponsiveContainer>
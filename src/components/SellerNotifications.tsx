@@ -2,17 +2,31 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Bell, Check, Truck, Calendar } from 'lucide-react';
+import { Bell, Check, Calendar, PackageCheck } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { getStatusColor, getStatusLabel } from '@/lib/order-status';
+import { AssignDriverDialog } from '@/components/AssignDriverDialog';
 
 interface Notification {
   id: string;
   order_id: string;
+  fulfillment_id: string | null;
   message: string;
   read: boolean;
   created_at: string;
+  order: {
+    payment_method: string;
+  } | null;
+  fulfillment: {
+    status: string;
+    driver_assigned: boolean;
+    estimated_delivery: string | null;
+    driver: {
+      name: string;
+    } | null;
+  } | null;
 }
 
 export const SellerNotifications: React.FC = () => {
@@ -31,7 +45,20 @@ export const SellerNotifications: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('seller_notifications')
-        .select('*')
+        .select(`
+          *,
+          order:orders (
+            payment_method
+          ),
+          fulfillment:order_fulfillments (
+            status,
+            driver_assigned,
+            estimated_delivery,
+            driver:drivers (
+              name
+            )
+          )
+        `)
         .eq('seller_id', user?.id)
         .order('created_at', { ascending: false });
 
@@ -61,33 +88,23 @@ export const SellerNotifications: React.FC = () => {
     }
   };
 
-  const assignDriver = async (orderId: string) => {
+  const confirmOrder = async (orderId: string) => {
     try {
-      const driverNotes = `Driver assigned by seller on ${new Date().toLocaleString()}`;
-      const estimatedDelivery = new Date();
-      estimatedDelivery.setHours(estimatedDelivery.getHours() + 2); // 2 hours from now
-
-      const { error } = await supabase
-        .from('orders')
-        .update({ 
-          driver_assigned: true,
-          driver_notes: driverNotes,
-          estimated_delivery: estimatedDelivery.toISOString(),
-          status: 'driver_assigned'
-        })
-        .eq('id', orderId);
+      // The order is confirmed, and its items taken out of stock, once every seller has confirmed
+      const { error } = await supabase.rpc('confirm_cash_order', { p_order_id: orderId });
 
       if (error) throw error;
 
       toast({
-        title: "Driver Assigned",
-        description: "Driver has been assigned to this order. Estimated delivery in 2 hours."
+        title: "Order Confirmed",
+        description: "Your part of the order has been confirmed."
       });
+      await loadNotifications();
     } catch (error) {
-      console.error('Error assigning driver:', error);
+      console.error('Error confirming order:', error);
       toast({
         title: "Error",
-        description: "Failed to assign driver. Please try again.",
+        description: "Failed to confirm order. Please try again.",
         variant: "destructive"
       });
     }
@@ -145,6 +162,18 @@ export const SellerNotifications: React.FC = () => {
                       <Calendar className="w-3 h-3 mr-1" />
                       {new Date(notification.created_at).toLocaleString()}
                     </div>
+                    {notification.fulfillment && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground mt-2">
+                        <Badge className={getStatusColor(notification.fulfillment.status)}>
+                          {getStatusLabel(notification.fulfillment.status)}
+                        </Badge>
+                        {notification.fulfillment.driver_assigned && notification.fulfillment.estimated_delivery && (
+                          <span>
+                            {notification.fulfillment.driver?.name ?? 'Driver'} assigned, ETA {new Date(notification.fulfillment.estimated_delivery).toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-2 ml-4">
                     {!notification.read && (
@@ -157,13 +186,22 @@ export const SellerNotifications: React.FC = () => {
                         Mark Read
                       </Button>
                     )}
-                    <Button
-                      size="sm"
-                      onClick={() => assignDriver(notification.order_id)}
-                    >
-                      <Truck className="w-3 h-3 mr-1" />
-                      Assign Driver
-                    </Button>
+                    {notification.order?.payment_method === 'cash' && notification.fulfillment?.status === 'pending' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => confirmOrder(notification.order_id)}
+                      >
+                        <PackageCheck className="w-3 h-3 mr-1" />
+                        Confirm Order
+                      </Button>
+                    )}
+                    {notification.fulfillment_id && (notification.fulfillment?.status === 'paid' || notification.fulfillment?.status === 'confirmed') && (
+                      <AssignDriverDialog
+                        fulfillmentId={notification.fulfillment_id}
+                        onAssigned={loadNotifications}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
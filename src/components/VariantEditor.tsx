@@ -0,0 +1,153 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  VariantAxisDraft,
+  VariantDraft,
+  buildVariantMatrix,
+  describeVariant,
+  emptyVariantDraft,
+  toVariantOptions
+} from '@/lib/variants';
+
+// Enough for size, colour and one more
+const MAX_AXES = 3;
+
+interface VariantEditorProps {
+  axes: VariantAxisDraft[];
+  onAxesChange: (axes: VariantAxisDraft[]) => void;
+  // Keyed by variant name, so rows keep what was typed when an axis changes
+  drafts: Record<string, VariantDraft>;
+  onDraftsChange: (drafts: Record<string, VariantDraft>) => void;
+  currency: string;
+}
+
+export const VariantEditor: React.FC<VariantEditorProps> = ({
+  axes,
+  onAxesChange,
+  drafts,
+  onDraftsChange,
+  currency
+}) => {
+  const options = toVariantOptions(axes);
+  const combinations = options.length > 0 ? buildVariantMatrix(options) : [];
+
+  const updateAxis = (index: number, axis: VariantAxisDraft) => {
+    onAxesChange(axes.map((a, i) => i === index ? axis : a));
+  };
+
+  const updateDraft = (name: string, changes: Partial<VariantDraft>) => {
+    onDraftsChange({ ...drafts, [name]: { ...(drafts[name] ?? emptyVariantDraft), ...changes } });
+  };
+
+  return (
+    <div className="space-y-4">
+      {axes.map((axis, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <div className="space-y-2 w-1/3">
+            <Label htmlFor={`variantAxis-${index}`}>Option</Label>
+            <Input
+              id={`variantAxis-${index}`}
+              placeholder="e.g. Size"
+              value={axis.name}
+              onChange={(e) => updateAxis(index, { ...axis, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor={`variantValues-${index}`}>Values (comma separated)</Label>
+            <Input
+              id={`variantValues-${index}`}
+              placeholder="e.g. S, M, L"
+              value={axis.values}
+              onChange={(e) => updateAxis(index, { ...axis, values: e.target.value })}
+            />
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            onClick={() => onAxesChange(axes.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      {axes.length < MAX_AXES && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onAxesChange([...axes, { name: '', values: '' }])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Option
+        </Button>
+      )}
+
+      {combinations.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Price ({currency})</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Image URL</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {combinations.map((selection) => {
+              const name = describeVariant(options, selection);
+              const draft = drafts[name] ?? emptyVariantDraft;
+              return (
+                <TableRow key={name}>
+                  <TableCell className="font-medium whitespace-nowrap">{name}</TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label={`${name} SKU`}
+                      value={draft.sku}
+                      onChange={(e) => updateDraft(name, { sku: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label={`${name} price`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Same"
+                      value={draft.price}
+                      onChange={(e) => updateDraft(name, { price: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label={`${name} stock`}
+                      type="number"
+                      min="0"
+                      value={draft.stock}
+                      onChange={(e) => updateDraft(name, { stock: e.target.value })}
+                      required
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label={`${name} image URL`}
+                      type="url"
+                      value={draft.imageUrl}
+                      onChange={(e) => updateDraft(name, { imageUrl: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
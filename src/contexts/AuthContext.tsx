@@ -2,13 +2,22 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import {
+  GUEST_CART_MERGED_EVENT,
+  GuestCartConflict,
+  clearGuestCart,
+  describeGuestCartConflict,
+  getGuestCart
+} from '@/lib/guest-cart';
+
+export type UserRole = 'seller' | 'buyer' | 'driver';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
-  userRole: 'seller' | 'buyer' | null;
-  signUp: (email: string, password: string, fullName: string, role: 'seller' | 'buyer') => Promise<{ error: any }>;
+  userRole: UserRole | null;
+  signUp: (email: string, password: string, fullName: string, role: UserRole) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
 }
@@ -27,7 +36,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
-  const [userRole, setUserRole] = useState<'seller' | 'buyer' | null>(null);
+  const [userRole, setUserRole] = useState<UserRole | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -47,6 +56,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
               .eq('user_id', session.user.id)
               .single();
 
+            const role = existingProfile?.role ?? session.user.user_metadata?.role ?? 'buyer';
+
             if (existingProfile) {
               setUserRole(existingProfile.role);
             } else {
@@ -66,6 +77,38 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                 setUserRole(session.user.user_metadata?.role || 'buyer');
               }
             }
+
+            // Pick up any driver records sellers have registered for this email
+            if (role === 'driver') {
+              const { error: linkError } = await supabase.rpc('link_driver_account');
+              if (linkError) {
+                console.error('Error linking driver account:', linkError);
+              }
+            }
+
+            // Move anything added to the cart while signed out into the saved cart
+            const guestCart = getGuestCart();
+            if (guestCart.length > 0) {
+              const { data: conflicts, error: mergeError } = await supabase.rpc('merge_guest_cart', {
+                p_items: guestCart.map(({ product_id, variant_id, quantity }) => ({ product_id, variant_id, quantity }))
+              });
+
+              if (mergeError) {
+                console.error('Error merging guest cart:', mergeError);
+              } else {
+                clearGuestCart();
+                window.dispatchEvent(new Event(GUEST_CART_MERGED_EVENT));
+
+                const merged = (conflicts ?? []) as unknown as GuestCartConflict[];
+                if (merged.length > 0) {
+                  toast({
+                    title: "Some cart items were adjusted",
+                    description: merged.map(describeGuestCartConflict).join('. '),
+                    variant: "destructive"
+                  });
+                }
+              }
+            }
           }, 0);
         } else if (event === 'SIGNED_OUT') {
           setUserRole(null);
@@ -85,7 +128,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'seller' | 'buyer') => {
+  const signUp = async (email: string, password: string, fullName: string, role: UserRole) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
@@ -1,31 +1,77 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import {
+  GUEST_CART_KEY,
+  GUEST_CART_MERGED_EVENT,
+  GuestCartLine,
+  clearGuestCart,
+  getGuestCart,
+  saveGuestCart
+} from '@/lib/guest-cart';
+import { MinorUnits } from '@/lib/money';
+import { getVariantPrice } from '@/lib/variants';
+
+interface CartProduct {
+  id: string;
+  name: string;
+  price: MinorUnits;
+  image_url: string;
+}
+
+interface CartVariant {
+  id: string;
+  name: string;
+  // NULL sells at the product's price
+  price: MinorUnits | null;
+  image_url: string | null;
+}
 
 interface CartItem {
   id: string;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
-  product: {
-    id: string;
-    name: string;
-    price: number;
-    image_url: string;
-  };
+  product: CartProduct;
+  variant: CartVariant | null;
 }
 
 interface CartContextType {
   cartItems: CartItem[];
   cartCount: number;
-  cartTotal: number;
-  addToCart: (productId: string) => Promise<void>;
-  removeFromCart: (productId: string) => Promise<void>;
-  updateQuantity: (productId: string, quantity: number) => Promise<void>;
+  cartTotal: MinorUnits;
+  // Passing the product lets a new line show before the write is confirmed
+  addToCart: (productId: string, product?: CartProduct, variant?: CartVariant) => Promise<void>;
+  removeFromCart: (productId: string, variantId?: string | null) => Promise<void>;
+  updateQuantity: (productId: string, quantity: number, variantId?: string | null) => Promise<void>;
   clearCart: () => Promise<void>;
   loadCart: () => Promise<void>;
 }
 
+interface QuantityWrite {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+  // The line as it was before the batch started, restored if the write fails
+  previous: CartItem | undefined;
+}
+
+interface PendingWrite {
+  timer: ReturnType<typeof setTimeout>;
+  previous: CartItem | undefined;
+}
+
+// Changes to one line within this window are sent as a single write
+const BATCH_DELAY_MS = 400;
+
+// A product is in the cart once per variant
+const lineKey = (productId: string, variantId: string | null) => `${productId}:${variantId ?? ''}`;
+
+const isLine = (item: CartItem, productId: string, variantId: string | null) =>
+  item.product_id === productId && item.variant_id === variantId;
+
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 export const useCart = () => {
@@ -36,141 +82,292 @@ export const useCart = () => {
   return context;
 };
 
-export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const { user } = useAuth();
-  const { toast } = useToast();
+// Guest lines only hold ids, so look the products and variants up. The line
+// key stands in for the cart item id.
+const fetchGuestCart = async (): Promise<CartItem[]> => {
+  const lines = getGuestCart();
+  if (lines.length === 0) return [];
 
-  const loadCart = async () => {
-    if (!user) {
-      setCartItems([]);
-      return;
-    }
+  const variantIds = lines.flatMap(line => line.variant_id ? [line.variant_id] : []);
+  const [products, variants] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, price, image_url')
+      .in('id', lines.map(line => line.product_id)),
+    supabase
+      .from('product_variants')
+      .select('id, name, price, image_url')
+      .in('id', variantIds)
+  ]);
 
-    const { data, error } = await supabase
-      .from('cart_items')
-      .select(`
+  if (products.error) throw products.error;
+  if (variants.error) throw variants.error;
+
+  return lines.flatMap(line => {
+    const variantId = line.variant_id ?? null;
+    const product = products.data?.find(p => p.id === line.product_id);
+    const variant = variants.data?.find(v => v.id === variantId) ?? null;
+    return product && (variant || !variantId)
+      ? [{
+          id: lineKey(line.product_id, variantId),
+          product_id: line.product_id,
+          variant_id: variantId,
+          quantity: line.quantity,
+          product,
+          variant
+        }]
+      : [];
+  });
+};
+
+const fetchCart = async (userId: string | undefined): Promise<CartItem[]> => {
+  if (!userId) return fetchGuestCart();
+
+  const { data, error } = await supabase
+    .from('cart_items')
+    .select(`
+      id,
+      product_id,
+      variant_id,
+      quantity,
+      product:products (
+        id,
+        name,
+        price,
+        image_url
+      ),
+      variant:product_variants (
         id,
-        product_id,
+        name,
+        price,
+        image_url
+      )
+    `)
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+const withQuantity = (
+  items: CartItem[],
+  productId: string,
+  variantId: string | null,
+  quantity: number,
+  product?: CartProduct,
+  variant?: CartVariant | null
+): CartItem[] => {
+  if (quantity <= 0) {
+    return items.filter(item => !isLine(item, productId, variantId));
+  }
+
+  if (items.some(item => isLine(item, productId, variantId))) {
+    return items.map(item => isLine(item, productId, variantId) ? { ...item, quantity } : item);
+  }
+
+  return product
+    ? [...items, {
+        id: lineKey(productId, variantId),
+        product_id: productId,
+        variant_id: variantId,
         quantity,
-        product:products (
-          id,
-          name,
-          price,
-          image_url
-        )
-      `)
-      .eq('user_id', user.id);
+        product,
+        variant: variant ?? null
+      }]
+    : items;
+};
 
-    if (error) {
-      console.error('Error loading cart:', error);
-    } else {
-      setCartItems(data || []);
+const saveGuestQuantity = (productId: string, variantId: string | null, quantity: number) => {
+  const lines = getGuestCart();
+  const isGuestLine = (line: GuestCartLine) =>
+    line.product_id === productId && (line.variant_id ?? null) === variantId;
+  saveGuestCart(lines.some(isGuestLine)
+    ? lines.map(line => isGuestLine(line) ? { ...line, quantity } : line)
+    : [...lines, { product_id: productId, variant_id: variantId, quantity }]);
+};
+
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const userId = user?.id;
+  const queryKey = ['cart', userId ?? 'guest'];
+  const pendingWrites = useRef(new Map<string, PendingWrite>());
+
+  const { data: cartItems = [], refetch } = useQuery({
+    queryKey,
+    queryFn: () => fetchCart(userId)
+  });
+
+  // A refetch while writes are still queued would briefly undo them, so
+  // wait for the last one to settle
+  const refreshCart = () => {
+    if (pendingWrites.current.size === 0) {
+      queryClient.invalidateQueries({ queryKey });
     }
   };
 
-  const addToCart = async (productId: string) => {
-    if (!user) {
+  const writeQuantity = useMutation({
+    mutationFn: async ({ productId, variantId, quantity }: QuantityWrite) => {
+      if (!userId) {
+        saveGuestQuantity(productId, variantId, quantity);
+        return;
+      }
+
+      const { error } = quantity > 0
+        ? await supabase
+            .from('cart_items')
+            .upsert(
+              { user_id: userId, product_id: productId, variant_id: variantId, quantity },
+              { onConflict: 'user_id,product_id,variant_id' }
+            )
+        : variantId
+          ? await supabase
+              .from('cart_items')
+              .delete()
+              .eq('user_id', userId)
+              .eq('product_id', productId)
+              .eq('variant_id', variantId)
+          : await supabase
+              .from('cart_items')
+              .delete()
+              .eq('user_id', userId)
+              .eq('product_id', productId)
+              .is('variant_id', null);
+
+      if (error) throw error;
+    },
+    onError: (error, { productId, variantId, previous }) => {
+      console.error('Error updating cart:', error);
+      queryClient.setQueryData<CartItem[]>(queryKey, (items = []) =>
+        withQuantity(items, productId, variantId, previous?.quantity ?? 0, previous?.product, previous?.variant)
+      );
       toast({
-        title: "Please log in",
-        description: "You need to be logged in to add items to cart",
+        title: "Error",
+        description: "Failed to update your cart. Please try again.",
         variant: "destructive"
       });
-      return;
-    }
+    },
+    onSettled: refreshCart
+  });
 
-    const existingItem = cartItems.find(item => item.product_id === productId);
-
-    if (existingItem) {
-      await updateQuantity(productId, existingItem.quantity + 1);
-    } else {
-      const { error } = await supabase
-        .from('cart_items')
-        .insert({
-          user_id: user.id,
-          product_id: productId,
-          quantity: 1
-        });
-
-      if (error) {
-        console.error('Error adding to cart:', error);
-        toast({
-          title: "Error",
-          description: "Failed to add item to cart",
-          variant: "destructive"
-        });
-      } else {
-        await loadCart();
-        toast({
-          title: "Added to cart",
-          description: "Item added to your cart successfully"
-        });
-      }
-    }
-  };
+  // Show the change straight away, then write the final quantity once the
+  // line has gone BATCH_DELAY_MS without another change
+  const setQuantity = (
+    productId: string,
+    variantId: string | null,
+    quantity: number,
+    product?: CartProduct,
+    variant?: CartVariant
+  ) => {
+    queryClient.cancelQueries({ queryKey });
 
-  const removeFromCart = async (productId: string) => {
-    if (!user) return;
+    const key = lineKey(productId, variantId);
+    const items = queryClient.getQueryData<CartItem[]>(queryKey) ?? [];
+    const pending = pendingWrites.current.get(key);
+    const previous = pending ? pending.previous : items.find(item => isLine(item, productId, variantId));
 
-    const { error } = await supabase
-      .from('cart_items')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('product_id', productId);
+    queryClient.setQueryData<CartItem[]>(
+      queryKey,
+      withQuantity(items, productId, variantId, quantity, product, variant)
+    );
 
-    if (error) {
-      console.error('Error removing from cart:', error);
-    } else {
-      await loadCart();
-      toast({
-        title: "Removed from cart",
-        description: "Item removed from your cart"
-      });
-    }
+    if (pending) clearTimeout(pending.timer);
+    const timer = setTimeout(() => {
+      pendingWrites.current.delete(key);
+      writeQuantity.mutate({ productId, variantId, quantity, previous });
+    }, BATCH_DELAY_MS);
+    pendingWrites.current.set(key, { timer, previous });
   };
 
-  const updateQuantity = async (productId: string, quantity: number) => {
-    if (!user) return;
-
-    if (quantity <= 0) {
-      await removeFromCart(productId);
-      return;
-    }
+  const addToCart = async (productId: string, product?: CartProduct, variant?: CartVariant) => {
+    const variantId = variant?.id ?? null;
+    const items = queryClient.getQueryData<CartItem[]>(queryKey) ?? [];
+    const existingItem = items.find(item => isLine(item, productId, variantId));
+    setQuantity(productId, variantId, (existingItem?.quantity ?? 0) + 1, product, variant);
+    toast({
+      title: "Added to cart",
+      description: "Item added to your cart successfully"
+    });
+  };
 
-    const { error } = await supabase
-      .from('cart_items')
-      .update({ quantity })
-      .eq('user_id', user.id)
-      .eq('product_id', productId);
+  const removeFromCart = async (productId: string, variantId: string | null = null) => {
+    setQuantity(productId, variantId, 0);
+    toast({
+      title: "Removed from cart",
+      description: "Item removed from your cart"
+    });
+  };
 
-    if (error) {
-      console.error('Error updating quantity:', error);
-    } else {
-      await loadCart();
-    }
+  const updateQuantity = async (productId: string, quantity: number, variantId: string | null = null) => {
+    setQuantity(productId, variantId, quantity);
   };
 
   const clearCart = async () => {
-    if (!user) return;
+    pendingWrites.current.forEach(({ timer }) => clearTimeout(timer));
+    pendingWrites.current.clear();
+    queryClient.setQueryData<CartItem[]>(queryKey, []);
+
+    if (!userId) {
+      clearGuestCart();
+      return;
+    }
 
     const { error } = await supabase
       .from('cart_items')
       .delete()
-      .eq('user_id', user.id);
+      .eq('user_id', userId);
 
     if (error) {
       console.error('Error clearing cart:', error);
-    } else {
-      setCartItems([]);
+      refreshCart();
     }
   };
 
+  const loadCart = async () => {
+    await refetch();
+  };
+
+  // Keep every open tab and device on the same cart
   useEffect(() => {
-    loadCart();
-  }, [user]);
+    // AuthContext merges a guest cart shortly after sign-in
+    window.addEventListener(GUEST_CART_MERGED_EVENT, refreshCart);
+
+    if (!userId) {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key === GUEST_CART_KEY) refreshCart();
+      };
+      window.addEventListener('storage', handleStorage);
+
+      return () => {
+        window.removeEventListener(GUEST_CART_MERGED_EVENT, refreshCart);
+        window.removeEventListener('storage', handleStorage);
+      };
+    }
+
+    const channel = supabase
+      .channel(`cart-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'cart_items',
+          filter: `user_id=eq.${userId}`
+        },
+        refreshCart
+      )
+      .subscribe();
+
+    return () => {
+      window.removeEventListener(GUEST_CART_MERGED_EVENT, refreshCart);
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
 
   const cartCount = cartItems.reduce((total, item) => total + item.quantity, 0);
-  const cartTotal = cartItems.reduce((total, item) => total + (item.product.price * item.quantity), 0);
+  const cartTotal = cartItems.reduce((total, item) => total + (getVariantPrice(item.product, item.variant) * item.quantity), 0);
 
   const value = {
     cartItems,
@@ -188,4 +385,4 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       {children}
     </CartContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,75 @@
+import React, { createContext, useContext, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { BASE_CURRENCY, MinorUnits, convertFromBase, formatMoney } from '@/lib/money';
+
+const DISPLAY_CURRENCY_KEY = 'display_currency';
+
+interface CurrencyContextType {
+  currencies: string[];
+  displayCurrency: string;
+  // Units of the display currency per 1 USD
+  rate: number;
+  setDisplayCurrency: (currency: string) => void;
+  // Formats a base-currency amount in the display currency
+  formatPrice: (amount: MinorUnits) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
+
+const fetchRates = async () => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('currency, rate')
+    .order('currency');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const CurrencyProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [selectedCurrency, setSelectedCurrency] = useState(
+    () => localStorage.getItem(DISPLAY_CURRENCY_KEY) || BASE_CURRENCY
+  );
+
+  const { data: rates = [] } = useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: fetchRates,
+    staleTime: 60 * 60 * 1000
+  });
+
+  // Show base prices until the rates load, or if the saved choice is gone
+  const selectedRate = rates.find(r => r.currency === selectedCurrency);
+  const displayCurrency = selectedRate ? selectedRate.currency : BASE_CURRENCY;
+  const rate = selectedRate ? selectedRate.rate : 1;
+
+  const setDisplayCurrency = (currency: string) => {
+    localStorage.setItem(DISPLAY_CURRENCY_KEY, currency);
+    setSelectedCurrency(currency);
+  };
+
+  const formatPrice = (amount: MinorUnits) =>
+    formatMoney(convertFromBase(amount, rate), displayCurrency);
+
+  const value = {
+    currencies: rates.length > 0 ? rates.map(r => r.currency) : [BASE_CURRENCY],
+    displayCurrency,
+    rate,
+    setDisplayCurrency,
+    formatPrice
+  };
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+const fetchCategories = async () => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The whole category tree; it's small and rarely changes
+export function useCategories() {
+  const { data: categories = [], isPending } = useQuery({
+    queryKey: ['categories'],
+    queryFn: fetchCategories,
+    staleTime: 60 * 60 * 1000
+  });
+
+  return { categories, loading: isPending };
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CategoryAttribute } from '@/lib/attributes';
+
+const NO_ATTRIBUTES: CategoryAttribute[] = [];
+
+const fetchCategoryAttributes = async (categoryId: string) => {
+  const { data, error } = await supabase.rpc('category_attribute_schema', { p_category_id: categoryId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The attributes products in a category have, including those of the
+// categories it's nested under. None for products without a category.
+export function useCategoryAttributes(categoryId: string | null) {
+  const { data: attributes = NO_ATTRIBUTES, isLoading } = useQuery({
+    queryKey: ['category-attributes', categoryId],
+    queryFn: () => fetchCategoryAttributes(categoryId as string),
+    enabled: categoryId !== null,
+    staleTime: 60 * 60 * 1000
+  });
+
+  return { attributes, loading: isLoading };
+}
@@ -0,0 +1,56 @@
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ListingFilters, parseListingFacets, toListingArgs } from '@/lib/listing-filters';
+
+export const LISTING_PAGE_SIZE = 24;
+
+const fetchListingPage = async (filters: ListingFilters, after: string | undefined) => {
+  const { data, error } = await supabase.rpc('search_products', {
+    ...toListingArgs(filters),
+    p_sort: filters.sort,
+    p_limit: LISTING_PAGE_SIZE,
+    p_after: after
+  });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const fetchListingFacets = async (filters: ListingFilters) => {
+  const { data, error } = await supabase.rpc('product_search_facets', toListingArgs(filters));
+
+  if (error) throw error;
+  return parseListingFacets(data);
+};
+
+// The shop's listing one page at a time, each continuing from the last
+// product of the one before, plus the facet counts for the same filters.
+// Loaded pages stay cached, so coming back to the listing shows them again
+// straight away.
+export function useProductListing(filters: ListingFilters) {
+  const { query, category, sellerId, minPrice, maxPrice, inStock, minRating, attributes, sort } = filters;
+  const filterKey = [query, category, sellerId, minPrice, maxPrice, inStock, minRating, attributes];
+
+  const listing = useInfiniteQuery({
+    queryKey: ['product-listing', ...filterKey, sort],
+    queryFn: ({ pageParam }) => fetchListingPage(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage, pages) => {
+      const loaded = pages.reduce((count, page) => count + page.length, 0);
+      return loaded < (lastPage[0]?.total_count ?? 0)
+        ? lastPage[lastPage.length - 1].sort_cursor
+        : undefined;
+    },
+    staleTime: 60 * 1000
+  });
+
+  const facets = useQuery({
+    queryKey: ['product-facets', ...filterKey],
+    queryFn: () => fetchListingFacets(filters),
+    // The old counts stay up while the new ones load
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000
+  });
+
+  return { listing, facets };
+}
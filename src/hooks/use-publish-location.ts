@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Don't write more often than this, however often the device reports
+const PUBLISH_INTERVAL_MS = 15000;
+
+export interface PublishedDelivery {
+  fulfillmentId: string;
+  driverId: string;
+}
+
+// While `deliveries` is non-empty, watch the device's position and publish it
+// to delivery_locations for each delivery, at most every PUBLISH_INTERVAL_MS
+export function usePublishLocation(deliveries: PublishedDelivery[]) {
+  const [error, setError] = useState<string | null>(null);
+  const [lastPublishedAt, setLastPublishedAt] = useState<Date | null>(null);
+  const lastPublish = useRef(0);
+  const deliveriesRef = useRef(deliveries);
+  deliveriesRef.current = deliveries;
+
+  const active = deliveries.length > 0;
+
+  useEffect(() => {
+    if (!active) return;
+
+    if (!navigator.geolocation) {
+      setError('Location is not available on this device');
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const now = Date.now();
+        if (now - lastPublish.current < PUBLISH_INTERVAL_MS) return;
+        lastPublish.current = now;
+
+        const { latitude, longitude, heading, speed, accuracy } = position.coords;
+        const { error: upsertError } = await supabase
+          .from('delivery_locations')
+          .upsert(deliveriesRef.current.map(({ fulfillmentId, driverId }) => ({
+            fulfillment_id: fulfillmentId,
+            driver_id: driverId,
+            latitude,
+            longitude,
+            heading,
+            speed,
+            accuracy,
+            recorded_at: new Date(position.timestamp).toISOString()
+          })));
+
+        if (upsertError) {
+          console.error('Error publishing location:', upsertError);
+          setError('Could not share your location');
+        } else {
+          setError(null);
+          setLastPublishedAt(new Date(now));
+        }
+      },
+      (positionError) => {
+        console.error('Error watching location:', positionError);
+        setError(positionError.message);
+      },
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [active]);
+
+  return { error, lastPublishedAt };
+}
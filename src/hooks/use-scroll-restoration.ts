@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+// Window positions by history entry, kept while the tab is open
+const positions = new Map<string, number>();
+
+// Scrolls back to where the page was left when it's returned to with the
+// browser's back or forward button, once `ready` says its content is there
+export function useScrollRestoration(ready: boolean) {
+  const { key } = useLocation();
+  const navigationType = useNavigationType();
+
+  useEffect(() => {
+    return () => {
+      positions.set(key, window.scrollY);
+    };
+  }, [key]);
+
+  useEffect(() => {
+    const position = positions.get(key);
+    if (!ready || navigationType !== 'POP' || position === undefined) return;
+
+    window.scrollTo(0, position);
+    positions.delete(key);
+  }, [ready, key, navigationType]);
+}
@@ -22,6 +22,7 @@ export type Database = {
           quantity: number
           updated_at: string
           user_id: string
+          variant_id: string | null
         }
         Insert: {
           created_at?: string
@@ -30,6 +31,7 @@ export type Database = {
           quantity?: number
           updated_at?: string
           user_id: string
+          variant_id?: string | null
         }
         Update: {
           created_at?: string
@@ -38,6 +40,7 @@ export type Database = {
           quantity?: number
           updated_at?: string
           user_id?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -47,6 +50,116 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          created_at: string
+          description: string | null
+          icon: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          icon?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          icon?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_attributes: {
+        Row: {
+          category_id: string
+          created_at: string
+          filterable: boolean
+          id: string
+          key: string
+          label: string
+          max_value: number | null
+          min_value: number | null
+          options: string[]
+          required: boolean
+          sort_order: number
+          type: string
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          filterable?: boolean
+          id?: string
+          key: string
+          label: string
+          max_value?: number | null
+          min_value?: number | null
+          options?: string[]
+          required?: boolean
+          sort_order?: number
+          type: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          filterable?: boolean
+          id?: string
+          key?: string
+          label?: string
+          max_value?: number | null
+          min_value?: number | null
+          options?: string[]
+          required?: boolean
+          sort_order?: number
+          type?: string
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_attributes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       comments: {
@@ -79,6 +192,162 @@ export type Database = {
         }
         Relationships: []
       }
+      delivery_locations: {
+        Row: {
+          accuracy: number | null
+          driver_id: string
+          fulfillment_id: string
+          heading: number | null
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed: number | null
+        }
+        Insert: {
+          accuracy?: number | null
+          driver_id: string
+          fulfillment_id: string
+          heading?: number | null
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          speed?: number | null
+        }
+        Update: {
+          accuracy?: number | null
+          driver_id?: string
+          fulfillment_id?: string
+          heading?: number | null
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_locations_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_locations_fulfillment_id_fkey"
+            columns: ["fulfillment_id"]
+            isOneToOne: true
+            referencedRelation: "order_fulfillments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_zones: {
+        Row: {
+          active: boolean
+          center_latitude: number | null
+          center_longitude: number | null
+          created_at: string
+          fee: number
+          id: string
+          min_order_amount: number
+          name: string
+          polygon: Json | null
+          radius_km: number | null
+          seller_id: string
+          updated_at: string
+          zone_type: string
+        }
+        Insert: {
+          active?: boolean
+          center_latitude?: number | null
+          center_longitude?: number | null
+          created_at?: string
+          fee?: number
+          id?: string
+          min_order_amount?: number
+          name: string
+          polygon?: Json | null
+          radius_km?: number | null
+          seller_id: string
+          updated_at?: string
+          zone_type: string
+        }
+        Update: {
+          active?: boolean
+          center_latitude?: number | null
+          center_longitude?: number | null
+          created_at?: string
+          fee?: number
+          id?: string
+          min_order_amount?: number
+          name?: string
+          polygon?: Json | null
+          radius_km?: number | null
+          seller_id?: string
+          updated_at?: string
+          zone_type?: string
+        }
+        Relationships: []
+      }
+      drivers: {
+        Row: {
+          active: boolean
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          phone: string
+          seller_id: string
+          updated_at: string
+          user_id: string | null
+          vehicle: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          phone: string
+          seller_id: string
+          updated_at?: string
+          user_id?: string | null
+          vehicle?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          phone?: string
+          seller_id?: string
+          updated_at?: string
+          user_id?: string | null
+          vehicle?: string | null
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       messages: {
         Row: {
           content: string
@@ -130,32 +399,151 @@ export type Database = {
           },
         ]
       }
+      order_fulfillments: {
+        Row: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_fee: number
+          delivery_zone_id: string | null
+          discount_amount: number
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+        Insert: {
+          cash_collected_amount?: number | null
+          cash_collected_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_fee?: number
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          driver_assigned?: boolean
+          driver_id?: string | null
+          driver_notes?: string | null
+          en_route_at?: string | null
+          estimated_delivery?: string | null
+          failed_attempts?: number
+          id?: string
+          order_id: string
+          picked_up_at?: string | null
+          proof_of_delivery_note?: string | null
+          proof_of_delivery_url?: string | null
+          seller_id: string
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal?: number
+          updated_at?: string
+        }
+        Update: {
+          cash_collected_amount?: number | null
+          cash_collected_at?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_fee?: number
+          delivery_zone_id?: string | null
+          discount_amount?: number
+          driver_assigned?: boolean
+          driver_id?: string | null
+          driver_notes?: string | null
+          en_route_at?: string | null
+          estimated_delivery?: string | null
+          failed_attempts?: number
+          id?: string
+          order_id?: string
+          picked_up_at?: string | null
+          proof_of_delivery_note?: string | null
+          proof_of_delivery_url?: string | null
+          seller_id?: string
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_fulfillments_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_fulfillments_driver_id_fkey"
+            columns: ["driver_id"]
+            isOneToOne: false
+            referencedRelation: "drivers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_fulfillments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string
+          fulfillment_id: string
           id: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          tax_amount: number
+          tax_rate: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
           created_at?: string
+          fulfillment_id: string
           id?: string
           order_id: string
           price: number
           product_id: string
           quantity: number
+          tax_amount?: number
+          tax_rate?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
           created_at?: string
+          fulfillment_id?: string
           id?: string
           order_id?: string
           price?: number
           product_id?: string
           quantity?: number
+          tax_amount?: number
+          tax_rate?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "order_items_fulfillment_id_fkey"
+            columns: ["fulfillment_id"]
+            isOneToOne: false
+            referencedRelation: "order_fulfillments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "order_items_order_id_fkey"
             columns: ["order_id"]
@@ -170,89 +558,327 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          fulfillment_id: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          fulfillment_id?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          fulfillment_id?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_fulfillment_id_fkey"
+            columns: ["fulfillment_id"]
+            isOneToOne: false
+            referencedRelation: "order_fulfillments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      order_status_transitions: {
+        Row: {
+          allowed_roles: string[]
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          allowed_roles?: string[]
+          from_status: Database["public"]["Enums"]["order_status"]
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          allowed_roles?: string[]
+          from_status?: Database["public"]["Enums"]["order_status"]
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: []
+      }
       orders: {
         Row: {
           created_at: string
-          driver_assigned: boolean | null
-          driver_notes: string | null
-          estimated_delivery: string | null
+          currency: string
+          delivery_fee: number
+          discount_amount: number
+          exchange_rate: number
           id: string
           payment_method: string | null
+          promotion_code: string | null
+          promotion_id: string | null
           shipping_address: string | null
-          status: string | null
+          shipping_address_snapshot: Json | null
+          shipping_latitude: number | null
+          shipping_longitude: number | null
+          status: Database["public"]["Enums"]["order_status"]
+          stock_status: string | null
+          stripe_payment_intent_id: string | null
           stripe_session_id: string | null
+          tax_amount: number
           total_amount: number
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          driver_assigned?: boolean | null
-          driver_notes?: string | null
-          estimated_delivery?: string | null
+          currency?: string
+          delivery_fee?: number
+          discount_amount?: number
+          exchange_rate?: number
           id?: string
           payment_method?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
           shipping_address?: string | null
-          status?: string | null
+          shipping_address_snapshot?: Json | null
+          shipping_latitude?: number | null
+          shipping_longitude?: number | null
+          status?: Database["public"]["Enums"]["order_status"]
+          stock_status?: string | null
+          stripe_payment_intent_id?: string | null
           stripe_session_id?: string | null
+          tax_amount?: number
           total_amount: number
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          driver_assigned?: boolean | null
-          driver_notes?: string | null
-          estimated_delivery?: string | null
+          currency?: string
+          delivery_fee?: number
+          discount_amount?: number
+          exchange_rate?: number
           id?: string
           payment_method?: string | null
+          promotion_code?: string | null
+          promotion_id?: string | null
           shipping_address?: string | null
-          status?: string | null
+          shipping_address_snapshot?: Json | null
+          shipping_latitude?: number | null
+          shipping_longitude?: number | null
+          status?: Database["public"]["Enums"]["order_status"]
+          stock_status?: string | null
+          stripe_payment_intent_id?: string | null
           stripe_session_id?: string | null
+          tax_amount?: number
           total_amount?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      products: {
+      product_images: {
         Row: {
-          category: string | null
           created_at: string
-          description: string | null
           id: string
-          image_url: string | null
-          name: string
-          price: number
-          seller_id: string
-          stock_quantity: number | null
+          is_cover: boolean
+          position: number
+          product_id: string
+          storage_path: string
+          thumbnail_path: string
+          thumbnail_url: string
           updated_at: string
+          url: string
         }
         Insert: {
-          category?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          image_url?: string | null
-          name: string
-          price: number
-          seller_id: string
-          stock_quantity?: number | null
+          is_cover?: boolean
+          position?: number
+          product_id: string
+          storage_path: string
+          thumbnail_path: string
+          thumbnail_url: string
           updated_at?: string
+          url: string
         }
         Update: {
-          category?: string | null
           created_at?: string
-          description?: string | null
           id?: string
-          image_url?: string | null
-          name?: string
-          price?: number
+          is_cover?: boolean
+          position?: number
+          product_id?: string
+          storage_path?: string
+          thumbnail_path?: string
+          thumbnail_url?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string
+          id: string
+          image_url: string | null
+          list_price: number | null
+          name: string
+          options: Json
+          position: number
+          price: number | null
+          product_id: string
+          reserved_quantity: number
+          sku: string | null
+          stock_quantity: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          list_price?: number | null
+          name: string
+          options: Json
+          position?: number
+          price?: number | null
+          product_id: string
+          reserved_quantity?: number
+          sku?: string | null
+          stock_quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          list_price?: number | null
+          name?: string
+          options?: Json
+          position?: number
+          price?: number | null
+          product_id?: string
+          reserved_quantity?: number
+          sku?: string | null
+          stock_quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          archived_at: string | null
+          attributes: Json
+          category: string | null
+          category_id: string | null
+          created_at: string
+          currency: string
+          description: string | null
+          id: string
+          image_url: string | null
+          list_price: number
+          name: string
+          price: number
+          reserved_quantity: number
+          search_vector: unknown | null
+          seller_id: string
+          sku: string | null
+          stock_quantity: number | null
+          updated_at: string
+          variant_options: Json
+        }
+        Insert: {
+          archived_at?: string | null
+          attributes?: Json
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          list_price?: number
+          name: string
+          price?: number
+          reserved_quantity?: number
+          search_vector?: unknown | null
+          seller_id: string
+          sku?: string | null
+          stock_quantity?: number | null
+          updated_at?: string
+          variant_options?: Json
+        }
+        Update: {
+          archived_at?: string | null
+          attributes?: Json
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          currency?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          list_price?: number
+          name?: string
+          price?: number
+          reserved_quantity?: number
+          search_vector?: unknown | null
           seller_id?: string
+          sku?: string | null
           stock_quantity?: number | null
           updated_at?: string
+          variant_options?: Json
         }
         Relationships: [
           {
@@ -262,6 +888,20 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_currency_fkey"
+            columns: ["currency"]
+            isOneToOne: false
+            referencedRelation: "exchange_rates"
+            referencedColumns: ["currency"]
+          },
         ]
       }
       profiles: {
@@ -294,6 +934,57 @@ export type Database = {
         }
         Relationships: []
       }
+      promotions: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          discount_value: number
+          ends_at: string | null
+          id: string
+          max_uses: number | null
+          max_uses_per_user: number | null
+          min_order_amount: number
+          seller_id: string | null
+          starts_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          discount_value: number
+          ends_at?: string | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          min_order_amount?: number
+          seller_id?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          discount_value?: number
+          ends_at?: string | null
+          id?: string
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          min_order_amount?: number
+          seller_id?: string | null
+          starts_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       seller_analytics: {
         Row: {
           created_at: string
@@ -324,6 +1015,7 @@ export type Database = {
       seller_notifications: {
         Row: {
           created_at: string
+          fulfillment_id: string | null
           id: string
           message: string
           order_id: string | null
@@ -333,6 +1025,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          fulfillment_id?: string | null
           id?: string
           message: string
           order_id?: string | null
@@ -342,6 +1035,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          fulfillment_id?: string | null
           id?: string
           message?: string
           order_id?: string | null
@@ -350,6 +1044,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "seller_notifications_fulfillment_id_fkey"
+            columns: ["fulfillment_id"]
+            isOneToOne: false
+            referencedRelation: "order_fulfillments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "seller_notifications_order_id_fkey"
             columns: ["order_id"]
@@ -359,15 +1060,712 @@ export type Database = {
           },
         ]
       }
+      stripe_events: {
+        Row: {
+          created_at: string
+          id: string
+          new_status: string | null
+          order_id: string | null
+          previous_status: string | null
+          sellers_notified_at: string | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          new_status?: string | null
+          order_id?: string | null
+          previous_status?: string | null
+          sellers_notified_at?: string | null
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          new_status?: string | null
+          order_id?: string | null
+          previous_status?: string | null
+          sellers_notified_at?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_rules: {
+        Row: {
+          active: boolean
+          category: string | null
+          city: string | null
+          country: string
+          created_at: string
+          id: string
+          name: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category?: string | null
+          city?: string | null
+          country: string
+          created_at?: string
+          id?: string
+          name: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category?: string | null
+          city?: string | null
+          country?: string
+          created_at?: string
+          id?: string
+          name?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_addresses: {
+        Row: {
+          city: string
+          country: string
+          created_at: string
+          delivery_instructions: string | null
+          id: string
+          is_default: boolean
+          label: string | null
+          latitude: number | null
+          line1: string
+          line2: string | null
+          longitude: number | null
+          phone: string | null
+          postal_code: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          city: string
+          country: string
+          created_at?: string
+          delivery_instructions?: string | null
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          latitude?: number | null
+          line1: string
+          line2?: string | null
+          longitude?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          city?: string
+          country?: string
+          created_at?: string
+          delivery_instructions?: string | null
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          latitude?: number | null
+          line1?: string
+          line2?: string | null
+          longitude?: number | null
+          phone?: string | null
+          postal_code?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      allocate_order_discount: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      apply_stripe_event: {
+        Args: {
+          p_column?: string
+          p_event_id: string
+          p_from?: Database["public"]["Enums"]["order_status"][]
+          p_note?: string
+          p_payment_intent_id?: string
+          p_to?: Database["public"]["Enums"]["order_status"]
+          p_type: string
+          p_value?: string
+        }
+        Returns: {
+          created_at: string
+          id: string
+          new_status: string | null
+          order_id: string | null
+          previous_status: string | null
+          sellers_notified_at: string | null
+          type: string
+          updated_at: string
+        }
+      }
+      assign_fulfillment_driver: {
+        Args: {
+          p_driver_id: string
+          p_driver_notes?: string
+          p_estimated_delivery: string
+          p_fulfillment_id: string
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      attribute_matches: {
+        Args: {
+          p_filter: Json
+          p_value: Json
+        }
+        Returns: boolean
+      }
+      cancel_order: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      cart_lines: {
+        Args: {
+          p_items: Json
+        }
+        Returns: {
+          product_id: string
+          quantity: number
+          variant_id: string
+        }[]
+      }
+      cart_tax_lines: {
+        Args: {
+          p_address: Json
+          p_items: Json
+          p_promotion: Json
+        }
+        Returns: {
+          product_id: string
+          tax_amount: number
+          tax_rate: number
+          variant_id: string
+        }[]
+      }
+      category_attribute_schema: {
+        Args: {
+          p_category_id: string
+        }
+        Returns: {
+          category_id: string
+          created_at: string
+          filterable: boolean
+          id: string
+          key: string
+          label: string
+          max_value: number | null
+          min_value: number | null
+          options: string[]
+          required: boolean
+          sort_order: number
+          type: string
+          unit: string | null
+          updated_at: string
+        }[]
+      }
+      category_subtree: {
+        Args: {
+          p_slug: string
+        }
+        Returns: string[]
+      }
+      commit_order_stock: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      confirm_cash_order: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      create_order: {
+        Args: {
+          p_address: Json
+          p_currency?: string
+          p_items: Json
+          p_payment_method?: string
+          p_promotion_code?: string
+          p_user_id: string
+        }
+        Returns: {
+          created_at: string
+          currency: string
+          delivery_fee: number
+          discount_amount: number
+          exchange_rate: number
+          id: string
+          payment_method: string | null
+          promotion_code: string | null
+          promotion_id: string | null
+          shipping_address: string | null
+          shipping_address_snapshot: Json | null
+          shipping_latitude: number | null
+          shipping_longitude: number | null
+          status: Database["public"]["Enums"]["order_status"]
+          stock_status: string | null
+          stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          tax_amount: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      delivery_zone_contains: {
+        Args: {
+          p_lat: number
+          p_lng: number
+          p_zone: Database["public"]["Tables"]["delivery_zones"]["Row"]
+        }
+        Returns: boolean
+      }
+      evaluate_promotion: {
+        Args: {
+          p_code: string
+          p_items: Json
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      format_money: {
+        Args: {
+          p_amount: number
+        }
+        Returns: string
+      }
+      format_order_money: {
+        Args: {
+          p_amount: number
+          p_currency: string
+          p_rate: number
+        }
+        Returns: string
+      }
+      format_shipping_address: {
+        Args: {
+          p_address: Json
+        }
+        Returns: string
+      }
+      fulfillment_amount_due: {
+        Args: {
+          p_fulfillment_id: string
+        }
+        Returns: number
+      }
+      haversine_km: {
+        Args: {
+          p_lat1: number
+          p_lat2: number
+          p_lng1: number
+          p_lng2: number
+        }
+        Returns: number
+      }
+      is_order_driver: {
+        Args: {
+          p_order_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_order_seller: {
+        Args: {
+          p_order_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      is_valid_cart_line: {
+        Args: {
+          p_product_id: string
+          p_variant_id: string
+        }
+        Returns: boolean
+      }
+      link_driver_account: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      lock_order_products: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      mark_fulfillment_delivered: {
+        Args: {
+          p_cash_collected?: boolean
+          p_fulfillment_id: string
+          p_proof_note?: string
+          p_proof_url?: string
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      mark_fulfillment_delivery_failed: {
+        Args: {
+          p_fulfillment_id: string
+          p_reason: string
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      mark_fulfillment_en_route: {
+        Args: {
+          p_fulfillment_id: string
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      mark_fulfillment_picked_up: {
+        Args: {
+          p_fulfillment_id: string
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      match_products: {
+        Args: {
+          p_attributes: Json
+          p_category: string
+          p_in_stock: boolean
+          p_max_price: number
+          p_min_price: number
+          p_min_rating: number
+          p_query: string
+          p_seller_id: string
+        }
+        Returns: {
+          average_rating: number
+          id: string
+          match_rank: number
+          review_count: number
+          units_sold: number
+        }[]
+      }
+      merge_guest_cart: {
+        Args: {
+          p_items: Json
+        }
+        Returns: Json
+      }
+      normalize_shipping_address: {
+        Args: {
+          p_address: Json
+        }
+        Returns: Json
+      }
+      point_in_polygon: {
+        Args: {
+          p_lat: number
+          p_lng: number
+          p_polygon: Json
+        }
+        Returns: boolean
+      }
+      product_search_facets: {
+        Args: {
+          p_attributes?: Json
+          p_category?: string
+          p_in_stock?: boolean
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_query?: string
+          p_seller_id?: string
+        }
+        Returns: Json
+      }
+      quote_delivery: {
+        Args: {
+          p_address: Json
+          p_items: Json
+        }
+        Returns: Json
+      }
+      quote_promotion: {
+        Args: {
+          p_code: string
+          p_items: Json
+        }
+        Returns: Json
+      }
+      quote_tax: {
+        Args: {
+          p_address: Json
+          p_items: Json
+          p_promotion_code?: string
+        }
+        Returns: Json
+      }
+      release_fulfillment_stock: {
+        Args: {
+          p_fulfillment_id: string
+        }
+        Returns: undefined
+      }
+      release_order_stock: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      search_headline_options: {
+        Args: {
+          p_fragments: boolean
+        }
+        Returns: string
+      }
+      search_products: {
+        Args: {
+          p_after?: string
+          p_attributes?: Json
+          p_category?: string
+          p_in_stock?: boolean
+          p_limit?: number
+          p_max_price?: number
+          p_min_price?: number
+          p_min_rating?: number
+          p_query?: string
+          p_seller_id?: string
+          p_sort?: string
+        }
+        Returns: {
+          average_rating: number
+          category: string
+          description: string
+          id: string
+          image_url: string
+          name: string
+          name_highlight: string
+          price: number
+          rank: number
+          reserved_quantity: number
+          review_count: number
+          seller_id: string
+          snippet: string
+          sort_cursor: string
+          stock_quantity: number
+          total_count: number
+          units_sold: number
+          variant_options: Json
+        }[]
+      }
+      slugify: {
+        Args: {
+          p_text: string
+        }
+        Returns: string
+      }
+      sync_order_status: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: undefined
+      }
+      tax_rate_for: {
+        Args: {
+          p_address: Json
+          p_category: string
+        }
+        Returns: number
+      }
+      to_prefix_tsquery: {
+        Args: {
+          p_query: string
+        }
+        Returns: unknown
+      }
+      transition_fulfillment_status: {
+        Args: {
+          p_fulfillment_id: string
+          p_note?: string
+          p_status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: {
+          cash_collected_amount: number | null
+          cash_collected_at: string | null
+          created_at: string
+          delivered_at: string | null
+          driver_assigned: boolean
+          driver_id: string | null
+          driver_notes: string | null
+          en_route_at: string | null
+          estimated_delivery: string | null
+          failed_attempts: number
+          id: string
+          order_id: string
+          picked_up_at: string | null
+          proof_of_delivery_note: string | null
+          proof_of_delivery_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal: number
+          updated_at: string
+        }
+      }
+      transition_order_status: {
+        Args: {
+          p_note?: string
+          p_order_id: string
+          p_status: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: {
+          created_at: string
+          id: string
+          payment_method: string | null
+          shipping_address: string | null
+          status: Database["public"]["Enums"]["order_status"]
+          stock_status: string | null
+          stripe_payment_intent_id: string | null
+          stripe_session_id: string | null
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
-      user_role: "seller" | "buyer"
+      order_status:
+        | "pending"
+        | "payment_failed"
+        | "paid"
+        | "confirmed"
+        | "preparing"
+        | "out_for_delivery"
+        | "delivery_failed"
+        | "delivered"
+        | "cancelled"
+        | "refunded"
+        | "disputed"
+      user_role: "seller" | "buyer" | "driver"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -495,7 +1893,20 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["seller", "buyer"],
+      order_status: [
+        "pending",
+        "payment_failed",
+        "paid",
+        "confirmed",
+        "preparing",
+        "out_for_delivery",
+        "delivery_failed",
+        "delivered",
+        "cancelled",
+        "refunded",
+        "disputed",
+      ],
+      user_role: ["seller", "buyer", "driver"],
     },
   },
 } as const
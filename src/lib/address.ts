@@ -0,0 +1,75 @@
+import { Json, Tables } from '@/integrations/supabase/types';
+
+export type UserAddress = Tables<'user_addresses'>;
+
+// The address sent with an order; create_order stores it as the order's
+// shipping_address_snapshot
+export interface ShippingAddress {
+  label?: string | null;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  postal_code?: string | null;
+  country: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  phone?: string | null;
+  delivery_instructions?: string | null;
+}
+
+// orders.shipping_address_snapshot, written by create_order; null on orders
+// placed before addresses were structured
+export const parseAddressSnapshot = (snapshot: Json | null): ShippingAddress | null =>
+  snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot)
+    ? (snapshot as unknown as ShippingAddress)
+    : null;
+
+export const emptyShippingAddress: ShippingAddress = {
+  label: '',
+  line1: '',
+  line2: '',
+  city: '',
+  postal_code: '',
+  country: '',
+  latitude: null,
+  longitude: null,
+  phone: '',
+  delivery_instructions: ''
+};
+
+export const toShippingAddress = (address: UserAddress): ShippingAddress => ({
+  label: address.label,
+  line1: address.line1,
+  line2: address.line2,
+  city: address.city,
+  postal_code: address.postal_code,
+  country: address.country,
+  latitude: address.latitude,
+  longitude: address.longitude,
+  phone: address.phone,
+  delivery_instructions: address.delivery_instructions
+});
+
+// Trimmed, with blank optional fields as null, ready to save to user_addresses
+export const toAddressFields = (address: ShippingAddress) => ({
+  label: address.label?.trim() || null,
+  line1: address.line1.trim(),
+  line2: address.line2?.trim() || null,
+  city: address.city.trim(),
+  postal_code: address.postal_code?.trim() || null,
+  country: address.country.trim(),
+  latitude: address.latitude ?? null,
+  longitude: address.longitude ?? null,
+  phone: address.phone?.trim() || null,
+  delivery_instructions: address.delivery_instructions?.trim() || null
+});
+
+export const isCompleteAddress = (address: ShippingAddress) =>
+  Boolean(address.line1.trim() && address.city.trim() && address.country.trim());
+
+// Same format as format_shipping_address in the database
+export const formatAddress = (address: ShippingAddress) =>
+  [address.line1, address.line2, address.city, address.postal_code, address.country]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { Json, Tables } from '@/integrations/supabase/types';
+
+export type CategoryAttribute = Tables<'category_attributes'>;
+
+// What the product form holds for each attribute: a checkbox for yes/no
+// attributes, and what was typed or picked for the rest
+export type AttributeFormValues = Record<string, string | boolean>;
+
+// A product's attribute values, as kept in products.attributes
+type AttributeValues = Record<string, string | number | boolean>;
+
+const asAttributeValues = (attributes: Json) =>
+  (attributes && typeof attributes === 'object' && !Array.isArray(attributes) ? attributes : {}) as AttributeValues;
+
+const attributeFieldSchema = (attribute: CategoryAttribute) => {
+  if (attribute.type === 'boolean') return z.boolean();
+
+  return z.string().trim().superRefine((value, ctx) => {
+    const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+    if (value === '') {
+      if (attribute.required) fail(`${attribute.label} is required`);
+      return;
+    }
+
+    if (attribute.type === 'select' && !attribute.options.includes(value)) {
+      fail(`Choose one of the ${attribute.label.toLowerCase()} options`);
+    }
+
+    if (attribute.type === 'number') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        fail(`${attribute.label} must be a number`);
+      } else if (attribute.min_value !== null && number < attribute.min_value) {
+        fail(`${attribute.label} must be at least ${attribute.min_value}`);
+      } else if (attribute.max_value !== null && number > attribute.max_value) {
+        fail(`${attribute.label} must be at most ${attribute.max_value}`);
+      }
+    }
+  });
+};
+
+// Checks the product form's attribute fields the way the database will
+export const attributeFormSchema = (attributes: CategoryAttribute[]) =>
+  z.object(Object.fromEntries(attributes.map(attribute => [attribute.key, attributeFieldSchema(attribute)])));
+
+// The form's starting values from the product's saved ones. Values already
+// `edited` in the form win, where they suit the attribute.
+export const toAttributeFormValues = (
+  attributes: CategoryAttribute[],
+  stored: Json,
+  edited: AttributeFormValues = {}
+): AttributeFormValues => {
+  const values = asAttributeValues(stored);
+
+  return Object.fromEntries(attributes.map(attribute => {
+    const current = edited[attribute.key];
+    if (attribute.type === 'boolean') {
+      return [attribute.key, typeof current === 'boolean' ? current : values[attribute.key] === true];
+    }
+    return [attribute.key, typeof current === 'string' ? current : String(values[attribute.key] ?? '')];
+  }));
+};
+
+// The form's values as products.attributes; blank fields are left out
+export const toProductAttributes = (attributes: CategoryAttribute[], values: AttributeFormValues): Json => {
+  const stored: AttributeValues = {};
+
+  attributes.forEach(attribute => {
+    const value = values[attribute.key];
+    if (typeof value === 'boolean') {
+      stored[attribute.key] = value;
+    } else if (value !== undefined && value.trim() !== '') {
+      stored[attribute.key] = attribute.type === 'number' ? Number(value) : value.trim();
+    }
+  });
+
+  return stored;
+};
+
+// A product's value for an attribute as the product page shows it, or null
+// when it has none
+export const formatAttributeValue = (attribute: CategoryAttribute, stored: Json) => {
+  const value = asAttributeValues(stored)[attribute.key];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return attribute.unit ? `${value} ${attribute.unit}` : String(value);
+};
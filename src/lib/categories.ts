@@ -0,0 +1,50 @@
+import { Tables } from '@/integrations/supabase/types';
+
+export type Category = Tables<'categories'>;
+
+const bySortOrder = (a: Category, b: Category) =>
+  a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+// The categories directly under `parentId`, or the top level for null
+export const childCategories = (categories: Category[], parentId: string | null) =>
+  categories.filter(category => category.parent_id === parentId).sort(bySortOrder);
+
+// The category and those it's nested under, outermost first
+export const categoryPath = (categories: Category[], id: string | null): Category[] => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const path: Category[] = [];
+  let category = id ? byId.get(id) : undefined;
+
+  while (category && !path.includes(category)) {
+    path.unshift(category);
+    category = category.parent_id ? byId.get(category.parent_id) : undefined;
+  }
+
+  return path;
+};
+
+// Every category, each followed by those nested under it, for pickers
+export const flattenCategories = (categories: Category[]) => {
+  const flat: { category: Category; depth: number }[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    childCategories(categories, parentId).forEach(category => {
+      flat.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  };
+
+  visit(null, 0);
+  return flat;
+};
+
+// The category a spreadsheet cell means: its slug, or its name when no other
+// category has the same one
+export const findCategory = (categories: Category[], text: string): Category | undefined => {
+  const key = text.trim().toLowerCase();
+  const bySlug = categories.find(category => category.slug === key);
+  if (bySlug) return bySlug;
+
+  const byName = categories.filter(category => category.name.toLowerCase() === key);
+  return byName.length === 1 ? byName[0] : undefined;
+};
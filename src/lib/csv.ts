@@ -0,0 +1,71 @@
+// Reading and writing RFC 4180 CSV, as spreadsheets export and import it
+
+// Splits CSV text into rows of fields. Quoted fields may contain commas,
+// doubled quotes and line breaks. Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Excel starts UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Spreadsheets run a field starting with = + - or @ as a formula; a leading
+// apostrophe makes them show it as text instead
+const escapeField = (raw: string) => {
+  const value = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Undoes escapeField's apostrophe on a parsed field, so exported values read
+// back as they were
+export const unescapeCsvField = (value: string) => /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+
+export const toCsv = (rows: (string | number | null | undefined)[][]) =>
+  rows.map(row => row.map(value => escapeField(value == null ? '' : String(value))).join(',')).join('\r\n');
+
+export const downloadCsv = (filename: string, csv: string) => {
+  // The byte order mark makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
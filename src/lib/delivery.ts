@@ -0,0 +1,51 @@
+import { Json } from '@/integrations/supabase/types';
+import { formatMoney, MinorUnits } from '@/lib/money';
+
+export type UndeliverableReason = 'no_location' | 'outside_zones' | 'below_minimum';
+
+// One seller's part of a quote_delivery result
+export interface SellerDeliveryQuote {
+  seller_id: string;
+  subtotal: MinorUnits;
+  products: string[];
+  deliverable: boolean;
+  delivery_fee: MinorUnits;
+  zone_id: string | null;
+  zone_name: string | null;
+  reason: UndeliverableReason | null;
+  min_order_amount?: MinorUnits;
+}
+
+export interface DeliveryQuote {
+  delivery_fee: MinorUnits;
+  sellers: SellerDeliveryQuote[];
+}
+
+export const parseDeliveryQuote = (quote: Json): DeliveryQuote =>
+  quote as unknown as DeliveryQuote;
+
+export const describeUndeliverable = (
+  seller: SellerDeliveryQuote,
+  format: (amount: MinorUnits) => string = formatMoney
+) => {
+  const products = seller.products.join(', ');
+  switch (seller.reason) {
+    case 'no_location':
+      return `Pin your address on the map to check delivery for ${products}`;
+    case 'below_minimum':
+      return `${products} needs an order of at least ${format(Number(seller.min_order_amount))} for delivery to this address`;
+    default:
+      return `${products} can't be delivered to this address`;
+  }
+};
+
+// What a cash-on-delivery buyer pays the driver for one seller's part of an
+// order, as fulfillment_amount_due works it out in the database
+export const fulfillmentAmountDue = (fulfillment: {
+  subtotal: MinorUnits;
+  discount_amount: MinorUnits;
+  delivery_fee: MinorUnits;
+  order_items: { tax_amount: MinorUnits }[];
+}): MinorUnits =>
+  fulfillment.subtotal - fulfillment.discount_amount + fulfillment.delivery_fee
+  + fulfillment.order_items.reduce((tax, item) => tax + item.tax_amount, 0);
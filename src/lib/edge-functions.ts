@@ -0,0 +1,33 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+export interface StockShortage {
+  product_id: string;
+  variant_id?: string | null;
+  name: string | null;
+  requested: number;
+  available: number;
+}
+
+export interface FunctionErrorBody {
+  error?: string;
+  shortages?: StockShortage[];
+}
+
+// Edge functions reply with a `{ error }` JSON body on failure. supabase-js only
+// exposes a generic "non-2xx status code" error, so read the body to get at the
+// server's message and any structured details.
+export const getFunctionErrorBody = async (error: unknown): Promise<FunctionErrorBody | null> => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+
+  try {
+    return await error.context.json();
+  } catch {
+    // Response body was not JSON
+    return null;
+  }
+};
+
+export const getFunctionErrorMessage = async (error: unknown, fallback: string) => {
+  const body = await getFunctionErrorBody(error);
+  return body?.error || fallback;
+};
@@ -0,0 +1,59 @@
+// Coordinates are [lng, lat], the order Mapbox uses
+
+const EARTH_RADIUS_KM = 6371;
+
+// Speed assumed when the driver's device doesn't report one, or reports them
+// as stopped (traffic lights, parking)
+const DEFAULT_SPEED_KMH = 25;
+const MIN_REPORTED_SPEED_KMH = 5;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points
+export const haversineKm = ([lng1, lat1]: [number, number], [lng2, lat2]: [number, number]) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// Rough arrival estimate from straight-line distance. `speedMs` is the
+// device-reported speed in metres per second.
+export const estimateArrival = (
+  from: [number, number],
+  to: [number, number],
+  speedMs?: number | null
+): { distanceKm: number; minutes: number } => {
+  const distanceKm = haversineKm(from, to);
+  const reportedKmh = speedMs ? speedMs * 3.6 : 0;
+  const speedKmh = reportedKmh >= MIN_REPORTED_SPEED_KMH ? reportedKmh : DEFAULT_SPEED_KMH;
+  return { distanceKm, minutes: Math.max(1, Math.round((distanceKm / speedKmh) * 60)) };
+};
+
+// Ring of points approximating a circle, closed, for drawing a radius on a map
+export const circlePolygon = (
+  [lng, lat]: [number, number],
+  radiusKm: number,
+  steps = 64
+): [number, number][] => {
+  const angularDistance = radiusKm / EARTH_RADIUS_KM;
+  const latRad = toRadians(lat);
+  const points: [number, number][] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const bearing = (2 * Math.PI * i) / steps;
+    const pointLat = Math.asin(
+      Math.sin(latRad) * Math.cos(angularDistance) +
+      Math.cos(latRad) * Math.sin(angularDistance) * Math.cos(bearing)
+    );
+    const pointLng = toRadians(lng) + Math.atan2(
+      Math.sin(bearing) * Math.sin(angularDistance) * Math.cos(latRad),
+      Math.cos(angularDistance) - Math.sin(latRad) * Math.sin(pointLat)
+    );
+    points.push([(pointLng * 180) / Math.PI, (pointLat * 180) / Math.PI]);
+  }
+
+  return points;
+};
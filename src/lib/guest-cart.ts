@@ -0,0 +1,46 @@
+// A cart built while signed out lives in localStorage until sign-in, when
+// AuthContext merges it into cart_items with merge_guest_cart
+
+export const GUEST_CART_KEY = 'guest_cart';
+
+// Fired on window once a guest cart has been merged, so the cart reloads
+export const GUEST_CART_MERGED_EVENT = 'guest-cart-merged';
+
+export interface GuestCartLine {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+// A guest line merge_guest_cart couldn't add in full
+export interface GuestCartConflict {
+  product_id: string;
+  variant_id: string | null;
+  name: string | null;
+  requested: number;
+  added: number;
+  available: number;
+}
+
+export const getGuestCart = (): GuestCartLine[] => {
+  try {
+    const lines = JSON.parse(localStorage.getItem(GUEST_CART_KEY) ?? '[]');
+    return Array.isArray(lines) ? lines : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveGuestCart = (lines: GuestCartLine[]) => {
+  localStorage.setItem(GUEST_CART_KEY, JSON.stringify(lines.filter(line => line.quantity > 0)));
+};
+
+export const clearGuestCart = () => {
+  localStorage.removeItem(GUEST_CART_KEY);
+};
+
+export const describeGuestCartConflict = (conflict: GuestCartConflict) => {
+  if (!conflict.name) return 'A product in your cart is no longer available';
+  if (conflict.available === 0) return `${conflict.name} is out of stock`;
+  return `Only ${conflict.available} of ${conflict.name} available, so your cart has ${conflict.available}`;
+};
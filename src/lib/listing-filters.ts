@@ -0,0 +1,228 @@
+import { Json } from '@/integrations/supabase/types';
+import { MinorUnits, fromMinorUnits, toMinorUnits } from '@/lib/money';
+
+export type ListingSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'best_selling' | 'top_rated';
+
+export const LISTING_SORTS: { value: ListingSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'best_selling', label: 'Best selling' },
+  { value: 'top_rated', label: 'Top rated' }
+];
+
+// A filter on one of the category's attributes: the accepted values, or a
+// range for number attributes
+export interface AttributeFilter {
+  values: string[];
+  min: number | null;
+  max: number | null;
+}
+
+// Everything the shop's product listing is narrowed and ordered by. Prices
+// are in the base currency, so a shared link means the same to everyone.
+export interface ListingFilters {
+  query: string;
+  // A category's slug; the listing includes the categories under it
+  category: string | null;
+  sellerId: string | null;
+  minPrice: MinorUnits | null;
+  maxPrice: MinorUnits | null;
+  inStock: boolean;
+  minRating: number | null;
+  // Keyed by attribute key
+  attributes: Record<string, AttributeFilter>;
+  sort: ListingSort;
+}
+
+// How each filter is written in the page's query string. The category is
+// the page itself, /c/<slug>.
+const PARAMS = {
+  query: 'q',
+  sellerId: 'seller',
+  minPrice: 'min_price',
+  maxPrice: 'max_price',
+  inStock: 'in_stock',
+  minRating: 'rating',
+  sort: 'sort'
+} as const;
+
+// Only written in page mode; infinite scroll keeps the pages it has loaded
+const PAGE_PARAM = 'page';
+
+// Attribute filters are written as attr.<key>, once per accepted value, or
+// as attr.<key>.min and attr.<key>.max
+const ATTRIBUTE_PARAM_PREFIX = 'attr.';
+const ATTRIBUTE_PARAM = /^attr\.([a-z][a-z0-9_]*)(?:\.(min|max))?$/;
+
+const parseAmount = (value: string | null): MinorUnits | null =>
+  value !== null && value !== '' && Number.isFinite(Number(value)) ? toMinorUnits(value) : null;
+
+const parseAttributeFilters = (params: URLSearchParams) => {
+  const attributes: Record<string, AttributeFilter> = {};
+
+  params.forEach((value, name) => {
+    const match = ATTRIBUTE_PARAM.exec(name);
+    if (!match || value === '') return;
+
+    const [, key, bound] = match;
+    const filter = attributes[key] ?? (attributes[key] = { values: [], min: null, max: null });
+    if (!bound) {
+      filter.values.push(value);
+    } else if (Number.isFinite(Number(value))) {
+      filter[bound as 'min' | 'max'] = Number(value);
+    }
+  });
+
+  return attributes;
+};
+
+const writeAttributeFilters = (params: URLSearchParams, attributes: Record<string, AttributeFilter>) => {
+  [...params.keys()]
+    .filter(name => name.startsWith(ATTRIBUTE_PARAM_PREFIX))
+    .forEach(name => params.delete(name));
+
+  Object.entries(attributes).forEach(([key, filter]) => {
+    filter.values.forEach(value => params.append(`${ATTRIBUTE_PARAM_PREFIX}${key}`, value));
+    if (filter.min !== null) params.set(`${ATTRIBUTE_PARAM_PREFIX}${key}.min`, String(filter.min));
+    if (filter.max !== null) params.set(`${ATTRIBUTE_PARAM_PREFIX}${key}.max`, String(filter.max));
+  });
+};
+
+export const listingPath = (category: string | null) => category ? `/c/${category}` : '/';
+
+export const parseListingFilters = (params: URLSearchParams, category: string | null): ListingFilters => {
+  const sort = params.get(PARAMS.sort);
+  const minRating = Number(params.get(PARAMS.minRating));
+
+  return {
+    query: params.get(PARAMS.query) ?? '',
+    category,
+    sellerId: params.get(PARAMS.sellerId),
+    minPrice: parseAmount(params.get(PARAMS.minPrice)),
+    maxPrice: parseAmount(params.get(PARAMS.maxPrice)),
+    inStock: params.get(PARAMS.inStock) === '1',
+    minRating: minRating >= 1 && minRating <= 5 ? minRating : null,
+    attributes: parseAttributeFilters(params),
+    sort: LISTING_SORTS.some(option => option.value === sort) ? sort as ListingSort : 'relevance'
+  };
+};
+
+// The query string with `changes` applied; filters back at their defaults
+// are left out so links stay short. Changing a filter goes back to page one.
+export const withListingFilters = (
+  params: URLSearchParams,
+  changes: Partial<Omit<ListingFilters, 'category'>>
+) => {
+  const next = new URLSearchParams(params);
+  const { attributes, ...rest } = changes;
+
+  if (attributes) {
+    writeAttributeFilters(next, attributes);
+    next.delete(PAGE_PARAM);
+  }
+
+  (Object.keys(rest) as (keyof typeof PARAMS)[]).forEach(key => {
+    const value = rest[key];
+    let text: string | null;
+
+    if (key === 'minPrice' || key === 'maxPrice') {
+      text = value === null ? null : fromMinorUnits(value as MinorUnits);
+    } else if (key === 'inStock') {
+      text = value ? '1' : null;
+    } else if (key === 'sort') {
+      text = value === 'relevance' ? null : String(value);
+    } else {
+      text = value === null || value === '' ? null : String(value);
+    }
+
+    if (text === next.get(PARAMS[key])) return;
+
+    next.delete(PAGE_PARAM);
+    if (text === null) {
+      next.delete(PARAMS[key]);
+    } else {
+      next.set(PARAMS[key], text);
+    }
+  });
+
+  return next;
+};
+
+export const parseListingPage = (params: URLSearchParams) => {
+  const page = Number(params.get(PAGE_PARAM));
+  return Number.isInteger(page) && page > 1 ? page : 1;
+};
+
+export const withListingPage = (params: URLSearchParams, page: number) => {
+  const next = new URLSearchParams(params);
+  if (page > 1) {
+    next.set(PAGE_PARAM, String(page));
+  } else {
+    next.delete(PAGE_PARAM);
+  }
+  return next;
+};
+
+// Arguments for search_products and product_search_facets
+export const toListingArgs = (filters: ListingFilters) => ({
+  p_query: filters.query || undefined,
+  p_category: filters.category ?? undefined,
+  p_seller_id: filters.sellerId ?? undefined,
+  p_min_price: filters.minPrice ?? undefined,
+  p_max_price: filters.maxPrice ?? undefined,
+  p_in_stock: filters.inStock,
+  p_min_rating: filters.minRating ?? undefined,
+  p_attributes: Object.keys(filters.attributes).length > 0
+    ? Object.fromEntries(Object.entries(filters.attributes).map(([key, filter]) => [
+      key,
+      filter.values.length > 0 ? filter.values : { min: filter.min, max: filter.max }
+    ]))
+    : undefined
+});
+
+export interface AttributeFacet {
+  key: string;
+  label: string;
+  type: 'text' | 'number' | 'boolean' | 'select';
+  unit: string | null;
+  values?: { value: string; count: number }[];
+  min?: number | null;
+  max?: number | null;
+}
+
+// Each facet counts the products the listing would show if it were chosen
+export interface ListingFacets {
+  // One level below the chosen category, or the top level
+  categories: { slug: string; name: string; count: number }[];
+  sellers: { id: string; name: string; count: number }[];
+  // Cheapest and dearest matching product, in the base currency
+  price: { min: MinorUnits | null; max: MinorUnits | null };
+  inStock: number;
+  ratings: { min: number; count: number }[];
+  // The chosen category's filterable attributes: the range of values for
+  // number attributes, the values and their counts for the rest
+  attributes: AttributeFacet[];
+}
+
+export const emptyListingFacets: ListingFacets = {
+  categories: [],
+  sellers: [],
+  price: { min: null, max: null },
+  inStock: 0,
+  ratings: [],
+  attributes: []
+};
+
+export const parseListingFacets = (facets: Json): ListingFacets => {
+  const raw = facets as unknown as Omit<ListingFacets, 'inStock'> & { in_stock: number };
+  return {
+    categories: raw?.categories ?? [],
+    sellers: raw?.sellers ?? [],
+    price: raw?.price ?? { min: null, max: null },
+    inStock: raw?.in_stock ?? 0,
+    ratings: raw?.ratings ?? [],
+    attributes: raw?.attributes ?? []
+  };
+};
@@ -0,0 +1,39 @@
+const TOKEN_STORAGE_KEY = 'mapbox_token';
+
+// Public Mapbox token: from the build environment if set, otherwise the one
+// the user last entered in this browser
+export const getMapboxToken = (): string =>
+  import.meta.env.VITE_MAPBOX_TOKEN || localStorage.getItem(TOKEN_STORAGE_KEY) || '';
+
+export const saveMapboxToken = (token: string) => {
+  if (token) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+};
+
+interface GeocodingResponse {
+  features?: {
+    place_name: string;
+    center: [number, number];
+  }[];
+}
+
+const geocode = async (query: string, token: string): Promise<GeocodingResponse> => {
+  const response = await fetch(
+    `https://api.mapbox.com/geocoding/v5/mapbox.places/${query}.json?access_token=${token}`
+  );
+  return response.json();
+};
+
+export const reverseGeocode = async (lng: number, lat: number, token: string): Promise<string | null> => {
+  const data = await geocode(`${lng},${lat}`, token);
+  return data.features?.[0]?.place_name ?? null;
+};
+
+// Best match for a free-text address as [lng, lat]
+export const geocodeAddress = async (address: string, token: string): Promise<[number, number] | null> => {
+  const data = await geocode(encodeURIComponent(address), token);
+  return data.features?.[0]?.center ?? null;
+};
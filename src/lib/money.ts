@@ -0,0 +1,42 @@
+// Every stored amount is a whole number of minor units (cents) of the base
+// currency. Amounts shown in another currency are converted with the rate from
+// exchange_rates (units per 1 USD) and rounded back to whole minor units.
+export const BASE_CURRENCY = 'USD';
+
+// All supported currencies have two decimal places; exchange_rates only
+// accepts those
+const MINOR_UNITS_PER_MAJOR = 100;
+
+// A whole number of cents
+export type MinorUnits = number;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatMoney = (amount: MinorUnits, currency: string = BASE_CURRENCY) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat('en-US', { style: 'currency', currency });
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(amount / MINOR_UNITS_PER_MAJOR);
+};
+
+// Parses an amount typed into a form, e.g. "12.5" -> 1250
+export const toMinorUnits = (value: string | number): MinorUnits =>
+  Math.round(Number(value) * MINOR_UNITS_PER_MAJOR) || 0;
+
+// For prefilling form inputs, e.g. 1250 -> "12.50"
+export const fromMinorUnits = (amount: MinorUnits) =>
+  (amount / MINOR_UNITS_PER_MAJOR).toFixed(2);
+
+export const convertFromBase = (amount: MinorUnits, rate: number): MinorUnits =>
+  Math.round(amount * rate);
+
+export const convertToBase = (amount: MinorUnits, rate: number): MinorUnits =>
+  Math.round(amount / rate);
+
+// An order's amounts in the currency it was charged in
+export const formatOrderMoney = (
+  amount: MinorUnits,
+  order: { currency: string; exchange_rate: number }
+) => formatMoney(convertFromBase(amount, order.exchange_rate), order.currency);
@@ -0,0 +1,44 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type OrderStatus = Enums<'order_status'>;
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  payment_failed: 'Payment failed',
+  paid: 'Paid',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  out_for_delivery: 'Out for delivery',
+  delivery_failed: 'Delivery failed',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+  disputed: 'Disputed',
+};
+
+export const getStatusLabel = (status: string) =>
+  ORDER_STATUS_LABELS[status as OrderStatus] ?? status;
+
+export const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'paid':
+    case 'confirmed':
+      return 'bg-blue-100 text-blue-800';
+    case 'preparing':
+    case 'out_for_delivery':
+      return 'bg-purple-100 text-purple-800';
+    case 'delivered':
+      return 'bg-green-100 text-green-800';
+    case 'cancelled':
+    case 'payment_failed':
+    case 'delivery_failed':
+    case 'disputed':
+      return 'bg-red-100 text-red-800';
+    case 'refunded':
+      return 'bg-orange-100 text-orange-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
@@ -0,0 +1,163 @@
+import { Tables } from '@/integrations/supabase/types';
+import { Category, findCategory } from '@/lib/categories';
+import { unescapeCsvField } from '@/lib/csv';
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { validateProductFields } from '@/lib/product-form';
+import { parseVariantOptions } from '@/lib/variants';
+
+type Product = Tables<'products'>;
+
+// Export writes these as its header, so an exported file imports unchanged
+export const PRODUCT_CSV_FIELDS = [
+  { key: 'sku', label: 'SKU', required: true },
+  { key: 'name', label: 'Name', required: true },
+  { key: 'description', label: 'Description', required: false },
+  { key: 'price', label: 'Price', required: true },
+  { key: 'currency', label: 'Currency', required: false },
+  { key: 'stock_quantity', label: 'Stock', required: false },
+  { key: 'category', label: 'Category', required: false },
+  { key: 'image_url', label: 'Image URL', required: false }
+] as const;
+
+export type ProductCsvField = typeof PRODUCT_CSV_FIELDS[number]['key'];
+
+// Which column of the file each field is read from
+export type ProductCsvMapping = Partial<Record<ProductCsvField, number>>;
+
+// Other headers spreadsheets commonly use for the same thing
+const HEADER_ALIASES: Partial<Record<ProductCsvField, string[]>> = {
+  name: ['title', 'productname'],
+  price: ['listprice', 'unitprice'],
+  stock_quantity: ['stock', 'quantity', 'qty', 'inventory'],
+  image_url: ['image', 'imageurl', 'photo']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const guessProductCsvMapping = (headers: string[]): ProductCsvMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ProductCsvMapping = {};
+
+  PRODUCT_CSV_FIELDS.forEach(field => {
+    const candidates = [field.key, field.label, ...(HEADER_ALIASES[field.key] ?? [])].map(normalizeHeader);
+    const index = normalized.findIndex(header => candidates.includes(header));
+    if (index !== -1) mapping[field.key] = index;
+  });
+
+  return mapping;
+};
+
+export interface ProductImportRow {
+  // Line in the file, counting the header, as a spreadsheet numbers it
+  line: number;
+  sku: string;
+  name: string;
+  // The product this row updates; new products have none
+  existingId?: string;
+  errors: string[];
+  record: {
+    sku: string;
+    name: string;
+    description: string;
+    list_price: number;
+    currency: string;
+    stock_quantity: number;
+    category_id: string | null;
+    image_url: string | null;
+  };
+}
+
+// Checks each data row the way the product form does, and resolves it to
+// the full products row to upsert. Fields that aren't mapped, or are left
+// blank where blank makes no sense, keep the existing product's values.
+export const buildProductImport = (
+  rows: string[][],
+  mapping: ProductCsvMapping,
+  existing: Product[],
+  currencies: string[],
+  defaultCurrency: string,
+  categories: Category[]
+): ProductImportRow[] => {
+  const bySku = new Map(existing.filter(p => p.sku).map(p => [p.sku, p]));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const get = (field: ProductCsvField) => {
+      const column = mapping[field];
+      return column === undefined ? undefined : unescapeCsvField(row[column] ?? '').trim();
+    };
+
+    const sku = get('sku') ?? '';
+    const product = bySku.get(sku);
+    const errors: string[] = [];
+
+    if (!sku) {
+      errors.push('SKU is required');
+    } else if (seen.has(sku)) {
+      errors.push(`SKU ${sku} appears more than once`);
+    }
+    seen.add(sku);
+
+    // Products with variants get their stock from them
+    const hasVariants = !!product && parseVariantOptions(product.variant_options).length > 0;
+    const stock = get('stock_quantity') || undefined;
+    const name = get('name') ?? '';
+    const price = get('price') ?? '';
+    const currency = (get('currency') || product?.currency || defaultCurrency).toUpperCase();
+
+    errors.push(...validateProductFields({
+      name,
+      price,
+      currency,
+      stockQuantity: hasVariants ? undefined : stock ?? (product ? undefined : '0')
+    }, currencies));
+
+    // Blank means no category; a missing column keeps the product's own
+    const categoryText = get('category');
+    const category = categoryText ? findCategory(categories, categoryText) : undefined;
+    if (categoryText && !category) {
+      errors.push(`Category ${categoryText} doesn't exist`);
+    }
+
+    return {
+      line: index + 2,
+      sku,
+      name,
+      existingId: product?.id,
+      errors,
+      record: {
+        sku,
+        name,
+        description: get('description') ?? product?.description ?? '',
+        list_price: toMinorUnits(price),
+        currency,
+        stock_quantity: !hasVariants && stock !== undefined ? parseInt(stock) : product?.stock_quantity ?? 0,
+        category_id: categoryText === undefined ? product?.category_id ?? null : category?.id ?? null,
+        image_url: get('image_url') || product?.image_url || null
+      }
+    };
+  });
+};
+
+// Categories are written by name, or by slug where another category has
+// the same name
+const categoryLabel = (categories: Category[], id: string | null) => {
+  const category = categories.find(c => c.id === id);
+  if (!category) return '';
+  return findCategory(categories, category.name) === category ? category.name : category.slug;
+};
+
+export const toProductCsv = (products: Product[], categories: Category[]) => [
+  [...PRODUCT_CSV_FIELDS.map(field => field.key), 'status'],
+  ...products.map(product => [
+    product.sku,
+    product.name,
+    product.description,
+    fromMinorUnits(product.list_price),
+    product.currency,
+    product.stock_quantity,
+    categoryLabel(categories, product.category_id),
+    product.image_url,
+    product.archived_at ? 'archived' : 'active'
+  ])
+];
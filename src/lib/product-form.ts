@@ -0,0 +1,192 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { ProductImage, ProductImageDraft, getCoverImage, toProductImageRows } from '@/lib/product-images';
+import {
+  ProductVariant,
+  VariantAxisDraft,
+  VariantDraft,
+  buildVariantMatrix,
+  describeVariant,
+  emptyVariantDraft,
+  parseVariantOptions,
+  toVariantOptions
+} from '@/lib/variants';
+
+// What a seller types into the add and edit product forms
+export interface ProductFormValues {
+  sku: string;
+  name: string;
+  description: string;
+  price: string;
+  currency: string;
+  stockQuantity: string;
+  categoryId: string | null;
+  // Values for the category's attributes, as kept in products.attributes
+  attributes: Json;
+  images: ProductImageDraft[];
+  variantAxes: VariantAxisDraft[];
+  // Keyed by variant name, as in the variant editor
+  variantDrafts: Record<string, VariantDraft>;
+}
+
+export const emptyProductForm = (currency: string): ProductFormValues => ({
+  sku: '',
+  name: '',
+  description: '',
+  price: '',
+  currency,
+  stockQuantity: '',
+  categoryId: null,
+  attributes: {},
+  images: [],
+  variantAxes: [],
+  variantDrafts: {}
+});
+
+export const toProductFormValues = (
+  product: Tables<'products'>,
+  images: ProductImage[],
+  variants: ProductVariant[]
+): ProductFormValues => ({
+  sku: product.sku ?? '',
+  name: product.name,
+  description: product.description ?? '',
+  price: fromMinorUnits(product.list_price),
+  currency: product.currency,
+  stockQuantity: String(product.stock_quantity ?? 0),
+  categoryId: product.category_id,
+  attributes: product.attributes,
+  images: images.map(image => ({
+    storage_path: image.storage_path,
+    thumbnail_path: image.thumbnail_path,
+    url: image.url,
+    thumbnail_url: image.thumbnail_url,
+    is_cover: image.is_cover
+  })),
+  variantAxes: parseVariantOptions(product.variant_options).map(axis => ({
+    name: axis.name,
+    values: axis.values.join(', ')
+  })),
+  variantDrafts: Object.fromEntries(variants.map(variant => [variant.name, {
+    sku: variant.sku ?? '',
+    price: variant.list_price !== null ? fromMinorUnits(variant.list_price) : '',
+    stock: String(variant.stock_quantity),
+    imageUrl: variant.image_url ?? ''
+  }]))
+});
+
+// The fields every way of creating or changing a product checks, so the
+// product form and catalogue imports accept the same values. Stock is left
+// out for products whose stock comes from their variants.
+export interface ProductFields {
+  name: string;
+  price: string;
+  currency: string;
+  stockQuantity?: string;
+}
+
+export const validateProductFields = (fields: ProductFields, currencies: string[]): string[] => {
+  const errors: string[] = [];
+
+  if (!fields.name.trim()) {
+    errors.push('Name is required');
+  }
+
+  const price = Number(fields.price);
+  if (fields.price.trim() === '' || !Number.isFinite(price) || price < 0) {
+    errors.push('Price must be a number of zero or more');
+  }
+
+  if (!currencies.includes(fields.currency)) {
+    errors.push(`Prices in ${fields.currency || 'that currency'} are not supported`);
+  }
+
+  if (fields.stockQuantity !== undefined) {
+    const stock = Number(fields.stockQuantity);
+    if (fields.stockQuantity.trim() === '' || !Number.isInteger(stock) || stock < 0) {
+      errors.push('Stock must be a whole number of zero or more');
+    }
+  }
+
+  return errors;
+};
+
+// The products columns the form sets. A product with variants gets its stock
+// from them, and one without uploads keeps whatever image_url it has.
+export const toProductRow = (values: ProductFormValues) => {
+  const options = toVariantOptions(values.variantAxes);
+  const cover = getCoverImage(values.images);
+
+  return {
+    sku: values.sku.trim() || null,
+    name: values.name,
+    description: values.description,
+    list_price: toMinorUnits(values.price),
+    currency: values.currency,
+    category_id: values.categoryId,
+    attributes: values.attributes,
+    variant_options: options as unknown as Json,
+    ...(options.length === 0 && { stock_quantity: parseInt(values.stockQuantity) }),
+    ...(cover && { image_url: cover.url })
+  };
+};
+
+// Rows for product_variants, one per combination of the form's options
+export const toVariantRows = (productId: string, values: ProductFormValues) => {
+  const options = toVariantOptions(values.variantAxes);
+  if (options.length === 0) return [];
+
+  return buildVariantMatrix(options).map((selection, position) => {
+    const name = describeVariant(options, selection);
+    const draft = values.variantDrafts[name] ?? emptyVariantDraft;
+    return {
+      product_id: productId,
+      options: selection,
+      name,
+      sku: draft.sku.trim() || null,
+      list_price: draft.price ? toMinorUnits(draft.price) : null,
+      stock_quantity: parseInt(draft.stock) || 0,
+      image_url: draft.imageUrl || null,
+      position
+    };
+  });
+};
+
+// Variants are matched by name, so carts and orders that point at a variant
+// keep pointing at it; combinations no longer offered are removed.
+export const saveProductVariants = async (
+  productId: string,
+  values: ProductFormValues,
+  existing: ProductVariant[]
+) => {
+  const rows = toVariantRows(productId, values);
+  const existingByName = new Map(existing.map(variant => [variant.name, variant]));
+  const kept = new Set(rows.map(row => row.name));
+
+  const removed = existing.filter(variant => !kept.has(variant.name)).map(variant => variant.id);
+  if (removed.length > 0) {
+    const { error } = await supabase.from('product_variants').delete().in('id', removed);
+    if (error) throw error;
+  }
+
+  for (const row of rows) {
+    const variant = existingByName.get(row.name);
+    const { error } = variant
+      ? await supabase.from('product_variants').update(row).eq('id', variant.id)
+      : await supabase.from('product_variants').insert(row);
+    if (error) throw error;
+  }
+};
+
+// Image rows carry nothing else that points at them, so they are simply
+// replaced in the seller's new order
+export const saveProductImages = async (productId: string, images: ProductImageDraft[]) => {
+  const { error: deleteError } = await supabase.from('product_images').delete().eq('product_id', productId);
+  if (deleteError) throw deleteError;
+
+  if (images.length === 0) return;
+
+  const { error } = await supabase.from('product_images').insert(toProductImageRows(productId, images));
+  if (error) throw error;
+};
@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type ProductImage = Tables<'product_images'>;
+
+export const PRODUCT_IMAGES_BUCKET = 'product-images';
+
+// Longest side in pixels
+const FULL_SIZE = 1600;
+const THUMBNAIL_SIZE = 400;
+const JPEG_QUALITY = 0.85;
+
+// An uploaded image not yet (or already) saved against a product
+export interface ProductImageUpload {
+  storage_path: string;
+  thumbnail_path: string;
+  url: string;
+  thumbnail_url: string;
+}
+
+// Scale down to fit within maxSize, never up, and re-encode as JPEG. This
+// also drops EXIF data, including any location the photo was taken at.
+const resizeImage = async (file: File, maxSize: number): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process the image');
+  // JPEG has no transparency; keep transparent PNGs on white rather than black
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Could not process the image')),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+const uploadBlob = async (path: string, blob: Blob) => {
+  const { error } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .upload(path, blob, { contentType: 'image/jpeg', cacheControl: '31536000' });
+
+  if (error) throw error;
+  return supabase.storage.from(PRODUCT_IMAGES_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Storage policies only let sellers write under their own user id
+export const uploadProductImage = async (sellerId: string, file: File): Promise<ProductImageUpload> => {
+  const [full, thumbnail] = await Promise.all([
+    resizeImage(file, FULL_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE)
+  ]);
+
+  const id = crypto.randomUUID();
+  const storagePath = `${sellerId}/${id}.jpg`;
+  const thumbnailPath = `${sellerId}/${id}-thumb.jpg`;
+
+  const url = await uploadBlob(storagePath, full);
+  const thumbnailUrl = await uploadBlob(thumbnailPath, thumbnail);
+
+  return {
+    storage_path: storagePath,
+    thumbnail_path: thumbnailPath,
+    url,
+    thumbnail_url: thumbnailUrl
+  };
+};
+
+export const removeProductImageFiles = async (images: ProductImageUpload[]) => {
+  if (images.length === 0) return;
+
+  const { error } = await supabase.storage
+    .from(PRODUCT_IMAGES_BUCKET)
+    .remove(images.flatMap(image => [image.storage_path, image.thumbnail_path]));
+
+  if (error) throw error;
+};
+
+export interface ProductImageDraft extends ProductImageUpload {
+  is_cover: boolean;
+}
+
+// Rows for product_images, in the order the seller arranged them
+export const toProductImageRows = (productId: string, images: ProductImageDraft[]) =>
+  images.map((image, position) => ({
+    product_id: productId,
+    storage_path: image.storage_path,
+    thumbnail_path: image.thumbnail_path,
+    url: image.url,
+    thumbnail_url: image.thumbnail_url,
+    is_cover: image.is_cover,
+    position
+  }));
+
+// The image listings show, as products.image_url
+export const getCoverImage = (images: ProductImageDraft[]) =>
+  images.find(image => image.is_cover) ?? images[0];
@@ -0,0 +1,62 @@
+import { Json, Tables } from '@/integrations/supabase/types';
+import { formatMoney, MinorUnits } from '@/lib/money';
+
+export type Promotion = Tables<'promotions'>;
+
+export type DiscountType = 'percentage' | 'fixed';
+
+export type PromotionRejection =
+  | 'not_found'
+  | 'not_started'
+  | 'expired'
+  | 'no_eligible_items'
+  | 'below_minimum'
+  | 'usage_limit'
+  | 'user_limit';
+
+// A quote_promotion result. Valid quotes carry the discount; rejected ones
+// carry the reason.
+export interface PromotionQuote {
+  valid: boolean;
+  code: string;
+  promotion_id?: string;
+  seller_id?: string | null;
+  discount_type?: DiscountType;
+  discount_value?: number;
+  eligible_subtotal?: MinorUnits;
+  discount_amount?: MinorUnits;
+  reason?: PromotionRejection;
+  min_order_amount?: MinorUnits | null;
+}
+
+export const parsePromotionQuote = (quote: Json): PromotionQuote =>
+  quote as unknown as PromotionQuote;
+
+// Codes are stored upper-case without surrounding spaces
+export const normalizePromotionCode = (code: string) => code.trim().toUpperCase();
+
+export const describePromotion = (promotion: Pick<Promotion, 'discount_type' | 'discount_value'>) =>
+  promotion.discount_type === 'percentage'
+    ? `${promotion.discount_value}% off`
+    : `${formatMoney(promotion.discount_value)} off`;
+
+export const describePromotionRejection = (
+  quote: PromotionQuote,
+  format: (amount: MinorUnits) => string = formatMoney
+) => {
+  switch (quote.reason) {
+    case 'not_started':
+      return `Code ${quote.code} is not active yet`;
+    case 'expired':
+      return `Code ${quote.code} has expired`;
+    case 'no_eligible_items':
+      return `Code ${quote.code} doesn't apply to anything in your cart`;
+    case 'below_minimum':
+      return `Code ${quote.code} needs an order of at least ${format(Number(quote.min_order_amount))}`;
+    case 'usage_limit':
+    case 'user_limit':
+      return `Code ${quote.code} has already been used up`;
+    default:
+      return `Code ${quote.code} is not valid`;
+  }
+};
@@ -0,0 +1,20 @@
+// search_products marks matched words with these control characters instead
+// of HTML tags, so highlighted text can be rendered without innerHTML
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export const splitHighlights = (text: string): HighlightSegment[] =>
+  text
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      // Every part after the first opened with a highlight
+      if (index === 0) return [{ text: part, highlighted: false }];
+      const [highlighted, rest = ''] = part.split(HIGHLIGHT_END);
+      return [{ text: highlighted, highlighted: true }, { text: rest, highlighted: false }];
+    })
+    .filter(segment => segment.text !== '');
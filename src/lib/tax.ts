@@ -0,0 +1,18 @@
+import { Json } from '@/integrations/supabase/types';
+import { MinorUnits } from '@/lib/money';
+
+// One cart line of a quote_tax result; tax_rate is a percent
+export interface TaxLineQuote {
+  product_id: string;
+  variant_id: string | null;
+  tax_rate: number;
+  tax_amount: MinorUnits;
+}
+
+export interface TaxQuote {
+  tax_amount: MinorUnits;
+  lines: TaxLineQuote[];
+}
+
+export const parseTaxQuote = (quote: Json): TaxQuote =>
+  quote as unknown as TaxQuote;
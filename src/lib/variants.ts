@@ -0,0 +1,74 @@
+import { Json, Tables } from '@/integrations/supabase/types';
+import { MinorUnits } from '@/lib/money';
+
+export type ProductVariant = Tables<'product_variants'>;
+
+// An axis buyers pick a variant by, e.g. Size: S, M, L
+export interface VariantOption {
+  name: string;
+  values: string[];
+}
+
+// One value per axis, e.g. { Size: 'M', Color: 'Red' }
+export type VariantSelection = Record<string, string>;
+
+export const parseVariantOptions = (options: Json | undefined): VariantOption[] =>
+  Array.isArray(options) ? (options as unknown as VariantOption[]) : [];
+
+export const parseVariantSelection = (options: Json): VariantSelection =>
+  options as unknown as VariantSelection;
+
+// The values in axis order, e.g. "M / Red"
+export const describeVariant = (axes: VariantOption[], selection: VariantSelection) =>
+  axes.map(axis => selection[axis.name]).filter(Boolean).join(' / ');
+
+// Every combination of the axes' values: S / Red, S / Blue, M / Red, ...
+export const buildVariantMatrix = (axes: VariantOption[]): VariantSelection[] =>
+  axes.reduce<VariantSelection[]>(
+    (combinations, axis) => combinations.flatMap(combination =>
+      axis.values.map(value => ({ ...combination, [axis.name]: value }))
+    ),
+    [{}]
+  );
+
+export const findVariant = (variants: ProductVariant[], selection: VariantSelection) =>
+  variants.find(variant => {
+    const options = parseVariantSelection(variant.options);
+    return Object.keys(options).length === Object.keys(selection).length
+      && Object.entries(options).every(([axis, value]) => selection[axis] === value);
+  });
+
+// Variants without a price of their own sell at the product's price
+export const getVariantPrice = (
+  product: { price: MinorUnits },
+  variant?: { price: MinorUnits | null } | null
+): MinorUnits => variant?.price ?? product.price;
+
+// Units held by unpaid orders can't be bought
+export const getAvailableStock = (stock: { stock_quantity: number; reserved_quantity?: number | null }) =>
+  Math.max(stock.stock_quantity - (stock.reserved_quantity || 0), 0);
+
+// What a seller types for an axis: its name and comma-separated values
+export interface VariantAxisDraft {
+  name: string;
+  values: string;
+}
+
+// What a seller types for one row of the variant matrix
+export interface VariantDraft {
+  sku: string;
+  price: string;
+  stock: string;
+  imageUrl: string;
+}
+
+export const emptyVariantDraft: VariantDraft = { sku: '', price: '', stock: '0', imageUrl: '' };
+
+// Drops unnamed axes and blank or repeated values
+export const toVariantOptions = (drafts: VariantAxisDraft[]): VariantOption[] =>
+  drafts
+    .map(draft => ({
+      name: draft.name.trim(),
+      values: [...new Set(draft.values.split(',').map(value => value.trim()).filter(Boolean))]
+    }))
+    .filter(axis => axis.name && axis.values.length > 0);
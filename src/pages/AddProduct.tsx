@@ -2,25 +2,22 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Layout } from '@/components/Layout';
+import { ProductForm } from '@/components/ProductForm';
 import { useToast } from '@/hooks/use-toast';
+import { toProductImageRows } from '@/lib/product-images';
+import { ProductFormValues, emptyProductForm, toProductRow, toVariantRows } from '@/lib/product-form';
 import { ArrowLeft } from 'lucide-react';
 
 const AddProduct = () => {
-  const [name, setName] = useState('');
-  const [description, setDescription] = useState('');
-  const [price, setPrice] = useState('');
-  const [stockQuantity, setStockQuantity] = useState('');
-  const [category, setCategory] = useState('');
-  const [imageUrl, setImageUrl] = useState('');
   const [loading, setLoading] = useState(false);
   
   const { user, userRole } = useAuth();
+  // Sellers price in their own currency; the base price is derived from it
+  const { displayCurrency } = useCurrency();
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -29,33 +26,50 @@ const AddProduct = () => {
     return null;
   }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleSubmit = async (values: ProductFormValues) => {
     setLoading(true);
 
     try {
-      const { error } = await supabase
+      const { data: product, error } = await supabase
         .from('products')
-        .insert({
-          seller_id: user.id,
-          name,
-          description,
-          price: parseFloat(price),
-          stock_quantity: parseInt(stockQuantity),
-          category,
-          image_url: imageUrl || null
-        });
+        .insert({ seller_id: user.id, ...toProductRow(values) })
+        .select('id')
+        .single();
 
       if (error) {
         throw error;
       }
 
+      if (values.images.length > 0) {
+        const { error: imagesError } = await supabase
+          .from('product_images')
+          .insert(toProductImageRows(product.id, values.images));
+
+        if (imagesError) {
+          await supabase.from('products').delete().eq('id', product.id);
+          throw imagesError;
+        }
+      }
+
+      const variants = toVariantRows(product.id, values);
+      if (variants.length > 0) {
+        const { error: variantsError } = await supabase
+          .from('product_variants')
+          .insert(variants);
+
+        if (variantsError) {
+          // Don't leave a product behind that can't be bought
+          await supabase.from('products').delete().eq('id', product.id);
+          throw variantsError;
+        }
+      }
+
       toast({
         title: "Success",
         description: "Product added successfully!"
       });
 
-      navigate('/seller/dashboard');
+      navigate('/seller/products');
     } catch (error: any) {
       toast({
         title: "Error",
@@ -71,7 +85,7 @@ const AddProduct = () => {
     <Layout>
       <div className="max-w-2xl mx-auto">
         <div className="flex items-center space-x-4 mb-8">
-          <Button variant="outline" size="icon" onClick={() => navigate('/seller/dashboard')}>
+          <Button variant="outline" size="icon" onClick={() => navigate('/seller/products')}>
             <ArrowLeft className="w-4 h-4" />
           </Button>
           <div>
@@ -85,95 +99,15 @@ const AddProduct = () => {
             <CardTitle>Product Details</CardTitle>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="name">Product Name *</Label>
-                <Input
-                  id="name"
-                  type="text"
-                  placeholder="Enter product name"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  placeholder="Enter product description"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  rows={4}
-                />
-              </div>
-
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="price">Price *</Label>
-                  <Input
-                    id="price"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    placeholder="0.00"
-                    value={price}
-                    onChange={(e) => setPrice(e.target.value)}
-                    required
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="stockQuantity">Stock Quantity *</Label>
-                  <Input
-                    id="stockQuantity"
-                    type="number"
-                    min="0"
-                    placeholder="0"
-                    value={stockQuantity}
-                    onChange={(e) => setStockQuantity(e.target.value)}
-                    required
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Input
-                  id="category"
-                  type="text"
-                  placeholder="e.g., Electronics, Clothing, Books"
-                  value={category}
-                  onChange={(e) => setCategory(e.target.value)}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="imageUrl">Image URL</Label>
-                <Input
-                  id="imageUrl"
-                  type="url"
-                  placeholder="https://example.com/image.jpg"
-                  value={imageUrl}
-                  onChange={(e) => setImageUrl(e.target.value)}
-                />
-              </div>
-
-              <div className="flex gap-4">
-                <Button type="submit" disabled={loading} className="flex-1">
-                  {loading ? 'Adding Product...' : 'Add Product'}
-                </Button>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => navigate('/seller/dashboard')}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-              </div>
-            </form>
+            <ProductForm
+              sellerId={user.id}
+              initialValues={emptyProductForm(displayCurrency)}
+              submitLabel="Add Product"
+              submittingLabel="Adding Product..."
+              loading={loading}
+              onSubmit={handleSubmit}
+              onCancel={() => navigate('/seller/products')}
+            />
           </CardContent>
         </Card>
       </div>
@@ -181,4 +115,4 @@ const AddProduct = () => {
   );
 };
 
-export default AddProduct;
\ No newline at end of file
+export default AddProduct;
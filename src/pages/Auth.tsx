@@ -5,7 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, UserRole } from '@/contexts/AuthContext';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
@@ -14,7 +14,7 @@ const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'seller' | 'buyer'>('buyer');
+  const [role, setRole] = useState<UserRole>('buyer');
   const [loading, setLoading] = useState(false);
   const [resetEmail, setResetEmail] = useState('');
   const [resetLoading, setResetLoading] = useState(false);
@@ -162,7 +162,7 @@ const Auth = () => {
                 </div>
                 <div className="space-y-2">
                   <Label>Account Type</Label>
-                  <RadioGroup value={role} onValueChange={(value) => setRole(value as 'seller' | 'buyer')}>
+                  <RadioGroup value={role} onValueChange={(value) => setRole(value as UserRole)}>
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="buyer" id="buyer" />
                       <Label htmlFor="buyer">Buyer - I want to shop</Label>
@@ -171,6 +171,10 @@ const Auth = () => {
                       <RadioGroupItem value="seller" id="seller" />
                       <Label htmlFor="seller">Seller - I want to sell products</Label>
                     </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="driver" id="driver" />
+                      <Label htmlFor="driver">Driver - I deliver for a seller</Label>
+                    </div>
                   </RadioGroup>
                 </div>
                 <Button type="submit" className="w-full" disabled={loading}>
@@ -6,27 +6,16 @@ import { Badge } from '@/components/ui/badge';
 import { Minus, Plus, Trash2, ShoppingCart } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { Layout } from '@/components/Layout';
+import { getVariantPrice } from '@/lib/variants';
 
 const Cart = () => {
   const { cartItems, cartTotal, updateQuantity, removeFromCart } = useCart();
   const { user } = useAuth();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
 
-  if (!user) {
-    return (
-      <Layout>
-        <div className="text-center py-12">
-          <ShoppingCart className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
-          <h2 className="text-2xl font-bold mb-2">Please log in to view your cart</h2>
-          <Link to="/auth">
-            <Button>Sign In</Button>
-          </Link>
-        </div>
-      </Layout>
-    );
-  }
-
   if (cartItems.length === 0) {
     return (
       <Layout>
@@ -42,8 +31,9 @@ const Cart = () => {
     );
   }
 
+  // The cart is merged into the account on sign-in
   const handleCheckout = () => {
-    navigate('/checkout');
+    navigate(user ? '/checkout' : '/auth');
   };
 
   return (
@@ -58,21 +48,24 @@ const Cart = () => {
                 <CardContent className="p-6">
                   <div className="flex items-center space-x-4">
                     <img
-                      src={item.product.image_url}
+                      src={item.variant?.image_url || item.product.image_url}
                       alt={item.product.name}
                       className="w-20 h-20 object-cover rounded-md"
                     />
                     <div className="flex-grow">
                       <h3 className="font-semibold text-lg">{item.product.name}</h3>
+                      {item.variant && (
+                        <p className="text-sm text-muted-foreground">{item.variant.name}</p>
+                      )}
                       <p className="text-xl font-bold text-primary">
-                        ${item.product.price.toFixed(2)}
+                        {formatPrice(getVariantPrice(item.product, item.variant))}
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => updateQuantity(item.product_id, item.quantity - 1)}
+                        onClick={() => updateQuantity(item.product_id, item.quantity - 1, item.variant_id)}
                       >
                         <Minus className="w-4 h-4" />
                       </Button>
@@ -80,7 +73,7 @@ const Cart = () => {
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => updateQuantity(item.product_id, item.quantity + 1)}
+                        onClick={() => updateQuantity(item.product_id, item.quantity + 1, item.variant_id)}
                       >
                         <Plus className="w-4 h-4" />
                       </Button>
@@ -88,7 +81,7 @@ const Cart = () => {
                     <Button
                       variant="destructive"
                       size="sm"
-                      onClick={() => removeFromCart(item.product_id)}
+                      onClick={() => removeFromCart(item.product_id, item.variant_id)}
                     >
                       <Trash2 className="w-4 h-4" />
                     </Button>
@@ -106,20 +99,24 @@ const Cart = () => {
               <CardContent className="space-y-4">
                 <div className="flex justify-between text-lg">
                   <span>Subtotal:</span>
-                  <span>${cartTotal.toFixed(2)}</span>
+                  <span>{formatPrice(cartTotal)}</span>
                 </div>
                 <div className="flex justify-between text-lg">
                   <span>Shipping:</span>
-                  <span>Free</span>
+                  <span>Calculated at checkout</span>
+                </div>
+                <div className="flex justify-between text-lg">
+                  <span>Tax:</span>
+                  <span>Calculated at checkout</span>
                 </div>
                 <div className="border-t pt-4">
                   <div className="flex justify-between text-xl font-bold">
                     <span>Total:</span>
-                    <span>${cartTotal.toFixed(2)}</span>
+                    <span>{formatPrice(cartTotal)}</span>
                   </div>
                 </div>
                 <Button onClick={handleCheckout} className="w-full" size="lg">
-                  Proceed to Checkout
+                  {user ? 'Proceed to Checkout' : 'Sign In to Checkout'}
                 </Button>
                 <Link to="/">
                   <Button variant="outline" className="w-full">
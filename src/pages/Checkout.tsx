@@ -1,47 +1,269 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Layout } from '@/components/Layout';
-import { CreditCard, Truck } from 'lucide-react';
-import MapLocationPicker from '@/components/MapLocationPicker';
+import { CreditCard, MapPin, Tag, Truck, X } from 'lucide-react';
+import { AddressForm } from '@/components/AddressForm';
+import { getFunctionErrorBody, StockShortage } from '@/lib/edge-functions';
+import { DeliveryQuote, describeUndeliverable, parseDeliveryQuote } from '@/lib/delivery';
+import {
+  PromotionQuote,
+  describePromotionRejection,
+  normalizePromotionCode,
+  parsePromotionQuote
+} from '@/lib/promotions';
+import { TaxQuote, parseTaxQuote } from '@/lib/tax';
+import { BASE_CURRENCY } from '@/lib/money';
+import { getVariantPrice } from '@/lib/variants';
+import {
+  ShippingAddress,
+  UserAddress,
+  emptyShippingAddress,
+  formatAddress,
+  isCompleteAddress,
+  toAddressFields,
+  toShippingAddress
+} from '@/lib/address';
 
 const Checkout = () => {
-  const [shippingAddress, setShippingAddress] = useState('');
+  const [savedAddresses, setSavedAddresses] = useState<UserAddress[]>([]);
+  // A saved address id, or 'new' to enter one
+  const [selectedAddressId, setSelectedAddressId] = useState('new');
+  const [newAddress, setNewAddress] = useState<ShippingAddress>(emptyShippingAddress);
+  const [saveNewAddress, setSaveNewAddress] = useState(true);
   const [paymentMethod, setPaymentMethod] = useState('cash');
   const [loading, setLoading] = useState(false);
-  const { cartItems, cartTotal, clearCart } = useCart();
+  const [shortages, setShortages] = useState<StockShortage[]>([]);
+  const [quote, setQuote] = useState<DeliveryQuote | null>(null);
+  const [promotionInput, setPromotionInput] = useState('');
+  const [appliedCode, setAppliedCode] = useState<string | null>(null);
+  const [promotion, setPromotion] = useState<PromotionQuote | null>(null);
+  const [taxQuote, setTaxQuote] = useState<TaxQuote | null>(null);
+  const { cartItems, cartTotal, loadCart } = useCart();
   const { user } = useAuth();
+  const { displayCurrency, formatPrice } = useCurrency();
   const { toast } = useToast();
   const navigate = useNavigate();
 
+  useEffect(() => {
+    if (user) {
+      loadAddresses();
+    }
+  }, [user]);
+
+  // Preselect the default address, if there is one
+  const loadAddresses = async () => {
+    const { data, error } = await supabase
+      .from('user_addresses')
+      .select('*')
+      .eq('user_id', user?.id)
+      .order('is_default', { ascending: false })
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading addresses:', error);
+      return;
+    }
+
+    setSavedAddresses(data || []);
+    if (data && data.length > 0) {
+      setSelectedAddressId((data.find(a => a.is_default) || data[0]).id);
+    }
+  };
+
+  const selectedAddress = savedAddresses.find(a => a.id === selectedAddressId);
+  const shippingAddress = selectedAddress ? toShippingAddress(selectedAddress) : newAddress;
+
+  // Only products, variants and quantities are sent; the server looks up
+  // prices and stock
+  const orderLines = cartItems.map(item => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    quantity: item.quantity
+  }));
+
+  // Delivery fees depend only on the pinned location and what's in the cart
+  const quoteKey = JSON.stringify([shippingAddress.latitude, shippingAddress.longitude, orderLines]);
+
+  useEffect(() => {
+    if (orderLines.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadQuote = async () => {
+      const { data, error } = await supabase.rpc('quote_delivery', {
+        p_items: orderLines,
+        p_address: { latitude: shippingAddress.latitude, longitude: shippingAddress.longitude }
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error quoting delivery:', error);
+        setQuote(null);
+      } else {
+        setQuote(parseDeliveryQuote(data));
+      }
+    };
+
+    loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteKey]);
+
+  const deliveryFee = quote?.delivery_fee ?? 0;
+  const undeliverable = quote?.sellers.filter(seller => !seller.deliverable) ?? [];
+
+  // Re-check an applied code whenever the cart changes, since minimum spend
+  // and seller-only codes depend on what's in it
+  const promotionKey = JSON.stringify([appliedCode, orderLines]);
+
+  useEffect(() => {
+    if (!appliedCode || orderLines.length === 0) {
+      setPromotion(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPromotion = async () => {
+      const { data, error } = await supabase.rpc('quote_promotion', {
+        p_code: appliedCode,
+        p_items: orderLines
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error checking discount code:', error);
+        setPromotion(null);
+      } else {
+        setPromotion(parsePromotionQuote(data));
+      }
+    };
+
+    loadPromotion();
+    return () => {
+      cancelled = true;
+    };
+  }, [promotionKey]);
+
+  const discount = promotion?.valid ? promotion.discount_amount ?? 0 : 0;
+  // Only a code that currently applies is sent; the server checks it again
+  const promotionCode = promotion?.valid ? promotion.code : undefined;
+
+  // Tax depends on where the order goes, what's in it and any discount
+  const taxKey = JSON.stringify([shippingAddress.country, shippingAddress.city, orderLines, promotionCode]);
+
+  useEffect(() => {
+    if (orderLines.length === 0) {
+      setTaxQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const loadTax = async () => {
+      const { data, error } = await supabase.rpc('quote_tax', {
+        p_items: orderLines,
+        p_address: { country: shippingAddress.country, city: shippingAddress.city },
+        p_promotion_code: promotionCode
+      });
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error quoting tax:', error);
+        setTaxQuote(null);
+      } else {
+        setTaxQuote(parseTaxQuote(data));
+      }
+    };
+
+    loadTax();
+    return () => {
+      cancelled = true;
+    };
+  }, [taxKey]);
+
+  const tax = taxQuote?.tax_amount ?? 0;
+
+  const applyPromotion = () => {
+    const code = normalizePromotionCode(promotionInput);
+    if (code) {
+      setAppliedCode(code);
+    }
+  };
+
+  const removePromotion = () => {
+    setAppliedCode(null);
+    setPromotionInput('');
+  };
+
+  // Adds an address typed in at checkout to the address book
+  const saveAddressToBook = async () => {
+    if (!user || selectedAddress || !saveNewAddress) return;
+
+    const { error } = await supabase
+      .from('user_addresses')
+      .insert({
+        ...toAddressFields(shippingAddress),
+        user_id: user.id,
+        is_default: savedAddresses.length === 0
+      });
+
+    if (error) {
+      console.error('Error saving address:', error);
+    }
+  };
+
   const handlePlaceOrder = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
+
+    if (!isCompleteAddress(shippingAddress)) {
+      toast({
+        title: "Error",
+        description: "Please enter a street, city and country for delivery.",
+        variant: "destructive"
+      });
+      return;
+    }
     
     setLoading(true);
+    setShortages([]);
+
+    const failWith = async (error: unknown, fallback: string) => {
+      const body = await getFunctionErrorBody(error);
+      setShortages(body?.shortages || []);
+      throw new Error(body?.error || fallback);
+    };
     
     try {
       if (paymentMethod === 'card') {
         // Handle Stripe payment
         const { data, error } = await supabase.functions.invoke('create-payment', {
           body: {
-            amount: Math.round(cartTotal * 100), // Convert to cents
-            currency: 'usd',
+            currency: displayCurrency,
             shipping_address: shippingAddress,
-            cart_items: cartItems
+            cart_items: orderLines,
+            promotion_code: promotionCode
           }
         });
 
-        if (error) throw error;
+        if (error) {
+          await failWith(error, 'Failed to start payment. Please try again.');
+        }
+
+        await saveAddressToBook();
         
         // Redirect to Stripe Checkout
         window.open(data.url, '_blank');
@@ -51,59 +273,24 @@ const Checkout = () => {
           description: "You'll be redirected to complete your payment."
         });
       } else {
-        // Handle cash on delivery
-        console.log('Creating cash order for user:', user.id);
-        console.log('Cart items:', cartItems);
-        console.log('Cart total:', cartTotal);
-        console.log('Shipping address:', shippingAddress);
-        
-        const { data: order, error: orderError } = await supabase
-          .from('orders')
-          .insert({
-            user_id: user.id,
-            total_amount: cartTotal,
+        // Handle cash on delivery - the server prices the cart and creates the order
+        const { error } = await supabase.functions.invoke('place-order', {
+          body: {
+            currency: displayCurrency,
             shipping_address: shippingAddress,
-            payment_method: 'cash',
-            status: 'pending'
-          })
-          .select()
-          .single();
-
-        if (orderError) {
-          console.error('Order creation error:', orderError);
-          throw orderError;
-        }
-
-        console.log('Order created successfully:', order);
-
-        // Create order items
-        const orderItems = cartItems.map(item => ({
-          order_id: order.id,
-          product_id: item.product_id,
-          quantity: item.quantity,
-          price: item.product.price
-        }));
-
-        console.log('Inserting order items:', orderItems);
-
-        const { error: itemsError } = await supabase
-          .from('order_items')
-          .insert(orderItems);
+            cart_items: orderLines,
+            promotion_code: promotionCode
+          }
+        });
 
-        if (itemsError) {
-          console.error('Order items creation error:', itemsError);
-          throw itemsError;
+        if (error) {
+          await failWith(error, 'Failed to place order. Please try again.');
         }
 
-        console.log('Order items created successfully');
+        await saveAddressToBook();
 
-        // Notify sellers
-        await supabase.functions.invoke('notify-sellers', {
-          body: { order_id: order.id }
-        });
-
-        // Clear cart
-        await clearCart();
+        // The server has already emptied the cart; refresh the local copy
+        await loadCart();
 
         toast({
           title: "Order placed successfully!",
@@ -116,7 +303,7 @@ const Checkout = () => {
       console.error('Error placing order:', error);
       toast({
         title: "Error",
-        description: "Failed to place order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to place order. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -135,10 +322,49 @@ const Checkout = () => {
         <h1 className="text-3xl font-bold mb-8">Checkout</h1>
         
         <form onSubmit={handlePlaceOrder} className="space-y-6">
-          <MapLocationPicker
-            onLocationSelect={(address) => setShippingAddress(address)}
-            initialAddress={shippingAddress}
-          />
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="w-5 h-5" />
+                Delivery Address
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <RadioGroup value={selectedAddressId} onValueChange={setSelectedAddressId} className="space-y-3">
+                {savedAddresses.map((address) => (
+                  <div key={address.id} className="flex items-start space-x-2">
+                    <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                    <Label htmlFor={`address-${address.id}`} className="cursor-pointer">
+                      <span className="font-medium">{address.label || address.line1}</span>
+                      <span className="block text-sm font-normal text-muted-foreground">
+                        {formatAddress(address)}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+                {savedAddresses.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="new" id="address-new" />
+                    <Label htmlFor="address-new" className="cursor-pointer">Use a new address</Label>
+                  </div>
+                )}
+              </RadioGroup>
+
+              {!selectedAddress && (
+                <>
+                  <AddressForm value={newAddress} onChange={setNewAddress} idPrefix="checkout-address" />
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="saveAddress"
+                      checked={saveNewAddress}
+                      onCheckedChange={(checked) => setSaveNewAddress(checked === true)}
+                    />
+                    <Label htmlFor="saveAddress" className="cursor-pointer">Save to my address book</Label>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
 
           <Card>
             <CardHeader>
@@ -146,19 +372,94 @@ const Checkout = () => {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="flex justify-between">
-                    <span>
-                      {item.product.name} x {item.quantity}
-                    </span>
-                    <span>${(item.product.price * item.quantity).toFixed(2)}</span>
+                {cartItems.map((item) => {
+                  const shortage = shortages.find(s =>
+                    s.product_id === item.product_id && (s.variant_id ?? null) === item.variant_id
+                  );
+                  return (
+                    <div key={item.id}>
+                      <div className="flex justify-between">
+                        <span>
+                          {item.product.name}{item.variant && ` (${item.variant.name})`} x {item.quantity}
+                        </span>
+                        <span>{formatPrice(getVariantPrice(item.product, item.variant) * item.quantity)}</span>
+                      </div>
+                      {shortage && (
+                        <p className="text-sm text-destructive">
+                          {shortage.available === 0
+                            ? 'Out of stock - please remove it from your cart'
+                            : `Only ${shortage.available} available - please reduce the quantity`}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+                <div className="border-t pt-4 space-y-2">
+                  {appliedCode ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <Tag className="w-4 h-4" />
+                        {appliedCode}
+                      </span>
+                      <Button type="button" size="sm" variant="ghost" onClick={removePromotion}>
+                        <X className="w-4 h-4 mr-1" />
+                        Remove
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Discount code"
+                        value={promotionInput}
+                        onChange={(e) => setPromotionInput(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            applyPromotion();
+                          }
+                        }}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={applyPromotion}
+                        disabled={!promotionInput.trim()}
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  )}
+                  {promotion && !promotion.valid && (
+                    <p className="text-sm text-destructive">{describePromotionRejection(promotion, formatPrice)}</p>
+                  )}
+                  {discount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discount</span>
+                      <span>-{formatPrice(discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Delivery</span>
+                    <span>{deliveryFee > 0 ? formatPrice(deliveryFee) : 'Free'}</span>
+                  </div>
+                  {undeliverable.map((seller) => (
+                    <p key={seller.seller_id} className="text-sm text-destructive">
+                      {describeUndeliverable(seller, formatPrice)}
+                    </p>
+                  ))}
+                  <div className="flex justify-between">
+                    <span>Tax</span>
+                    <span>{formatPrice(tax)}</span>
                   </div>
-                ))}
-                <div className="border-t pt-4">
                   <div className="flex justify-between text-xl font-bold">
                     <span>Total:</span>
-                    <span>${cartTotal.toFixed(2)}</span>
+                    <span>{formatPrice(cartTotal - discount + deliveryFee + tax)}</span>
                   </div>
+                  {displayCurrency !== BASE_CURRENCY && (
+                    <p className="text-sm text-muted-foreground">
+                      You'll pay in {displayCurrency} at today's exchange rate.
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -197,7 +498,7 @@ const Checkout = () => {
             type="submit" 
             className="w-full" 
             size="lg"
-            disabled={loading || cartItems.length === 0}
+            disabled={loading || cartItems.length === 0 || undeliverable.length > 0}
           >
             {loading ? 'Processing...' : 
              paymentMethod === 'card' ? 'Pay with Card' : 'Place Order (Cash)'}
@@ -1,31 +1,122 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Package, ShoppingBag, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Package, ShoppingBag, User, MapPin } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Layout } from '@/components/Layout';
+import { LiveDeliveryMap } from '@/components/LiveDeliveryMap';
+import { AddressBook } from '@/components/AddressBook';
 import { useNavigate } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { getStatusColor, getStatusLabel } from '@/lib/order-status';
+import { formatOrderMoney, MinorUnits } from '@/lib/money';
+import { useCurrency } from '@/contexts/CurrencyContext';
 
 interface Order {
   id: string;
-  total_amount: number;
+  total_amount: MinorUnits;
+  delivery_fee: MinorUnits;
+  discount_amount: MinorUnits;
+  promotion_code: string | null;
+  tax_amount: MinorUnits;
+  currency: string;
+  exchange_rate: number;
   status: string;
+  payment_method: string;
+  shipping_address: string | null;
+  shipping_latitude: number | null;
+  shipping_longitude: number | null;
   created_at: string;
   order_items: {
+    fulfillment_id: string;
     quantity: number;
-    price: number;
+    price: MinorUnits;
+    variant_name: string | null;
     product: {
       name: string;
     };
   }[];
+  order_fulfillments: {
+    id: string;
+    status: string;
+    driver_assigned: boolean;
+    estimated_delivery: string | null;
+  }[];
+  order_status_history: {
+    id: string;
+    fulfillment_id: string | null;
+    to_status: string;
+    note: string | null;
+    created_at: string;
+  }[];
 }
 
 const Dashboard = () => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [trackingId, setTrackingId] = useState<string | null>(null);
   const { user, userRole } = useAuth();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadOrders = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        id,
+        total_amount,
+        delivery_fee,
+        discount_amount,
+        promotion_code,
+        tax_amount,
+        currency,
+        exchange_rate,
+        status,
+        payment_method,
+        shipping_address,
+        shipping_latitude,
+        shipping_longitude,
+        created_at,
+        order_items (
+          fulfillment_id,
+          quantity,
+          price,
+          variant_name,
+          product:products (
+            name
+          )
+        ),
+        order_fulfillments (
+          id,
+          status,
+          driver_assigned,
+          estimated_delivery
+        ),
+        order_status_history (
+          id,
+          fulfillment_id,
+          to_status,
+          note,
+          created_at
+        )
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .order('created_at', { referencedTable: 'order_status_history', ascending: true });
+
+    if (error) {
+      console.error('Error loading orders:', error);
+    } else {
+      setOrders(data || []);
+    }
+    setLoading(false);
+  };
 
   useEffect(() => {
     // Redirect sellers to seller dashboard
@@ -34,38 +125,39 @@ const Dashboard = () => {
       return;
     }
 
-    const loadOrders = async () => {
-      if (!user) return;
-
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          total_amount,
-          status,
-          created_at,
-          order_items (
-            quantity,
-            price,
-            product:products (
-              name
-            )
-          )
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error loading orders:', error);
-      } else {
-        setOrders(data || []);
-      }
-      setLoading(false);
-    };
+    // Drivers only see their deliveries
+    if (user && userRole === 'driver') {
+      navigate('/driver');
+      return;
+    }
 
     loadOrders();
   }, [user]);
 
+  const cancelOrder = async (orderId: string) => {
+    setCancellingId(orderId);
+    try {
+      const { error } = await supabase.rpc('cancel_order', { p_order_id: orderId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Order cancelled",
+        description: "Your order has been cancelled."
+      });
+      await loadOrders();
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel order. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   if (!user) {
     return (
       <Layout>
@@ -76,21 +168,6 @@ const Dashboard = () => {
     );
   }
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800';
-      case 'shipped':
-        return 'bg-purple-100 text-purple-800';
-      case 'delivered':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   return (
     <Layout>
       <div className="max-w-6xl mx-auto">
@@ -120,7 +197,7 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">
-                ${orders.reduce((total, order) => total + order.total_amount, 0).toFixed(2)}
+                {formatPrice(orders.reduce((total, order) => total + order.total_amount, 0))}
               </div>
             </CardContent>
           </Card>
@@ -143,6 +220,10 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        <div className="mb-8">
+          <AddressBook />
+        </div>
+
         <Card>
           <CardHeader>
             <CardTitle>Order History</CardTitle>
@@ -167,21 +248,112 @@ const Dashboard = () => {
                       </div>
                       <div className="text-right">
                         <Badge className={getStatusColor(order.status)}>
-                          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                          {getStatusLabel(order.status)}
                         </Badge>
                         <p className="text-lg font-bold mt-1">
-                          ${order.total_amount.toFixed(2)}
+                          {formatOrderMoney(order.total_amount, order)}
                         </p>
+                        {order.delivery_fee > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            incl. {formatOrderMoney(order.delivery_fee, order)} delivery
+                          </p>
+                        )}
+                        {order.tax_amount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            incl. {formatOrderMoney(order.tax_amount, order)} tax
+                          </p>
+                        )}
+                        {order.discount_amount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {formatOrderMoney(order.discount_amount, order)} off with {order.promotion_code}
+                          </p>
+                        )}
+                        {order.status === 'pending' && order.payment_method === 'cash' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="mt-2"
+                            disabled={cancellingId === order.id}
+                            onClick={() => cancelOrder(order.id)}
+                          >
+                            {cancellingId === order.id ? 'Cancelling...' : 'Cancel Order'}
+                          </Button>
+                        )}
                       </div>
                     </div>
-                    <div className="space-y-2">
-                      {order.order_items.map((item, index) => (
-                        <div key={index} className="flex justify-between text-sm">
-                          <span>{item.product.name} x {item.quantity}</span>
-                          <span>${(item.price * item.quantity).toFixed(2)}</span>
+                    <div className="space-y-4">
+                      {order.order_fulfillments.map((fulfillment, fulfillmentIndex) => (
+                        <div key={fulfillment.id} className="space-y-2">
+                          {/* Items from different sellers are fulfilled and delivered separately */}
+                          {order.order_fulfillments.length > 1 && (
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="font-medium">
+                                Shipment {fulfillmentIndex + 1} of {order.order_fulfillments.length}
+                              </span>
+                              <Badge className={getStatusColor(fulfillment.status)}>
+                                {getStatusLabel(fulfillment.status)}
+                              </Badge>
+                            </div>
+                          )}
+                          {order.order_items
+                            .filter((item) => item.fulfillment_id === fulfillment.id)
+                            .map((item, index) => (
+                              <div key={index} className="flex justify-between text-sm">
+                                <span>{item.product.name}{item.variant_name && ` (${item.variant_name})`} x {item.quantity}</span>
+                                <span>{formatOrderMoney(item.price * item.quantity, order)}</span>
+                              </div>
+                            ))}
+                          {fulfillment.driver_assigned && fulfillment.estimated_delivery && (
+                            <p className="text-xs text-muted-foreground">
+                              Estimated delivery: {new Date(fulfillment.estimated_delivery).toLocaleString()}
+                            </p>
+                          )}
+                          {fulfillment.status === 'out_for_delivery' && (
+                            <div className="space-y-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setTrackingId(trackingId === fulfillment.id ? null : fulfillment.id)}
+                              >
+                                <MapPin className="w-4 h-4 mr-2" />
+                                {trackingId === fulfillment.id ? 'Hide Tracking' : 'Track Delivery'}
+                              </Button>
+                              {trackingId === fulfillment.id && (
+                                <LiveDeliveryMap
+                                  fulfillmentId={fulfillment.id}
+                                  shippingAddress={order.shipping_address}
+                                  destination={
+                                    order.shipping_longitude != null && order.shipping_latitude != null
+                                      ? [order.shipping_longitude, order.shipping_latitude]
+                                      : null
+                                  }
+                                />
+                              )}
+                            </div>
+                          )}
                         </div>
                       ))}
                     </div>
+                    {order.order_status_history.length > 0 && (
+                      <ol className="mt-4 border-l pl-4 space-y-2">
+                        {order.order_status_history
+                          .filter((entry) => !entry.fulfillment_id)
+                          .map((entry) => (
+                            <li key={entry.id} className="relative text-sm">
+                              <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-primary" />
+                              <div className="flex justify-between">
+                                <span className="font-medium">{getStatusLabel(entry.to_status)}</span>
+                                <span className="text-muted-foreground">
+                                  {new Date(entry.created_at).toLocaleString()}
+                                </span>
+                              </div>
+                              {entry.note && (
+                                <p className="text-muted-foreground">{entry.note}</p>
+                              )}
+                            </li>
+                          ))}
+                      </ol>
+                    )}
                   </div>
                 ))}
               </div>
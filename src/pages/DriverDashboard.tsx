@@ -0,0 +1,571 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { MapPin, Clock, PackageCheck, Truck, Navigation, AlertTriangle, Phone, Map as MapIcon } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import MapLocationPicker from '@/components/MapLocationPicker';
+import { useNavigate } from 'react-router-dom';
+import { useToast } from '@/hooks/use-toast';
+import { getStatusColor, getStatusLabel } from '@/lib/order-status';
+import { usePublishLocation } from '@/hooks/use-publish-location';
+import { ShippingAddress, parseAddressSnapshot } from '@/lib/address';
+import { Json } from '@/integrations/supabase/types';
+import { formatOrderMoney, MinorUnits } from '@/lib/money';
+import { fulfillmentAmountDue } from '@/lib/delivery';
+
+interface Delivery {
+  id: string;
+  status: string;
+  subtotal: MinorUnits;
+  delivery_fee: MinorUnits;
+  discount_amount: MinorUnits;
+  estimated_delivery: string | null;
+  driver_notes: string | null;
+  picked_up_at: string | null;
+  en_route_at: string | null;
+  delivered_at: string | null;
+  failed_attempts: number;
+  cash_collected_amount: MinorUnits | null;
+  proof_of_delivery_note: string | null;
+  proof_of_delivery_url: string | null;
+  order: {
+    id: string;
+    shipping_address: string | null;
+    shipping_address_snapshot: Json | null;
+    payment_method: string | null;
+    currency: string;
+    exchange_rate: number;
+  };
+  order_items: {
+    quantity: number;
+    tax_amount: MinorUnits;
+    variant_name: string | null;
+    product: {
+      name: string;
+    };
+  }[];
+  driver: {
+    id: string;
+  };
+}
+
+// What the driver has entered for a delivery they are completing or failing
+interface DeliveryInput {
+  note: string;
+  url: string;
+  cashCollected: boolean;
+  failureReason: string;
+}
+
+const EMPTY_INPUT: DeliveryInput = { note: '', url: '', cashCollected: false, failureReason: '' };
+
+const ACTIVE_STATUSES = ['preparing', 'out_for_delivery', 'delivery_failed'];
+
+const DriverDashboard = () => {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [inputs, setInputs] = useState<Record<string, DeliveryInput>>({});
+  const [mapId, setMapId] = useState<string | null>(null);
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const loadDeliveries = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('order_fulfillments')
+      .select(`
+        id,
+        status,
+        subtotal,
+        delivery_fee,
+        discount_amount,
+        estimated_delivery,
+        driver_notes,
+        picked_up_at,
+        en_route_at,
+        delivered_at,
+        failed_attempts,
+        cash_collected_amount,
+        proof_of_delivery_note,
+        proof_of_delivery_url,
+        order:orders (
+          id,
+          shipping_address,
+          shipping_address_snapshot,
+          payment_method,
+          currency,
+          exchange_rate
+        ),
+        order_items (
+          quantity,
+          tax_amount,
+          variant_name,
+          product:products (
+            name
+          )
+        ),
+        driver:drivers!inner (
+          id,
+          user_id
+        )
+      `)
+      .eq('driver.user_id', user.id)
+      .order('estimated_delivery', { ascending: true });
+
+    if (error) {
+      console.error('Error loading deliveries:', error);
+    } else {
+      setDeliveries(data || []);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (user && userRole && userRole !== 'driver') {
+      navigate('/dashboard');
+      return;
+    }
+
+    loadDeliveries();
+  }, [user, userRole]);
+
+  // Buyers follow deliveries on a live map while they are on the road
+  const { error: locationError, lastPublishedAt } = usePublishLocation(
+    deliveries
+      .filter(d => d.status === 'out_for_delivery')
+      .map(d => ({ fulfillmentId: d.id, driverId: d.driver.id }))
+  );
+
+  const getInput = (deliveryId: string) => inputs[deliveryId] ?? EMPTY_INPUT;
+
+  const setInput = <K extends keyof DeliveryInput>(deliveryId: string, field: K, value: DeliveryInput[K]) => {
+    setInputs({
+      ...inputs,
+      [deliveryId]: { ...getInput(deliveryId), [field]: value }
+    });
+  };
+
+  // Picking up also starts a retry after a failed attempt
+  const markPickedUp = async (deliveryId: string) => {
+    setUpdatingId(deliveryId);
+    try {
+      const { error } = await supabase.rpc('mark_fulfillment_picked_up', {
+        p_fulfillment_id: deliveryId
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Picked up",
+        description: "The buyer can now see their order is out for delivery."
+      });
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error marking delivery picked up:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update delivery. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const markEnRoute = async (deliveryId: string) => {
+    setUpdatingId(deliveryId);
+    try {
+      const { error } = await supabase.rpc('mark_fulfillment_en_route', {
+        p_fulfillment_id: deliveryId
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "En route",
+        description: "The buyer can see you are on your way."
+      });
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error marking delivery en route:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update delivery. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const markFailed = async (deliveryId: string) => {
+    const { failureReason } = getInput(deliveryId);
+    if (!failureReason.trim()) {
+      toast({
+        title: "Reason required",
+        description: "Say why the delivery could not be completed.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUpdatingId(deliveryId);
+    try {
+      const { error } = await supabase.rpc('mark_fulfillment_delivery_failed', {
+        p_fulfillment_id: deliveryId,
+        p_reason: failureReason
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Delivery attempt failed",
+        description: "The seller and buyer have been updated."
+      });
+      setInput(deliveryId, 'failureReason', '');
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error marking delivery failed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update delivery. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const markDelivered = async (delivery: Delivery) => {
+    const deliveryId = delivery.id;
+    const proof = getInput(deliveryId);
+    if (!proof.note.trim() && !proof.url.trim()) {
+      toast({
+        title: "Proof of delivery required",
+        description: "Add a delivery note or a photo URL before marking this delivered.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (delivery.order.payment_method === 'cash' && !proof.cashCollected) {
+      toast({
+        title: "Cash not collected",
+        description: "Confirm you collected the cash before marking this delivered.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setUpdatingId(deliveryId);
+    try {
+      const { error } = await supabase.rpc('mark_fulfillment_delivered', {
+        p_fulfillment_id: deliveryId,
+        p_proof_note: proof.note,
+        p_proof_url: proof.url,
+        p_cash_collected: proof.cashCollected
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Delivered",
+        description: "Delivery completed."
+      });
+      await loadDeliveries();
+    } catch (error) {
+      console.error('Error marking delivery delivered:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update delivery. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (!user) {
+    return (
+      <Layout>
+        <div className="text-center py-12">
+          <h2 className="text-2xl font-bold mb-2">Please log in to view your deliveries</h2>
+        </div>
+      </Layout>
+    );
+  }
+
+  const activeDeliveries = deliveries.filter(d => ACTIVE_STATUSES.includes(d.status));
+  const completedDeliveries = deliveries.filter(d => !ACTIVE_STATUSES.includes(d.status));
+
+  // Phone and instructions the buyer gave with their address
+  const renderContactDetails = (address: ShippingAddress | null) => (
+    <>
+      {address?.phone && (
+        <div className="flex items-center text-sm">
+          <Phone className="w-4 h-4 mr-2" />
+          <a href={`tel:${address.phone}`} className="hover:underline">
+            {address.phone}
+          </a>
+        </div>
+      )}
+
+      {address?.delivery_instructions && (
+        <p className="text-sm text-muted-foreground italic">
+          {address.delivery_instructions}
+        </p>
+      )}
+    </>
+  );
+
+  const renderDelivery = (delivery: Delivery) => (
+    <div key={delivery.id} className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Order #{delivery.order.id.slice(0, 8)}</h3>
+        <Badge className={getStatusColor(delivery.status)}>
+          {getStatusLabel(delivery.status)}
+        </Badge>
+      </div>
+
+      <div className="flex items-start justify-between gap-2 text-sm">
+        <div className="flex items-start">
+          <MapPin className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+          <span>{delivery.order.shipping_address}</span>
+        </div>
+        {delivery.order.shipping_address && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setMapId(mapId === delivery.id ? null : delivery.id)}
+          >
+            <MapIcon className="w-4 h-4 mr-2" />
+            {mapId === delivery.id ? 'Hide Map' : 'Show Map'}
+          </Button>
+        )}
+      </div>
+
+      {renderContactDetails(parseAddressSnapshot(delivery.order.shipping_address_snapshot))}
+
+      {mapId === delivery.id && delivery.order.shipping_address && (
+        <MapLocationPicker readOnly initialAddress={delivery.order.shipping_address} />
+      )}
+
+      {delivery.estimated_delivery && (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Clock className="w-4 h-4 mr-2" />
+          Deliver by {new Date(delivery.estimated_delivery).toLocaleString()}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {delivery.order_items.map((item, index) => (
+          <p key={index} className="text-sm">
+            {item.product.name}{item.variant_name && ` (${item.variant_name})`} x {item.quantity}
+          </p>
+        ))}
+      </div>
+
+      {delivery.order.payment_method === 'cash' && delivery.status !== 'delivered' && (
+        <p className="text-sm font-medium">Collect {formatOrderMoney(fulfillmentAmountDue(delivery), delivery.order)} in cash on delivery</p>
+      )}
+
+      {delivery.failed_attempts > 0 && (
+        <p className="flex items-center text-sm text-destructive">
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {delivery.failed_attempts} failed delivery {delivery.failed_attempts === 1 ? 'attempt' : 'attempts'}
+        </p>
+      )}
+
+      {delivery.driver_notes && (
+        <p className="text-sm text-muted-foreground">Notes: {delivery.driver_notes}</p>
+      )}
+
+      {(delivery.status === 'preparing' || delivery.status === 'delivery_failed') && (
+        <Button
+          size="sm"
+          disabled={updatingId === delivery.id}
+          onClick={() => markPickedUp(delivery.id)}
+        >
+          <Truck className="w-4 h-4 mr-2" />
+          {updatingId === delivery.id
+            ? 'Updating...'
+            : delivery.status === 'delivery_failed' ? 'Retry Delivery' : 'Mark Picked Up'}
+        </Button>
+      )}
+
+      {delivery.status === 'out_for_delivery' && !delivery.en_route_at && (
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={updatingId === delivery.id}
+          onClick={() => markEnRoute(delivery.id)}
+        >
+          <Navigation className="w-4 h-4 mr-2" />
+          Mark En Route
+        </Button>
+      )}
+
+      {delivery.status === 'out_for_delivery' && delivery.en_route_at && (
+        <p className="text-sm text-muted-foreground">
+          En route since {new Date(delivery.en_route_at).toLocaleTimeString()}
+        </p>
+      )}
+
+      {delivery.status === 'out_for_delivery' && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor={`proof-note-${delivery.id}`}>Delivery note</Label>
+            <Textarea
+              id={`proof-note-${delivery.id}`}
+              placeholder="Handed to the buyer, left with a neighbour..."
+              value={getInput(delivery.id).note}
+              onChange={(e) => setInput(delivery.id, 'note', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`proof-url-${delivery.id}`}>Photo URL</Label>
+            <Input
+              id={`proof-url-${delivery.id}`}
+              type="url"
+              placeholder="https://..."
+              value={getInput(delivery.id).url}
+              onChange={(e) => setInput(delivery.id, 'url', e.target.value)}
+            />
+          </div>
+          {delivery.order.payment_method === 'cash' && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`cash-${delivery.id}`}
+                checked={getInput(delivery.id).cashCollected}
+                onCheckedChange={(checked) => setInput(delivery.id, 'cashCollected', checked === true)}
+              />
+              <Label htmlFor={`cash-${delivery.id}`}>
+                I collected {formatOrderMoney(fulfillmentAmountDue(delivery), delivery.order)} in cash
+              </Label>
+            </div>
+          )}
+          <Button
+            size="sm"
+            disabled={updatingId === delivery.id}
+            onClick={() => markDelivered(delivery)}
+          >
+            <PackageCheck className="w-4 h-4 mr-2" />
+            {updatingId === delivery.id ? 'Updating...' : 'Mark Delivered'}
+          </Button>
+
+          <div className="space-y-2 border-t pt-3">
+            <Label htmlFor={`failure-${delivery.id}`}>Couldn't deliver?</Label>
+            <Input
+              id={`failure-${delivery.id}`}
+              placeholder="Nobody home, wrong address..."
+              value={getInput(delivery.id).failureReason}
+              onChange={(e) => setInput(delivery.id, 'failureReason', e.target.value)}
+            />
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={updatingId === delivery.id}
+              onClick={() => markFailed(delivery.id)}
+            >
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Failed Attempt
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {delivery.status === 'delivered' && (
+        <div className="text-sm text-muted-foreground space-y-1">
+          {delivery.delivered_at && (
+            <p>Delivered {new Date(delivery.delivered_at).toLocaleString()}</p>
+          )}
+          {delivery.cash_collected_amount !== null && (
+            <p>Cash collected: {formatOrderMoney(delivery.cash_collected_amount, delivery.order)}</p>
+          )}
+          {delivery.proof_of_delivery_note && <p>{delivery.proof_of_delivery_note}</p>}
+          {delivery.proof_of_delivery_url && (
+            <a
+              href={delivery.proof_of_delivery_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary underline"
+            >
+              View photo
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center space-x-4 mb-8">
+          <Truck className="w-8 h-8" />
+          <div>
+            <h1 className="text-3xl font-bold">Deliveries</h1>
+            <p className="text-muted-foreground">Orders assigned to you</p>
+          </div>
+        </div>
+
+        {deliveries.some(d => d.status === 'out_for_delivery') && (
+          <div className={`flex items-center text-sm mb-6 ${locationError ? 'text-destructive' : 'text-muted-foreground'}`}>
+            <Navigation className="w-4 h-4 mr-2" />
+            {locationError
+              ? `Location sharing stopped: ${locationError}`
+              : lastPublishedAt
+                ? `Sharing your location with buyers (updated ${lastPublishedAt.toLocaleTimeString()})`
+                : 'Waiting for your location...'}
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Active Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p>Loading deliveries...</p>
+              ) : activeDeliveries.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  No deliveries assigned to you right now.
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {activeDeliveries.map(renderDelivery)}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {completedDeliveries.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Completed</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {completedDeliveries.map(renderDelivery)}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default DriverDashboard;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { ProductForm } from '@/components/ProductForm';
+import { useToast } from '@/hooks/use-toast';
+import { ProductImage, removeProductImageFiles } from '@/lib/product-images';
+import { ProductVariant } from '@/lib/variants';
+import {
+  ProductFormValues,
+  saveProductImages,
+  saveProductVariants,
+  toProductFormValues,
+  toProductRow
+} from '@/lib/product-form';
+import { ArrowLeft } from 'lucide-react';
+
+const EditProduct = () => {
+  const { id } = useParams<{ id: string }>();
+  const [initialValues, setInitialValues] = useState<ProductFormValues | null>(null);
+  const [savedImages, setSavedImages] = useState<ProductImage[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [archived, setArchived] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user || userRole !== 'seller') {
+      navigate('/auth');
+      return;
+    }
+
+    const fetchProduct = async () => {
+      try {
+        const { data: product, error } = await supabase
+          .from('products')
+          .select('*')
+          .eq('id', id)
+          .eq('seller_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!product) return;
+
+        const [{ data: images, error: imagesError }, { data: variantsData, error: variantsError }] =
+          await Promise.all([
+            supabase.from('product_images').select('*').eq('product_id', product.id).order('position'),
+            supabase.from('product_variants').select('*').eq('product_id', product.id).order('position')
+          ]);
+
+        if (imagesError) throw imagesError;
+        if (variantsError) throw variantsError;
+
+        setSavedImages(images || []);
+        setVariants(variantsData || []);
+        setArchived(!!product.archived_at);
+        setInitialValues(toProductFormValues(product, images || [], variantsData || []));
+      } catch (error) {
+        console.error('Error fetching product:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProduct();
+  }, [id, user, userRole, navigate]);
+
+  if (!user || userRole !== 'seller') {
+    return null;
+  }
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    if (!id) return;
+    setSaving(true);
+
+    try {
+      // Variants go first: removing the last one zeroes the product's stock,
+      // which the product row then sets again
+      await saveProductVariants(id, values, variants);
+
+      const { error } = await supabase
+        .from('products')
+        .update(toProductRow(values))
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await saveProductImages(id, values.images);
+
+      const keptPaths = new Set(values.images.map(image => image.storage_path));
+      try {
+        await removeProductImageFiles(savedImages.filter(image => !keptPaths.has(image.storage_path)));
+      } catch (error) {
+        console.error('Error removing image files:', error);
+      }
+
+      toast({
+        title: "Success",
+        description: "Product updated successfully!"
+      });
+
+      navigate('/seller/products');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update product",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto">
+        <div className="flex items-center space-x-4 mb-8">
+          <Button variant="outline" size="icon" onClick={() => navigate('/seller/products')}>
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              Edit Product
+              {archived && <Badge variant="secondary">Archived</Badge>}
+            </h1>
+            <p className="text-muted-foreground">Changes show in your store as soon as you save</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">Loading product...</div>
+        ) : !initialValues ? (
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">Product not found</h2>
+            <p className="text-muted-foreground">It may have been deleted, or belong to another seller.</p>
+          </div>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Product Details</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ProductForm
+                sellerId={user.id}
+                initialValues={initialValues}
+                savedImagePaths={savedImages.map(image => image.storage_path)}
+                submitLabel="Save Changes"
+                submittingLabel="Saving..."
+                loading={saving}
+                onSubmit={handleSubmit}
+                onCancel={() => navigate('/seller/products')}
+              />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default EditProduct;
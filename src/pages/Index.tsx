@@ -1,172 +1,313 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { Search, Filter, Plus } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Search, Plus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Layout } from '@/components/Layout';
 import { ProductCard } from '@/components/ProductCard';
+import { ProductCardSkeleton } from '@/components/ProductCardSkeleton';
+import { ProductFilters } from '@/components/ProductFilters';
+import { CategoryBreadcrumb } from '@/components/CategoryBreadcrumb';
+import { CategoryIcon } from '@/components/CategoryIcon';
+import { ListingPagination } from '@/components/ListingPagination';
+import { LoadMoreTrigger } from '@/components/LoadMoreTrigger';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
-
-interface Product {
-  id: string;
-  name: string;
-  description: string;
-  price: number;
-  image_url: string;
-  category: string;
-  stock_quantity: number;
-  seller_id: string;
-}
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useCategories } from '@/hooks/use-categories';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { LISTING_PAGE_SIZE, useProductListing } from '@/hooks/use-product-listing';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import {
+  LISTING_SORTS,
+  ListingFilters,
+  ListingSort,
+  emptyListingFacets,
+  listingPath,
+  parseListingFilters,
+  parseListingPage,
+  withListingFilters,
+  withListingPage
+} from '@/lib/listing-filters';
+import { categoryPath } from '@/lib/categories';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+const SKELETON_COUNT = 8;
+
+// Whether the buyer scrolls through the listing or pages through it
+type ListingView = 'scroll' | 'pages';
+const LISTING_VIEW_KEY = 'listing_view';
 
 const Index = () => {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState('All');
-  const [categories, setCategories] = useState<string[]>([]);
-  const [loading, setLoading] = useState(true);
+  // How many products are for sale at all, whatever is searched for
+  const [catalogueSize, setCatalogueSize] = useState(0);
+  const [view, setView] = useState<ListingView>(
+    () => localStorage.getItem(LISTING_VIEW_KEY) === 'pages' ? 'pages' : 'scroll'
+  );
+  const resultsRef = useRef<HTMLDivElement>(null);
   const { user, userRole } = useAuth();
   const navigate = useNavigate();
 
+  // Filters live in the address, so a filtered listing can be shared. A
+  // category has its own page, /c/<slug>; the rest are in the query string.
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseListingFilters(searchParams, slug ?? null);
+  const page = parseListingPage(searchParams);
+  const [searchTerm, setSearchTerm] = useState(filters.query);
+  const debouncedSearch = useDebouncedValue(searchTerm.trim(), SEARCH_DEBOUNCE_MS);
+
+  // The search box follows the query string when it changes from outside,
+  // such as going back to an earlier search
+  const [shownQuery, setShownQuery] = useState(filters.query);
+  if (filters.query !== shownQuery) {
+    setShownQuery(filters.query);
+    if (filters.query !== searchTerm.trim()) setSearchTerm(filters.query);
+  }
+
+  const queryRef = useRef(filters.query);
+  queryRef.current = filters.query;
+
+  const { listing, facets: facetsQuery } = useProductListing(filters);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = listing;
+  const pages = listing.data?.pages ?? [];
+  const totalCount = pages[0]?.[0]?.total_count ?? 0;
+  const pageCount = Math.ceil(totalCount / LISTING_PAGE_SIZE);
+  const facets = facetsQuery.data ?? emptyListingFacets;
+  const products = view === 'pages' ? pages[page - 1] ?? [] : pages.flat();
+  const loadingPage = listing.isPending || (view === 'pages' && pages.length < page && hasNextPage);
+
+  const { categories, loading: categoriesLoading } = useCategories();
+  const category = categories.find(c => c.slug === slug);
+  const categoryMissing = !!slug && !categoriesLoading && !category;
+
+  useScrollRestoration(!loadingPage);
+
+  const updateFilters = ({ category: nextCategory, ...changes }: Partial<ListingFilters>) => {
+    if (nextCategory === undefined) {
+      setSearchParams(params => withListingFilters(params, changes));
+      return;
+    }
+
+    // Attributes belong to a category, so their filters don't carry over
+    navigate({
+      pathname: listingPath(nextCategory),
+      search: withListingPage(withListingFilters(searchParams, { ...changes, attributes: {} }), 1).toString()
+    });
+  };
+
+  const changeView = (next: ListingView) => {
+    localStorage.setItem(LISTING_VIEW_KEY, next);
+    setView(next);
+    setSearchParams(params => withListingPage(params, 1), { replace: true });
+  };
+
+  const changePage = (next: number) => {
+    setSearchParams(params => withListingPage(params, next));
+    resultsRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   useEffect(() => {
-    const loadProducts = async () => {
-      const { data, error } = await supabase
+    if (debouncedSearch === queryRef.current) return;
+    // Typing replaces the history entry rather than adding one per search
+    setSearchParams(params => withListingFilters(params, { query: debouncedSearch }), { replace: true });
+  }, [debouncedSearch, setSearchParams]);
+
+  // Each page starts after the last product of the one before, so a page
+  // further on is reached by loading the ones in between
+  useEffect(() => {
+    if (view === 'pages' && pages.length < page && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [view, pages.length, page, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  useEffect(() => {
+    const loadCatalogueSize = async () => {
+      const { count, error } = await supabase
         .from('products')
-        .select('*')
-        .order('name');
+        .select('id', { count: 'exact', head: true })
+        .is('archived_at', null);
 
       if (error) {
-        console.error('Error loading products:', error);
+        console.error('Error counting products:', error);
       } else {
-        setProducts(data || []);
-        setFilteredProducts(data || []);
-        
-        // Extract unique categories
-        const uniqueCategories = ['All', ...new Set(data?.map(p => p.category) || [])];
-        setCategories(uniqueCategories);
+        setCatalogueSize(count ?? 0);
       }
-      setLoading(false);
     };
 
-    loadProducts();
+    loadCatalogueSize();
   }, []);
 
-  useEffect(() => {
-    let filtered = products;
-
-    // Filter by search term
-    if (searchTerm) {
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        product.description.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
-
-    // Filter by category
-    if (selectedCategory !== 'All') {
-      filtered = filtered.filter(product => product.category === selectedCategory);
-    }
-
-    setFilteredProducts(filtered);
-  }, [products, searchTerm, selectedCategory]);
-
   return (
     <Layout>
       <div className="space-y-8">
-        {/* Hero Section */}
-        <div className="text-center py-12 bg-gradient-to-r from-primary/10 to-secondary/10 rounded-lg">
-          <h1 className="text-4xl font-bold mb-4">Welcome to ShopMart</h1>
-          <p className="text-xl text-muted-foreground mb-6">
-            A marketplace where sellers create real products and buyers discover amazing deals
-          </p>
-          {!user ? (
-            <div>
-              <p className="text-lg text-muted-foreground mb-4">
-                Join our marketplace with {products.length} authentic products
-              </p>
-              <Button size="lg" onClick={() => navigate('/auth')}>
-                Join Our Marketplace
-              </Button>
-            </div>
-          ) : userRole === 'seller' ? (
-            <div>
-              <p className="text-lg text-muted-foreground mb-4">
-                You have access to seller tools
-              </p>
-              <Button size="lg" onClick={() => navigate('/seller/products/new')}>
-                <Plus className="w-4 h-4 mr-2" />
-                Add New Product
-              </Button>
-            </div>
-          ) : (
-            <p className="text-lg text-muted-foreground">
-              Browse our collection of {products.length} authentic products from real sellers
-            </p>
-          )}
-        </div>
-
-        {/* Search and Filter */}
-        <div className="flex flex-col md:flex-row gap-4 items-center">
-          <div className="relative flex-grow">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-            <Input
-              placeholder="Search products..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
-          </div>
-          <div className="flex items-center space-x-2">
-            <Filter className="w-4 h-4 text-muted-foreground" />
-            <div className="flex flex-wrap gap-2">
-              {categories.map((category) => (
-                <Badge
-                  key={category}
-                  variant={selectedCategory === category ? "default" : "secondary"}
-                  className="cursor-pointer"
-                  onClick={() => setSelectedCategory(category)}
-                >
-                  {category}
-                </Badge>
-              ))}
-            </div>
-          </div>
-        </div>
-
-        {/* Products Grid */}
-        {loading ? (
-          <div className="text-center py-12">
-            <p className="text-lg">Loading products...</p>
+        {/* Category header, or the hero on the home page */}
+        {slug ? (
+          <div className="space-y-4">
+            <CategoryBreadcrumb path={categoryPath(categories, category?.id ?? null)} />
+            {category && (
+              <div className="flex items-start gap-4">
+                <div className="rounded-lg bg-primary/10 p-3">
+                  <CategoryIcon name={category.icon} className="w-8 h-8 text-primary" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold">{category.name}</h1>
+                  {category.description && (
+                    <p className="text-muted-foreground mt-1">{category.description}</p>
+                  )}
+                </div>
+              </div>
+            )}
+            {categoryMissing && (
+              <div className="text-center py-12">
+                <h1 className="text-2xl font-bold mb-4">Category Not Found</h1>
+                <p className="text-muted-foreground">The category you're looking for doesn't exist.</p>
+              </div>
+            )}
           </div>
-        ) : filteredProducts.length === 0 ? (
-          <div className="text-center py-12">
-            {products.length === 0 ? (
+        ) : (
+          <div className="text-center py-12 bg-gradient-to-r from-primary/10 to-secondary/10 rounded-lg">
+            <h1 className="text-4xl font-bold mb-4">Welcome to ShopMart</h1>
+            <p className="text-xl text-muted-foreground mb-6">
+              A marketplace where sellers create real products and buyers discover amazing deals
+            </p>
+            {!user ? (
               <div>
-                <p className="text-lg text-muted-foreground mb-4">No products available yet.</p>
-                {userRole === 'seller' ? (
-                  <Button onClick={() => navigate('/seller/products/new')}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add the First Product
-                  </Button>
-                ) : (
-                  <p className="text-muted-foreground">Sellers will add products soon!</p>
-                )}
+                <p className="text-lg text-muted-foreground mb-4">
+                  Join our marketplace with {catalogueSize} authentic products
+                </p>
+                <Button size="lg" onClick={() => navigate('/auth')}>
+                  Join Our Marketplace
+                </Button>
+              </div>
+            ) : userRole === 'seller' ? (
+              <div>
+                <p className="text-lg text-muted-foreground mb-4">
+                  You have access to seller tools
+                </p>
+                <Button size="lg" onClick={() => navigate('/seller/products/new')}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add New Product
+                </Button>
               </div>
             ) : (
-              <p className="text-lg text-muted-foreground">No products found matching your criteria.</p>
+              <p className="text-lg text-muted-foreground">
+                Browse our collection of {catalogueSize} authentic products from real sellers
+              </p>
             )}
           </div>
-        ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-            {filteredProducts.map((product) => (
-              <ProductCard 
-                key={product.id} 
-                product={product} 
-                showAddToCart={userRole === 'buyer'} 
-              />
-            ))}
+        )}
+
+        {!categoryMissing && (
+          <div className="flex flex-col md:flex-row gap-8">
+            <aside className="md:w-64 shrink-0">
+              <ProductFilters filters={filters} facets={facets} onChange={updateFilters} />
+            </aside>
+
+            <div ref={resultsRef} className="flex-1 space-y-6 scroll-mt-4">
+              {/* Search and Sort */}
+              <div className="flex flex-col sm:flex-row gap-4 items-center">
+                <div className="relative flex-grow w-full">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder="Search products..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as ListingSort })}>
+                  <SelectTrigger className="sm:w-52" aria-label="Sort by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LISTING_SORTS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  size="sm"
+                  value={view}
+                  onValueChange={(value) => value && changeView(value as ListingView)}
+                >
+                  <ToggleGroupItem value="scroll" aria-label="Scroll through products">Scroll</ToggleGroupItem>
+                  <ToggleGroupItem value="pages" aria-label="Page through products">Pages</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+
+              {/* Products Grid */}
+              {listing.isError ? (
+                <div className="text-center py-12 space-y-4">
+                  <p className="text-lg text-muted-foreground">Failed to load products.</p>
+                  <Button variant="outline" onClick={() => listing.refetch()}>
+                    Try Again
+                  </Button>
+                </div>
+              ) : loadingPage ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                  {Array.from({ length: SKELETON_COUNT }, (_, i) => (
+                    <ProductCardSkeleton key={i} />
+                  ))}
+                </div>
+              ) : products.length === 0 ? (
+                <div className="text-center py-12">
+                  {catalogueSize === 0 ? (
+                    <div>
+                      <p className="text-lg text-muted-foreground mb-4">No products available yet.</p>
+                      {userRole === 'seller' ? (
+                        <Button onClick={() => navigate('/seller/products/new')}>
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add the First Product
+                        </Button>
+                      ) : (
+                        <p className="text-muted-foreground">Sellers will add products soon!</p>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-lg text-muted-foreground">No products found matching your criteria.</p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {totalCount > products.length && (
+                    <p className="text-sm text-muted-foreground">
+                      {view === 'pages'
+                        ? `Showing ${(page - 1) * LISTING_PAGE_SIZE + 1}–${(page - 1) * LISTING_PAGE_SIZE + products.length}`
+                        : `Showing ${products.length}`}{' '}
+                      of {totalCount} products
+                    </p>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                    {products.map((product) => (
+                      <ProductCard 
+                        key={product.id} 
+                        product={product} 
+                        highlight={debouncedSearch ? { name: product.name_highlight, snippet: product.snippet } : undefined}
+                        showAddToCart={!user || userRole === 'buyer'} 
+                      />
+                    ))}
+                    {isFetchingNextPage && view === 'scroll' && Array.from({ length: SKELETON_COUNT }, (_, i) => (
+                      <ProductCardSkeleton key={`more-${i}`} />
+                    ))}
+                  </div>
+                  {view === 'scroll' ? (
+                    <LoadMoreTrigger onLoadMore={fetchNextPage} disabled={!hasNextPage || isFetchingNextPage} />
+                  ) : pageCount > 1 && (
+                    <ListingPagination
+                      page={page}
+                      pageCount={pageCount}
+                      hrefFor={(n) => `?${withListingPage(searchParams, n)}`}
+                      onPageChange={changePage}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
           </div>
         )}
       </div>
@@ -1,26 +1,51 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Star, ArrowLeft, MessageCircle, ShoppingCart } from 'lucide-react';
 import { Layout } from '@/components/Layout';
+import { ProductGallery } from '@/components/ProductGallery';
+import { CategoryBreadcrumb } from '@/components/CategoryBreadcrumb';
 import { useAuth } from '@/contexts/AuthContext';
 import { useCart } from '@/contexts/CartContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import { useCategoryAttributes } from '@/hooks/use-category-attributes';
+import { formatAttributeValue } from '@/lib/attributes';
+import { categoryPath } from '@/lib/categories';
+import { MinorUnits } from '@/lib/money';
+import { ProductImage } from '@/lib/product-images';
+import {
+  ProductVariant,
+  VariantSelection,
+  findVariant,
+  getAvailableStock,
+  getVariantPrice,
+  parseVariantOptions,
+  parseVariantSelection
+} from '@/lib/variants';
 
 interface Product {
   id: string;
   name: string;
   description: string;
-  price: number;
+  price: MinorUnits;
   image_url: string;
   category: string;
+  category_id: string | null;
   stock_quantity: number;
+  reserved_quantity: number;
   seller_id: string;
+  variant_options: Json;
+  attributes: Json;
+  archived_at: string | null;
 }
 
 interface Comment {
@@ -37,20 +62,29 @@ interface Comment {
 const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
   const { addToCart } = useCart();
+  const { formatPrice } = useCurrency();
   const { toast } = useToast();
+  const { categories } = useCategories();
   
   const [product, setProduct] = useState<Product | null>(null);
+  const [images, setImages] = useState<ProductImage[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [selection, setSelection] = useState<VariantSelection>({});
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
   const [newRating, setNewRating] = useState(5);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const { attributes } = useCategoryAttributes(product?.category_id ?? null);
 
   useEffect(() => {
     if (id) {
       fetchProduct();
+      fetchImages();
+      fetchVariants();
       fetchComments();
     }
   }, [id]);
@@ -77,6 +111,40 @@ const ProductDetail = () => {
     }
   };
 
+  const fetchImages = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_images')
+        .select('*')
+        .eq('product_id', id)
+        .order('position');
+
+      if (error) throw error;
+      setImages(data || []);
+    } catch (error) {
+      console.error('Error fetching images:', error);
+    }
+  };
+
+  // Start on the first variant that can be bought
+  const fetchVariants = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('product_variants')
+        .select('*')
+        .eq('product_id', id)
+        .order('position');
+
+      if (error) throw error;
+      setVariants(data || []);
+
+      const initial = (data || []).find(v => getAvailableStock(v) > 0) || data?.[0];
+      setSelection(initial ? parseVariantSelection(initial.options) : {});
+    } catch (error) {
+      console.error('Error fetching variants:', error);
+    }
+  };
+
   const fetchComments = async () => {
     try {
       const { data, error } = await supabase
@@ -164,7 +232,7 @@ const ProductDetail = () => {
   const handleAddToCart = () => {
     if (!product) return;
     
-    addToCart(product.id);
+    addToCart(product.id, product, selectedVariant);
     
     toast({
       title: "Added to cart",
@@ -172,6 +240,16 @@ const ProductDetail = () => {
     });
   };
 
+  // Back to the listing as it was left, filters and scroll position
+  // included, when that's where the buyer came from
+  const backToProducts = () => {
+    if ((location.state as { fromListing?: boolean } | null)?.fromListing) {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
   const renderStars = (rating: number) => {
     return (
       <div className="flex space-x-1">
@@ -223,7 +301,7 @@ const ProductDetail = () => {
         <div className="max-w-4xl mx-auto">
           <Button 
             variant="outline" 
-            onClick={() => navigate('/')}
+            onClick={backToProducts}
             className="mb-4"
           >
             <ArrowLeft className="w-4 h-4 mr-2" />
@@ -238,6 +316,32 @@ const ProductDetail = () => {
     );
   }
 
+  const variantOptions = parseVariantOptions(product.variant_options);
+  const hasVariants = variantOptions.length > 0;
+  // Not every combination of options has to exist
+  const selectedVariant = hasVariants ? findVariant(variants, selection) : undefined;
+  // Archived products stay reachable from old orders, but can't be bought
+  const archived = !!product.archived_at;
+  const availableStock = archived
+    ? 0
+    : getAvailableStock(hasVariants ? selectedVariant ?? { stock_quantity: 0 } : product);
+
+  // Products from before uploads only have image_url; a chosen variant's own
+  // image goes first
+  const galleryImages = [
+    ...(selectedVariant?.image_url
+      ? [{ url: selectedVariant.image_url, thumbnail_url: selectedVariant.image_url }]
+      : []),
+    ...(images.length > 0
+      ? images
+      : product.image_url ? [{ url: product.image_url, thumbnail_url: product.image_url }] : [])
+  ];
+
+  // Only the attributes the product has a value for
+  const specifications = attributes
+    .map(attribute => ({ attribute, value: formatAttributeValue(attribute, product.attributes) }))
+    .filter(({ value }) => value !== null);
+
   const averageRating = comments.length > 0 
     ? comments.reduce((sum, comment) => sum + comment.rating, 0) / comments.length 
     : 0;
@@ -247,29 +351,35 @@ const ProductDetail = () => {
       <div className="max-w-4xl mx-auto">
         <Button 
           variant="outline" 
-          onClick={() => navigate('/')}
+          onClick={backToProducts}
           className="mb-6"
         >
           <ArrowLeft className="w-4 h-4 mr-2" />
           Back to Products
         </Button>
 
+        <div className="mb-6">
+          <CategoryBreadcrumb path={categoryPath(categories, product.category_id)} current={product.name} />
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
           <div>
-            <img
-              src={product.image_url}
-              alt={product.name}
-              className="w-full h-96 object-cover rounded-lg"
-            />
+            <ProductGallery images={galleryImages} alt={product.name} />
           </div>
           
           <div className="space-y-6">
             <div>
               <h1 className="text-3xl font-bold mb-2">{product.name}</h1>
               <div className="flex items-center space-x-4 mb-4">
-                <span className="text-3xl font-bold text-primary">${product.price}</span>
-                <Badge variant={product.stock_quantity > 0 ? "default" : "destructive"}>
-                  {product.stock_quantity > 0 ? `${product.stock_quantity} in stock` : 'Out of stock'}
+                <span className="text-3xl font-bold text-primary">
+                  {formatPrice(getVariantPrice(product, selectedVariant))}
+                </span>
+                <Badge variant={availableStock > 0 ? "default" : "destructive"}>
+                  {archived
+                    ? 'No longer available'
+                    : hasVariants && !selectedVariant
+                    ? 'Unavailable'
+                    : availableStock > 0 ? `${availableStock} in stock` : 'Out of stock'}
                 </Badge>
               </div>
               <Badge variant="secondary" className="mb-4">
@@ -287,10 +397,35 @@ const ProductDetail = () => {
             </div>
             
             <p className="text-muted-foreground">{product.description}</p>
+
+            {variantOptions.map((axis) => (
+              <div key={axis.name} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {axis.name}: <span className="text-muted-foreground">{selection[axis.name] ?? 'Choose'}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {axis.values.map((value) => (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={selection[axis.name] === value ? 'default' : 'outline'}
+                      onClick={() => setSelection({ ...selection, [axis.name]: value })}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {selectedVariant?.sku && (
+              <p className="text-sm text-muted-foreground">SKU: {selectedVariant.sku}</p>
+            )}
             
             <Button 
               onClick={handleAddToCart}
-              disabled={product.stock_quantity === 0}
+              disabled={availableStock === 0}
               className="w-full"
               size="lg"
             >
@@ -300,6 +435,26 @@ const ProductDetail = () => {
           </div>
         </div>
 
+        {specifications.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Specifications</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableBody>
+                  {specifications.map(({ attribute, value }) => (
+                    <TableRow key={attribute.key}>
+                      <TableCell className="font-medium w-1/3">{attribute.label}</TableCell>
+                      <TableCell>{value}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center">
@@ -9,25 +9,36 @@ import { Layout } from '@/components/Layout';
 import { useNavigate } from 'react-router-dom';
 import { SellerNotifications } from '@/components/SellerNotifications';
 import SellerAnalytics from '@/components/SellerAnalytics';
+import { DriverManagement } from '@/components/DriverManagement';
+import { DeliveryZoneManagement } from '@/components/DeliveryZoneManagement';
+import { PromotionManagement } from '@/components/PromotionManagement';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getStatusColor, getStatusLabel } from '@/lib/order-status';
+import { formatMoney, MinorUnits } from '@/lib/money';
+import { useCurrency } from '@/contexts/CurrencyContext';
 
 interface Product {
   id: string;
   name: string;
-  price: number;
+  price: MinorUnits;
+  list_price: MinorUnits;
+  currency: string;
   stock_quantity: number;
   category: string;
   created_at: string;
+  archived_at: string | null;
 }
 
 interface OrderItem {
   quantity: number;
-  price: number;
+  price: MinorUnits;
   order: {
     id: string;
-    status: string;
     created_at: string;
   };
+  fulfillment: {
+    status: string;
+  };
 }
 
 const SellerDashboard = () => {
@@ -35,6 +46,7 @@ const SellerDashboard = () => {
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [loading, setLoading] = useState(true);
   const { user, userRole } = useAuth();
+  const { formatPrice } = useCurrency();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -65,8 +77,10 @@ const SellerDashboard = () => {
           price,
           order:orders (
             id,
-            status,
             created_at
+          ),
+          fulfillment:order_fulfillments (
+            status
           )
         `)
         .in('product_id', productsData?.map(p => p.id) || []);
@@ -85,7 +99,9 @@ const SellerDashboard = () => {
 
   const totalRevenue = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
   const totalOrders = orderItems.length;
-  const lowStockProducts = products.filter(p => p.stock_quantity < 10);
+  // Archived products still count towards sales, but not towards the catalogue
+  const activeProducts = products.filter(p => !p.archived_at);
+  const lowStockProducts = activeProducts.filter(p => p.stock_quantity < 10);
 
   if (!user || userRole !== 'seller') {
     return (
@@ -121,6 +137,9 @@ const SellerDashboard = () => {
           <TabsList>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="drivers">Drivers</TabsTrigger>
+            <TabsTrigger value="delivery-zones">Delivery Zones</TabsTrigger>
+            <TabsTrigger value="promotions">Discount Codes</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -131,7 +150,7 @@ const SellerDashboard = () => {
                   <Package className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{products.length}</div>
+                  <div className="text-2xl font-bold">{activeProducts.length}</div>
                 </CardContent>
               </Card>
               
@@ -151,7 +170,7 @@ const SellerDashboard = () => {
                   <DollarSign className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
+                  <div className="text-2xl font-bold">{formatPrice(totalRevenue)}</div>
                 </CardContent>
               </Card>
               
@@ -174,7 +193,7 @@ const SellerDashboard = () => {
                 <CardContent>
                   {loading ? (
                     <p>Loading products...</p>
-                  ) : products.length === 0 ? (
+                  ) : activeProducts.length === 0 ? (
                     <div className="text-center py-8">
                       <p className="text-muted-foreground mb-4">No products yet</p>
                       <Button onClick={() => navigate('/seller/products/new')}>
@@ -184,11 +203,11 @@ const SellerDashboard = () => {
                     </div>
                   ) : (
                     <div className="space-y-4">
-                      {products.slice(0, 5).map((product) => (
+                      {activeProducts.slice(0, 5).map((product) => (
                         <div key={product.id} className="flex items-center justify-between p-3 border rounded">
                           <div>
                             <h4 className="font-semibold">{product.name}</h4>
-                            <p className="text-sm text-muted-foreground">${product.price}</p>
+                            <p className="text-sm text-muted-foreground">{formatMoney(product.list_price, product.currency)}</p>
                           </div>
                           <div className="text-right">
                             <Badge variant={product.stock_quantity < 10 ? "destructive" : "secondary"}>
@@ -197,11 +216,9 @@ const SellerDashboard = () => {
                           </div>
                         </div>
                       ))}
-                      {products.length > 5 && (
-                        <Button variant="outline" onClick={() => navigate('/seller/products')} className="w-full">
-                          View All Products
-                        </Button>
-                      )}
+                      <Button variant="outline" onClick={() => navigate('/seller/products')} className="w-full">
+                        Manage Products
+                      </Button>
                     </div>
                   )}
                 </CardContent>
@@ -227,8 +244,8 @@ const SellerDashboard = () => {
                             </p>
                           </div>
                           <div className="text-right">
-                            <p className="font-semibold">${(item.price * item.quantity).toFixed(2)}</p>
-                            <Badge variant="secondary">{item.order.status}</Badge>
+                            <p className="font-semibold">{formatPrice(item.price * item.quantity)}</p>
+                            <Badge className={getStatusColor(item.fulfillment.status)}>{getStatusLabel(item.fulfillment.status)}</Badge>
                           </div>
                         </div>
                       ))}
@@ -242,6 +259,18 @@ const SellerDashboard = () => {
           <TabsContent value="analytics">
             <SellerAnalytics />
           </TabsContent>
+
+          <TabsContent value="drivers">
+            <DriverManagement />
+          </TabsContent>
+
+          <TabsContent value="delivery-zones">
+            <DeliveryZoneManagement />
+          </TabsContent>
+
+          <TabsContent value="promotions">
+            <PromotionManagement />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -0,0 +1,587 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowLeft,
+  ArrowUpDown,
+  Download,
+  Eye,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { Layout } from '@/components/Layout';
+import { ProductCsvImport } from '@/components/ProductCsvImport';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import { MinorUnits, fromMinorUnits, toMinorUnits } from '@/lib/money';
+import { removeProductImageFiles } from '@/lib/product-images';
+import { downloadCsv, toCsv } from '@/lib/csv';
+import { toProductCsv } from '@/lib/product-csv';
+import { parseVariantOptions } from '@/lib/variants';
+
+interface Product {
+  id: string;
+  sku: string | null;
+  name: string;
+  price: MinorUnits;
+  list_price: MinorUnits;
+  currency: string;
+  stock_quantity: number;
+  reserved_quantity: number;
+  category: string;
+  image_url: string;
+  variant_options: Json;
+  archived_at: string | null;
+  updated_at: string;
+}
+
+const PRODUCT_COLUMNS =
+  'id, sku, name, price, list_price, currency, stock_quantity, reserved_quantity, category, image_url, variant_options, archived_at, updated_at';
+
+type StatusFilter = 'active' | 'archived' | 'all';
+type SortKey = 'name' | 'price' | 'stock_quantity' | 'updated_at';
+
+// Postgres' foreign_key_violation: the product is on someone's order
+const FOREIGN_KEY_VIOLATION = '23503';
+
+interface InlineNumberInputProps {
+  value: string;
+  label: string;
+  step?: string;
+  onSave: (value: string) => void;
+}
+
+// Saves when the seller leaves the field or presses Enter; Escape undoes
+const InlineNumberInput: React.FC<InlineNumberInputProps> = ({ value, label, step, onSave }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <Input
+      aria-label={label}
+      type="number"
+      min="0"
+      step={step}
+      className="h-8 w-28"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onSave(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+    />
+  );
+};
+
+const SellerProducts = () => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('active');
+  const [category, setCategory] = useState('all');
+  const [sortKey, setSortKey] = useState<SortKey>('updated_at');
+  const [sortAscending, setSortAscending] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Products waiting on the seller to confirm their deletion
+  const [pendingDelete, setPendingDelete] = useState<string[]>([]);
+  const [working, setWorking] = useState(false);
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { categories: allCategories } = useCategories();
+
+  const fetchProducts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select(PRODUCT_COLUMNS)
+        .eq('seller_id', user.id);
+
+      if (error) throw error;
+      setProducts(data || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load products",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (!user || userRole !== 'seller') {
+      navigate('/auth');
+      return;
+    }
+
+    fetchProducts();
+  }, [user, userRole, navigate, fetchProducts]);
+
+  if (!user || userRole !== 'seller') {
+    return null;
+  }
+
+  const categories = [...new Set(products.map(p => p.category).filter(Boolean))].sort();
+
+  const query = search.trim().toLowerCase();
+  const visibleProducts = products
+    .filter(p => status === 'all' || (status === 'archived') === !!p.archived_at)
+    .filter(p => category === 'all' || p.category === category)
+    .filter(p => !query || p.name.toLowerCase().includes(query) || p.sku?.toLowerCase().includes(query))
+    .sort((a, b) => {
+      // Prices compare in the base currency, whatever each is listed in
+      const order = sortKey === 'name' || sortKey === 'updated_at'
+        ? a[sortKey].localeCompare(b[sortKey])
+        : a[sortKey] - b[sortKey];
+      return sortAscending ? order : -order;
+    });
+
+  const selectedIds = visibleProducts.filter(p => selected.has(p.id)).map(p => p.id);
+  const allSelected = visibleProducts.length > 0 && selectedIds.length === visibleProducts.length;
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      setSortAscending(key === 'name');
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelected(next);
+  };
+
+  const updateProduct = async (id: string, changes: { list_price?: MinorUnits; stock_quantity?: number }) => {
+    try {
+      // Read back so the base price the database derives is shown
+      const { data, error } = await supabase
+        .from('products')
+        .update(changes)
+        .eq('id', id)
+        .select(PRODUCT_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      setProducts(current => current.map(p => p.id === id ? data : p));
+    } catch (error) {
+      console.error('Error updating product:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update product",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const savePrice = (product: Product, value: string) => {
+    if (value === '' || Number(value) < 0) {
+      toast({
+        title: "Error",
+        description: "Enter a price of zero or more",
+        variant: "destructive"
+      });
+      return;
+    }
+    updateProduct(product.id, { list_price: toMinorUnits(value) });
+  };
+
+  const saveStock = (product: Product, value: string) => {
+    const stock = Number(value);
+    if (value === '' || !Number.isInteger(stock) || stock < 0) {
+      toast({
+        title: "Error",
+        description: "Enter a whole number of units",
+        variant: "destructive"
+      });
+      return;
+    }
+    updateProduct(product.id, { stock_quantity: stock });
+  };
+
+  const setArchived = async (ids: string[], archived: boolean) => {
+    if (ids.length === 0) return;
+    setWorking(true);
+
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .in('id', ids);
+
+      if (error) throw error;
+
+      toast({
+        title: archived ? "Products archived" : "Products restored",
+        description: archived
+          ? `${ids.length} product${ids.length !== 1 ? 's are' : ' is'} hidden from your store.`
+          : `${ids.length} product${ids.length !== 1 ? 's are' : ' is'} back in your store.`
+      });
+      setSelected(new Set());
+      fetchProducts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update products",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const exportProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('*')
+        .eq('seller_id', user.id)
+        .order('name');
+
+      if (error) throw error;
+
+      downloadCsv(`products-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(toProductCsv(data || [], allCategories)));
+    } catch (error) {
+      console.error('Error exporting products:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export products",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteProducts = async (ids: string[]) => {
+    setPendingDelete([]);
+    if (ids.length === 0) return;
+    setWorking(true);
+
+    try {
+      const { data: images } = await supabase
+        .from('product_images')
+        .select('storage_path, thumbnail_path, url, thumbnail_url')
+        .in('product_id', ids);
+
+      const { error } = await supabase
+        .from('products')
+        .delete()
+        .in('id', ids);
+
+      if (error) throw error;
+
+      try {
+        await removeProductImageFiles(images || []);
+      } catch (error) {
+        console.error('Error removing image files:', error);
+      }
+
+      toast({
+        title: "Products deleted",
+        description: `${ids.length} product${ids.length !== 1 ? 's were' : ' was'} deleted.`
+      });
+      setSelected(new Set());
+      fetchProducts();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === FOREIGN_KEY_VIOLATION
+          ? "Products that have been ordered can't be deleted. Archive them instead to hide them from your store."
+          : error instanceof Error ? error.message : "Failed to delete products",
+        variant: "destructive"
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const sortableHead = (key: SortKey, label: string) => (
+    <TableHead>
+      <Button variant="ghost" size="sm" className="-ml-3" onClick={() => toggleSort(key)}>
+        {label}
+        <ArrowUpDown className="w-4 h-4 ml-2" />
+      </Button>
+    </TableHead>
+  );
+
+  return (
+    <Layout>
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <div className="flex items-center space-x-4">
+            <Button variant="outline" size="icon" onClick={() => navigate('/seller/dashboard')}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold">Products</h1>
+              <p className="text-muted-foreground">Edit prices and stock, or archive what you no longer sell</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={exportProducts}>
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <ProductCsvImport sellerId={user.id} onImported={fetchProducts} />
+            <Button onClick={() => navigate('/seller/products/new')}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Product
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4 mb-4">
+          <Input
+            placeholder="Search by name or SKU..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="md:max-w-xs"
+          />
+          <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+            <SelectTrigger className="md:w-40" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="archived">Archived</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="md:w-48" aria-label="Category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {categories.map((c) => (
+                <SelectItem key={c} value={c}>{c}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2 mb-4 p-3 border rounded-md bg-muted/50">
+            <span className="text-sm font-medium mr-auto">{selectedIds.length} selected</span>
+            <Button size="sm" variant="outline" disabled={working} onClick={() => setArchived(selectedIds, true)}>
+              <Archive className="w-4 h-4 mr-2" />
+              Archive
+            </Button>
+            <Button size="sm" variant="outline" disabled={working} onClick={() => setArchived(selectedIds, false)}>
+              <ArchiveRestore className="w-4 h-4 mr-2" />
+              Restore
+            </Button>
+            <Button size="sm" variant="destructive" disabled={working} onClick={() => setPendingDelete(selectedIds)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="text-center py-12">Loading products...</div>
+            ) : visibleProducts.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                {products.length === 0 ? 'No products yet' : 'No products match these filters'}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        aria-label="Select all"
+                        checked={allSelected}
+                        onCheckedChange={(checked) =>
+                          setSelected(checked ? new Set(visibleProducts.map(p => p.id)) : new Set())
+                        }
+                      />
+                    </TableHead>
+                    {sortableHead('name', 'Product')}
+                    <TableHead>Category</TableHead>
+                    {sortableHead('price', 'Price')}
+                    {sortableHead('stock_quantity', 'Stock')}
+                    {sortableHead('updated_at', 'Updated')}
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleProducts.map((product) => {
+                    const hasVariants = parseVariantOptions(product.variant_options).length > 0;
+                    return (
+                      <TableRow key={product.id} data-state={selected.has(product.id) ? 'selected' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select ${product.name}`}
+                            checked={selected.has(product.id)}
+                            onCheckedChange={(checked) => toggleSelected(product.id, !!checked)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            {product.image_url ? (
+                              <img src={product.image_url} alt="" className="w-10 h-10 rounded object-cover" />
+                            ) : (
+                              <div className="w-10 h-10 rounded bg-muted" />
+                            )}
+                            <div>
+                              <p className="font-medium">{product.name}</p>
+                              {product.sku && (
+                                <p className="text-xs text-muted-foreground font-mono">{product.sku}</p>
+                              )}
+                              <div className="flex gap-1">
+                                {product.archived_at && <Badge variant="secondary">Archived</Badge>}
+                                {hasVariants && <Badge variant="outline">Variants</Badge>}
+                              </div>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>{product.category}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <InlineNumberInput
+                              label={`${product.name} price`}
+                              step="0.01"
+                              value={fromMinorUnits(product.list_price)}
+                              onSave={(value) => savePrice(product, value)}
+                            />
+                            <span className="text-sm text-muted-foreground">{product.currency}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {hasVariants ? (
+                            // Stock is kept per variant and edited on the product's page
+                            <span title="Total across variants">{product.stock_quantity}</span>
+                          ) : (
+                            <InlineNumberInput
+                              label={`${product.name} stock`}
+                              value={String(product.stock_quantity)}
+                              onSave={(value) => saveStock(product, value)}
+                            />
+                          )}
+                          {product.reserved_quantity > 0 && (
+                            <p className="text-xs text-muted-foreground">{product.reserved_quantity} reserved</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {new Date(product.updated_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" aria-label="Actions">
+                                <MoreHorizontal className="w-4 h-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => navigate(`/seller/products/${product.id}/edit`)}>
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => navigate(`/product/${product.id}`)}>
+                                <Eye className="w-4 h-4 mr-2" />
+                                View in Store
+                              </DropdownMenuItem>
+                              {product.archived_at ? (
+                                <DropdownMenuItem disabled={working} onClick={() => setArchived([product.id], false)}>
+                                  <ArchiveRestore className="w-4 h-4 mr-2" />
+                                  Restore
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem disabled={working} onClick={() => setArchived([product.id], true)}>
+                                  <Archive className="w-4 h-4 mr-2" />
+                                  Archive
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                disabled={working}
+                                onClick={() => setPendingDelete([product.id])}
+                              >
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertDialog open={pendingDelete.length > 0} onOpenChange={(open) => !open && setPendingDelete([])}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Delete {pendingDelete.length} product{pendingDelete.length !== 1 ? 's' : ''}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                This can't be undone. Products that have been ordered can't be deleted; archive them
+                instead to hide them from your store while keeping your order history.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => deleteProducts(pendingDelete)}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default SellerProducts;
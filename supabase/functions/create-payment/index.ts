@@ -7,6 +7,91 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface CartItemInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+interface OrderItemRow {
+  quantity: number;
+  price: number;
+  variant_name: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  products: {
+    name: string;
+    description: string | null;
+  };
+}
+
+interface ShippingAddressInput {
+  label?: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postal_code?: string;
+  country: string;
+  latitude?: number;
+  longitude?: number;
+  phone?: string;
+  delivery_instructions?: string;
+}
+
+interface StockShortage {
+  product_id: string;
+  variant_id: string | null;
+  name: string | null;
+  requested: number;
+  available: number;
+}
+
+// create_order lists every line it cannot fill as JSON in the error DETAIL
+const parseStockShortages = (details: string | undefined): StockShortage[] => {
+  try {
+    return JSON.parse(details ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+const describeShortage = (shortage: StockShortage) => {
+  if (!shortage.name) return "A product in your cart is no longer available";
+  if (shortage.available === 0) return `${shortage.name} is out of stock`;
+  return `Only ${shortage.available} of ${shortage.name} left (you asked for ${shortage.requested})`;
+};
+
+// One line of the Stripe session, in minor units of the charge currency
+interface ChargeLine {
+  name: string;
+  description?: string;
+  unit_amount: number;
+  quantity: number;
+}
+
+// Lines converted one by one can add up to a few minor units more or less
+// than the converted order total that checkout showed. The difference goes
+// on the largest single-quantity line, or on one unit split off an item, so
+// the session charges exactly `total`.
+const balanceLines = (lines: ChargeLine[], total: number) => {
+  const remainder = total - lines.reduce((sum, line) => sum + line.unit_amount * line.quantity, 0);
+  if (remainder === 0) return lines;
+
+  const single = lines
+    .filter((line) => line.quantity === 1)
+    .sort((a, b) => b.unit_amount - a.unit_amount)[0];
+  if (single) {
+    return lines.map((line) => (line === single ? { ...line, unit_amount: line.unit_amount + remainder } : line));
+  }
+
+  const [first, ...rest] = lines;
+  return [
+    { ...first, quantity: first.quantity - 1 },
+    { ...first, quantity: 1, unit_amount: first.unit_amount + remainder },
+    ...rest,
+  ];
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -27,83 +112,170 @@ serve(async (req) => {
     const user = data.user;
     if (!user?.email) throw new Error("User not authenticated or email not available");
 
-    // Parse request body
-    const { amount, currency, shipping_address, cart_items } = await req.json();
+    // Parse request body - prices are never taken from the client
+    const { currency, shipping_address, cart_items, promotion_code } = await req.json();
 
-    // Initialize Stripe
-    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
-      apiVersion: "2023-10-16",
-    });
-
-    // Check if a Stripe customer record exists for this user
-    const customers = await stripe.customers.list({ email: user.email, limit: 1 });
-    let customerId;
-    if (customers.data.length > 0) {
-      customerId = customers.data[0].id;
+    if (!Array.isArray(cart_items) || cart_items.length === 0) {
+      return new Response(JSON.stringify({ error: "Your cart is empty" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
     }
 
-    // Create line items from cart
-    const line_items = cart_items.map((item: any) => ({
-      price_data: {
-        currency: currency || "usd",
-        product_data: {
-          name: item.product.name,
-          description: item.product.description,
-        },
-        unit_amount: Math.round(item.product.price * 100), // Convert to cents
-      },
-      quantity: item.quantity,
-    }));
-
-    // Create a one-time payment session
-    const session = await stripe.checkout.sessions.create({
-      customer: customerId,
-      customer_email: customerId ? undefined : user.email,
-      line_items,
-      mode: "payment",
-      success_url: `${req.headers.get("origin")}/dashboard?payment=success`,
-      cancel_url: `${req.headers.get("origin")}/checkout?payment=cancelled`,
-      metadata: {
-        user_id: user.id,
-        shipping_address: shipping_address,
-      },
-    });
-
-    // Create order record with stripe session ID
     const supabaseService = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
       { auth: { persistSession: false } }
     );
 
-    const { data: order, error: orderError } = await supabaseService
-      .from("orders")
-      .insert({
-        user_id: user.id,
-        stripe_session_id: session.id,
-        total_amount: amount / 100, // Convert back from cents
-        payment_method: 'card',
-        shipping_address: shipping_address,
-        status: "pending",
-      })
-      .select()
-      .single();
-
-    if (orderError) throw orderError;
-
-    // Create order items
-    const orderItems = cart_items.map((item: any) => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      quantity: item.quantity,
-      price: item.product.price,
-    }));
-
-    const { error: itemsError } = await supabaseService
-      .from("order_items")
-      .insert(orderItems);
-
-    if (itemsError) throw itemsError;
+    // Price the cart and reserve its stock before starting the payment
+    const { data: order, error: orderError } = await supabaseService.rpc("create_order", {
+      p_user_id: user.id,
+      p_items: cart_items.map((item: CartItemInput) => ({
+        product_id: item.product_id,
+        variant_id: item.variant_id ?? null,
+        quantity: item.quantity,
+      })),
+      p_address: shipping_address as ShippingAddressInput,
+      p_payment_method: "card",
+      p_promotion_code: promotion_code || null,
+      p_currency: currency || "USD",
+    });
+
+    if (orderError) {
+      if (orderError.message === "Insufficient stock") {
+        const shortages = parseStockShortages(orderError.details);
+        return new Response(
+          JSON.stringify({ error: shortages.map(describeShortage).join(". "), shortages }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 409,
+          }
+        );
+      }
+
+      return new Response(JSON.stringify({ error: orderError.message }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    let session: Stripe.Checkout.Session;
+    try {
+      const { data: orderItems, error: itemsError } = await supabaseService
+        .from("order_items")
+        .select("quantity, price, variant_name, tax_rate, tax_amount, products (name, description)")
+        .eq("order_id", order.id);
+
+      if (itemsError) throw itemsError;
+
+      // Initialize Stripe
+      const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+        apiVersion: "2023-10-16",
+      });
+
+      // Check if a Stripe customer record exists for this user
+      const customers = await stripe.customers.list({ email: user.email, limit: 1 });
+      let customerId;
+      if (customers.data.length > 0) {
+        customerId = customers.data[0].id;
+      }
+
+      // Order amounts are USD cents; charge them in the order's currency at
+      // the rate create_order recorded
+      const chargeCurrency = order.currency.toLowerCase();
+      const toChargeAmount = (amount: number) => Math.round(amount * order.exchange_rate);
+
+      // Create lines from the server-side order prices
+      const lines: ChargeLine[] = (orderItems as OrderItemRow[]).map((item) => ({
+        name: item.variant_name ? `${item.products.name} (${item.variant_name})` : item.products.name,
+        description: item.products.description || undefined,
+        unit_amount: toChargeAmount(item.price),
+        quantity: item.quantity,
+      }));
+
+      // Delivery fees from the sellers' zones, as one line
+      if (order.delivery_fee > 0) {
+        lines.push({ name: "Delivery", unit_amount: toChargeAmount(order.delivery_fee), quantity: 1 });
+      }
+
+      // Stripe takes the discount as a coupon; a single-use one for this order's
+      // amount keeps the session total equal to the order total
+      let discounts: Stripe.Checkout.SessionCreateParams.Discount[] | undefined;
+      const discountAmount = order.discount_amount > 0 ? toChargeAmount(order.discount_amount) : 0;
+      if (discountAmount > 0) {
+        const coupon = await stripe.coupons.create({
+          amount_off: discountAmount,
+          currency: chargeCurrency,
+          duration: "once",
+          max_redemptions: 1,
+          name: order.promotion_code ?? "Discount",
+        });
+        discounts = [{ coupon: coupon.id }];
+      }
+
+      // Tax as one line per rate, so the receipt shows what was charged at each
+      const taxByRate = new Map<number, number>();
+      for (const item of orderItems as OrderItemRow[]) {
+        if (item.tax_amount > 0) {
+          taxByRate.set(item.tax_rate, (taxByRate.get(item.tax_rate) ?? 0) + item.tax_amount);
+        }
+      }
+      for (const [rate, amount] of taxByRate) {
+        lines.push({ name: `Tax (${rate}%)`, unit_amount: toChargeAmount(amount), quantity: 1 });
+      }
+
+      // The order total is converted once, and the lines made to add up to it
+      // before the coupon comes off
+      const line_items: Stripe.Checkout.SessionCreateParams.LineItem[] = balanceLines(
+        lines,
+        toChargeAmount(order.total_amount) + discountAmount
+      ).map((line) => ({
+        price_data: {
+          currency: chargeCurrency,
+          product_data: { name: line.name, description: line.description },
+          unit_amount: line.unit_amount,
+        },
+        quantity: line.quantity,
+      }));
+
+      // Create a one-time payment session. Expire it after 30 minutes (Stripe's
+      // minimum) so abandoned checkouts release their reserved stock quickly.
+      session = await stripe.checkout.sessions.create({
+        customer: customerId,
+        customer_email: customerId ? undefined : user.email,
+        line_items,
+        discounts,
+        mode: "payment",
+        expires_at: Math.floor(Date.now() / 1000) + 30 * 60,
+        success_url: `${req.headers.get("origin")}/dashboard?payment=success`,
+        cancel_url: `${req.headers.get("origin")}/checkout?payment=cancelled`,
+        metadata: {
+          user_id: user.id,
+          order_id: order.id,
+          shipping_address: order.shipping_address,
+        },
+        // Lets payment_intent.* webhook events find the order
+        payment_intent_data: {
+          metadata: { order_id: order.id },
+        },
+      });
+
+      const { error: updateError } = await supabaseService
+        .from("orders")
+        .update({ stripe_session_id: session.id })
+        .eq("id", order.id);
+
+      if (updateError) throw updateError;
+    } catch (error) {
+      // Cancel the order, giving its reserved stock back, if the payment could not be started
+      await supabaseService.rpc("transition_order_status", {
+        p_order_id: order.id,
+        p_status: "cancelled",
+        p_note: "Payment could not be started",
+      });
+      throw error;
+    }
 
     return new Response(JSON.stringify({ url: session.url }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -6,6 +6,26 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface OrderWithFulfillments {
+  id: string;
+  shipping_address: string | null;
+  order_fulfillments: {
+    id: string;
+    seller_id: string;
+    subtotal: number;
+    delivery_fee: number;
+    discount_amount: number;
+    order_items: {
+      quantity: number;
+      variant_name: string | null;
+      products: { name: string } | null;
+    }[];
+  }[];
+}
+
+// Order amounts are stored in USD cents
+const formatCents = (amount: number) => `$${(amount / 100).toFixed(2)}`;
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -22,53 +42,47 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    // Get order details with order items and products
+    // Get the order with its per-seller fulfilments and their items
     const { data: orderData, error: orderError } = await supabase
       .from('orders')
       .select(`
-        *,
-        order_items (
-          *,
-          products (
-            id,
-            name,
-            seller_id
+        id,
+        shipping_address,
+        order_fulfillments (
+          id,
+          seller_id,
+          subtotal,
+          delivery_fee,
+          discount_amount,
+          order_items (
+            quantity,
+            variant_name,
+            products (
+              name
+            )
           )
         )
       `)
       .eq('id', order_id)
-      .single();
+      .single<OrderWithFulfillments>();
 
     if (orderError) throw orderError;
 
-    // Group products by seller
-    const sellerProducts = new Map();
-    
-    orderData.order_items.forEach((item: any) => {
-      const sellerId = item.products.seller_id;
-      if (!sellerProducts.has(sellerId)) {
-        sellerProducts.set(sellerId, []);
-      }
-      sellerProducts.get(sellerId).push({
-        name: item.products.name,
-        quantity: item.quantity,
-        price: item.price
-      });
-    });
+    // Create one notification per seller, covering only their part of the order
+    const notifications = orderData.order_fulfillments.map((fulfillment) => {
+      const productList = fulfillment.order_items
+        .map((item) => `${item.products?.name}${item.variant_name ? ` - ${item.variant_name}` : ''} (Qty: ${item.quantity})`)
+        .join(', ');
+      const message = `New order received! Order #${order_id.slice(0, 8)} - Products: ${productList}. Total: ${formatCents(fulfillment.subtotal)}${fulfillment.discount_amount > 0 ? ` - ${formatCents(fulfillment.discount_amount)} your discount code` : ''}${fulfillment.delivery_fee > 0 ? ` + ${formatCents(fulfillment.delivery_fee)} delivery` : ''}. Address: ${orderData.shipping_address}. Please assign a driver for delivery.`;
 
-    // Create notifications for each seller
-    const notifications = [];
-    for (const [sellerId, products] of sellerProducts) {
-      const productList = products.map((p: any) => `${p.name} (Qty: ${p.quantity})`).join(', ');
-      const message = `New order received! Order #${order_id.slice(0, 8)} - Products: ${productList}. Total: $${orderData.total_amount}. Address: ${orderData.shipping_address}. Please assign a driver for delivery.`;
-      
-      notifications.push({
-        seller_id: sellerId,
+      return {
+        seller_id: fulfillment.seller_id,
         order_id: order_id,
+        fulfillment_id: fulfillment.id,
         message: message,
         read: false
-      });
-    }
+      };
+    });
 
     // Insert all notifications
     const { error: notificationError } = await supabase
@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CartItemInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+interface ShippingAddressInput {
+  label?: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  postal_code?: string;
+  country: string;
+  latitude?: number;
+  longitude?: number;
+  phone?: string;
+  delivery_instructions?: string;
+}
+
+interface StockShortage {
+  product_id: string;
+  variant_id: string | null;
+  name: string | null;
+  requested: number;
+  available: number;
+}
+
+// create_order lists every line it cannot fill as JSON in the error DETAIL
+const parseStockShortages = (details: string | undefined): StockShortage[] => {
+  try {
+    return JSON.parse(details ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+const describeShortage = (shortage: StockShortage) => {
+  if (!shortage.name) return "A product in your cart is no longer available";
+  if (shortage.available === 0) return `${shortage.name} is out of stock`;
+  return `Only ${shortage.available} of ${shortage.name} left (you asked for ${shortage.requested})`;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Create Supabase client using the anon key for user authentication
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? ""
+  );
+
+  try {
+    // Retrieve authenticated user
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+    if (!user) throw new Error("User not authenticated");
+
+    // Parse request body - only product and variant ids and quantities are trusted from the client
+    const { currency, shipping_address, cart_items, promotion_code } = await req.json();
+
+    if (!Array.isArray(cart_items) || cart_items.length === 0) {
+      return new Response(JSON.stringify({ error: "Your cart is empty" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    const items = cart_items.map((item: CartItemInput) => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id ?? null,
+      quantity: item.quantity,
+    }));
+
+    const supabaseService = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Price the cart and create the order and its items in one transaction
+    const { data: order, error: orderError } = await supabaseService.rpc("create_order", {
+      p_user_id: user.id,
+      p_items: items,
+      p_address: shipping_address as ShippingAddressInput,
+      p_payment_method: "cash",
+      p_promotion_code: promotion_code || null,
+      p_currency: currency || "USD",
+    });
+
+    if (orderError) {
+      if (orderError.message === "Insufficient stock") {
+        const shortages = parseStockShortages(orderError.details);
+        return new Response(
+          JSON.stringify({ error: shortages.map(describeShortage).join(". "), shortages }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 409,
+          }
+        );
+      }
+
+      return new Response(JSON.stringify({ error: orderError.message }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      });
+    }
+
+    // Clear the user's cart now that the order exists
+    const { error: cartError } = await supabaseService
+      .from("cart_items")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (cartError) {
+      console.error("Error clearing cart:", cartError);
+    }
+
+    // Notify sellers about the new cash order
+    const { error: notifyError } = await supabaseService.functions.invoke("notify-sellers", {
+      body: { order_id: order.id },
+    });
+
+    if (notifyError) {
+      console.error("Error notifying sellers:", notifyError);
+    }
+
+    return new Response(JSON.stringify({ order }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Error in place-order:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
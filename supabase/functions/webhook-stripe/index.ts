@@ -6,13 +6,123 @@ const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
   apiVersion: "2023-10-16",
 });
 
+// How an event changes its order. apply_stripe_event finds the order by
+// `column`, and moves it to `to` if it is in one of the `from` statuses, in
+// the same transaction that claims the event.
+interface OrderChange {
+  column?: "id" | "stripe_session_id" | "stripe_payment_intent_id";
+  value?: string | null;
+  from?: string[];
+  to?: string;
+  note?: string;
+  paymentIntentId?: string | null;
+}
+
+const NO_CHANGE: OrderChange = {};
+
+const paymentIntentId = (paymentIntent: string | { id: string } | null) =>
+  typeof paymentIntent === "string" ? paymentIntent : paymentIntent?.id ?? null;
+
+const sessionCompletedChange = (session: Stripe.Checkout.Session): OrderChange => {
+  console.log("Payment successful for session:", session.id);
+
+  // Paying takes the reserved items out of stock. The payment intent is kept
+  // so later refund and dispute events can find the order.
+  return {
+    column: "stripe_session_id",
+    value: session.id,
+    from: ["pending", "payment_failed"],
+    to: "paid",
+    note: "Paid by card",
+    paymentIntentId: paymentIntentId(session.payment_intent),
+  };
+};
+
+const sessionExpiredChange = (session: Stripe.Checkout.Session): OrderChange => {
+  console.log("Checkout session expired:", session.id);
+
+  // The buyer never paid - cancelling the order releases its stock
+  return {
+    column: "stripe_session_id",
+    value: session.id,
+    from: ["pending", "payment_failed"],
+    to: "cancelled",
+    note: "Checkout session expired",
+  };
+};
+
+const paymentFailedChange = (paymentIntent: Stripe.PaymentIntent): OrderChange => {
+  console.log("Payment failed for payment intent:", paymentIntent.id);
+
+  // Stock stays reserved: the buyer can retry on the same Checkout session
+  // until it expires
+  return {
+    ...(paymentIntent.metadata?.order_id
+      ? { column: "id", value: paymentIntent.metadata.order_id }
+      : { column: "stripe_payment_intent_id", value: paymentIntent.id }),
+    from: ["pending"],
+    to: "payment_failed",
+    note: "Card payment failed",
+  };
+};
+
+const chargeRefundedChange = (charge: Stripe.Charge): OrderChange => {
+  console.log("Charge refunded:", charge.id);
+
+  const order: OrderChange = {
+    column: "stripe_payment_intent_id",
+    value: paymentIntentId(charge.payment_intent),
+  };
+
+  // Partial refunds leave the order as it is; the event is still recorded
+  if (!charge.refunded) return order;
+
+  // Refunding puts the items back into stock
+  return {
+    ...order,
+    from: ["paid", "preparing", "out_for_delivery", "delivery_failed", "delivered", "disputed"],
+    to: "refunded",
+    note: "Charge refunded",
+  };
+};
+
+const disputeCreatedChange = (dispute: Stripe.Dispute): OrderChange => {
+  console.log("Dispute created:", dispute.id);
+
+  return {
+    column: "stripe_payment_intent_id",
+    value: paymentIntentId(dispute.payment_intent),
+    from: ["paid", "preparing", "out_for_delivery", "delivery_failed", "delivered"],
+    to: "disputed",
+    note: `Charge disputed: ${dispute.reason}`,
+  };
+};
+
+const orderChangeFor = (event: Stripe.Event): OrderChange => {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return sessionCompletedChange(event.data.object as Stripe.Checkout.Session);
+    case "checkout.session.expired":
+      return sessionExpiredChange(event.data.object as Stripe.Checkout.Session);
+    case "payment_intent.payment_failed":
+      return paymentFailedChange(event.data.object as Stripe.PaymentIntent);
+    case "charge.refunded":
+      return chargeRefundedChange(event.data.object as Stripe.Charge);
+    case "charge.dispute.created":
+      return disputeCreatedChange(event.data.object as Stripe.Dispute);
+    default:
+      console.log("Ignoring unhandled event type:", event.type);
+      return NO_CHANGE;
+  }
+};
+
 serve(async (req) => {
   try {
     const body = await req.text();
     const signature = req.headers.get("stripe-signature");
 
     // Verify webhook signature (in production you should set STRIPE_WEBHOOK_SECRET)
-    let event;
+    let event: Stripe.Event;
     try {
       event = stripe.webhooks.constructEvent(
         body,
@@ -30,46 +140,48 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
-    // Handle successful payment
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
-      
-      console.log("Payment successful for session:", session.id);
-
-      // Update order status to paid
-      const { error: updateError } = await supabase
-        .from("orders")
-        .update({ 
-          status: "paid",
-          updated_at: new Date().toISOString()
-        })
-        .eq("stripe_session_id", session.id);
-
-      if (updateError) {
-        console.error("Error updating order:", updateError);
-        throw updateError;
-      }
+    // Claim the event and change its order in one transaction. Stripe retries
+    // deliveries: a failure keeps nothing, so the retry starts over, and an
+    // event that was already applied is not applied again.
+    const change = orderChangeFor(event);
+    const { data: applied, error: applyError } = await supabase.rpc("apply_stripe_event", {
+      p_event_id: event.id,
+      p_type: event.type,
+      p_column: change.column,
+      p_value: change.value ?? undefined,
+      p_from: change.from,
+      p_to: change.to,
+      p_note: change.note,
+      p_payment_intent_id: change.paymentIntentId ?? undefined,
+    });
 
-      // Get the order to notify sellers
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .select("id")
-        .eq("stripe_session_id", session.id)
-        .single();
+    if (applyError) throw applyError;
 
-      if (orderError) {
-        console.error("Error fetching order:", orderError);
-        throw orderError;
-      }
+    if (applied.order_id && change.to && !applied.new_status) {
+      console.log(`Order ${applied.order_id} is ${applied.previous_status}, not moving it to ${change.to}`);
+    }
+
+    // Notify sellers about the paid order, once. The notification is claimed on
+    // the event first, so only one delivery of it sends; if sending fails the
+    // claim is released and Stripe's retry sends it.
+    if (applied.new_status === "paid" && !applied.sellers_notified_at) {
+      const { data: claimed, error: claimError } = await supabase
+        .from("stripe_events")
+        .update({ sellers_notified_at: new Date().toISOString() })
+        .eq("id", event.id)
+        .is("sellers_notified_at", null)
+        .select("id");
 
-      // Notify sellers about the paid order
-      if (order) {
-        const { error: notifyError } = await supabase.functions.invoke('notify-sellers', {
-          body: { order_id: order.id }
+      if (claimError) throw claimError;
+
+      if (claimed.length > 0) {
+        const { error: notifyError } = await supabase.functions.invoke("notify-sellers", {
+          body: { order_id: applied.order_id },
         });
 
         if (notifyError) {
-          console.error("Error notifying sellers:", notifyError);
+          await supabase.from("stripe_events").update({ sellers_notified_at: null }).eq("id", event.id);
+          throw notifyError;
         }
       }
     }
@@ -79,4 +191,4 @@ serve(async (req) => {
     console.error("Webhook error:", error);
     return new Response("Webhook error", { status: 500 });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,79 @@
+-- Orders are now placed server-side through the place-order edge function.
+-- Remove the client-side insert policies so the browser can no longer write
+-- orders or order items (and their prices) directly.
+DROP POLICY IF EXISTS "Users can insert their own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can insert order items" ON public.order_items;
+
+-- Create an order from a list of { product_id, quantity } pairs.
+-- Prices and stock are read from products, never from the caller, and the
+-- order and its items are written in a single transaction.
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_shipping_address TEXT,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_product public.products;
+  v_total NUMERIC := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'Shipping address is required';
+  END IF;
+
+  INSERT INTO public.orders (user_id, total_amount, shipping_address, payment_method, status)
+  VALUES (p_user_id, 0, p_shipping_address, p_payment_method, 'pending')
+  RETURNING * INTO v_order;
+
+  -- Merge duplicate lines for the same product before pricing them
+  FOR v_line IN
+    SELECT (item->>'product_id')::UUID AS product_id,
+           SUM((item->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    SELECT * INTO v_product
+    FROM public.products
+    WHERE id = v_line.product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_line.product_id;
+    END IF;
+
+    IF COALESCE(v_product.stock_quantity, 0) < v_line.quantity THEN
+      RAISE EXCEPTION 'Only % of "%" left in stock', COALESCE(v_product.stock_quantity, 0), v_product.name;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, quantity, price)
+    VALUES (v_order.id, v_product.id, v_line.quantity, v_product.price);
+
+    v_total := v_total + v_product.price * v_line.quantity;
+  END LOOP;
+
+  UPDATE public.orders
+  SET total_amount = v_total
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Only edge functions (service role) may create orders
+REVOKE EXECUTE ON FUNCTION public.create_order(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, TEXT, TEXT) TO service_role;
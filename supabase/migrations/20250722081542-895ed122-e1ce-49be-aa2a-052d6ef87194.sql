@@ -0,0 +1,279 @@
+-- Stock reservation: stock is held when an order is created, taken out of
+-- stock_quantity once the order is paid (card) or confirmed (cash), and given
+-- back when the order is cancelled or its payment session expires.
+
+-- Units held by open orders; available stock is stock_quantity - reserved_quantity
+ALTER TABLE public.products
+ADD COLUMN reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0);
+
+-- Where the order's stock currently stands
+ALTER TABLE public.orders
+ADD COLUMN stock_status TEXT CHECK (stock_status IN ('reserved', 'committed', 'released'));
+
+-- Normalise a cart payload into one line per product
+CREATE OR REPLACE FUNCTION public.cart_lines(p_items JSONB)
+RETURNS TABLE (product_id UUID, quantity INTEGER)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (item->>'product_id')::UUID, SUM((item->>'quantity')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(p_items) AS item
+  GROUP BY 1
+$$;
+
+-- Lets policies check seller access to an order without recursing through
+-- the orders <-> order_items policies
+CREATE OR REPLACE FUNCTION public.is_order_seller(p_order_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.order_items oi
+    JOIN public.products p ON p.id = oi.product_id
+    WHERE oi.order_id = p_order_id AND p.seller_id = p_user_id
+  )
+$$;
+
+-- Sellers need to see the orders they have to confirm and fulfil
+CREATE POLICY "Sellers can view orders for their products" ON public.orders
+FOR SELECT
+USING (public.is_order_seller(id, auth.uid()));
+
+CREATE POLICY "Sellers can view order items for their products" ON public.order_items
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE products.id = order_items.product_id
+  AND products.seller_id = auth.uid()
+));
+
+-- Create an order and reserve its stock. Rejects the whole order when any
+-- line asks for more than is available; the per-item shortages are returned
+-- as JSON in the error DETAIL.
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_shipping_address TEXT,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'Shipping address is required';
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (user_id, total_amount, shipping_address, payment_method, status, stock_status)
+  VALUES (p_user_id, v_total, p_shipping_address, p_payment_method, 'pending', 'reserved')
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price)
+  SELECT v_order.id, p.id, l.quantity, p.price
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Take a reserved order's items out of stock (payment received / cash order confirmed)
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.products p
+  SET stock_quantity = COALESCE(p.stock_quantity, 0) - i.quantity,
+      reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE order_id = p_order_id
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  UPDATE public.orders SET stock_status = 'committed' WHERE id = p_order_id;
+END;
+$$;
+
+-- Give an order's stock back: drop the reservation, or restock if it was
+-- already taken out of stock
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status = 'reserved' THEN
+    UPDATE public.products p
+    SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSIF v_stock_status = 'committed' THEN
+    UPDATE public.products p
+    SET stock_quantity = COALESCE(p.stock_quantity, 0) + i.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE order_id = p_order_id
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSE
+    RETURN;
+  END IF;
+
+  UPDATE public.orders SET stock_status = 'released' WHERE id = p_order_id;
+END;
+$$;
+
+-- Seller confirms a pending cash-on-delivery order, which commits its stock
+CREATE OR REPLACE FUNCTION public.confirm_cash_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  IF NOT public.is_order_seller(p_order_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You can only confirm orders for your own products';
+  END IF;
+
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_order.payment_method <> 'cash' OR v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending cash orders can be confirmed';
+  END IF;
+
+  UPDATE public.orders SET status = 'confirmed' WHERE id = p_order_id;
+  PERFORM public.commit_order_stock(p_order_id);
+END;
+$$;
+
+-- Buyer cancels their own cash order before a seller confirms it. Unpaid card
+-- orders are not cancelled here: their Stripe session expires and the webhook
+-- releases the stock.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.payment_method <> 'cash' OR v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending cash orders can be cancelled';
+  END IF;
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = p_order_id;
+  PERFORM public.release_order_stock(p_order_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, TEXT, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.commit_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.commit_order_stock(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.release_order_stock(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_order_stock(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.confirm_cash_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.confirm_cash_order(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO authenticated;
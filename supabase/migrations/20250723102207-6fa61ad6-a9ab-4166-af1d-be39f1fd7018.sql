@@ -0,0 +1,29 @@
+-- Payment intent behind a card order, used to match refund and dispute events
+ALTER TABLE public.orders
+ADD COLUMN stripe_payment_intent_id TEXT;
+
+CREATE INDEX idx_orders_stripe_session_id ON public.orders(stripe_session_id);
+CREATE INDEX idx_orders_stripe_payment_intent_id ON public.orders(stripe_payment_intent_id);
+
+-- Every Stripe webhook event we have processed. The primary key on the Stripe
+-- event ID makes retried deliveries no-ops, and the status columns record what
+-- each event did to its order.
+CREATE TABLE public.stripe_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  previous_status TEXT,
+  new_status TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the webhook (service role) reads or writes Stripe events
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_stripe_events_order_id ON public.stripe_events(order_id);
+
+CREATE TRIGGER update_stripe_events_updated_at
+BEFORE UPDATE ON public.stripe_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
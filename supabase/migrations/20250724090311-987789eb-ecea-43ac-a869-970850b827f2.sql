@@ -0,0 +1,291 @@
+-- Formal order lifecycle:
+--   pending -> paid (card) / confirmed (cash) -> preparing -> out_for_delivery -> delivered
+-- plus cancelled, refunded, and the Stripe-driven payment_failed and disputed.
+CREATE TYPE public.order_status AS ENUM (
+  'pending',
+  'payment_failed',
+  'paid',
+  'confirmed',
+  'preparing',
+  'out_for_delivery',
+  'delivered',
+  'cancelled',
+  'refunded',
+  'disputed'
+);
+
+-- Map the free-text statuses written so far onto the lifecycle
+UPDATE public.orders
+SET status = CASE
+  WHEN status IN ('pending', 'payment_failed', 'paid', 'confirmed', 'preparing', 'out_for_delivery',
+                  'delivered', 'cancelled', 'refunded', 'disputed') THEN status
+  WHEN status IN ('driver_assigned', 'processing') THEN 'preparing'
+  WHEN status = 'shipped' THEN 'out_for_delivery'
+  ELSE 'pending'
+END;
+
+ALTER TABLE public.orders
+  ALTER COLUMN status DROP DEFAULT,
+  ALTER COLUMN status TYPE public.order_status USING status::public.order_status,
+  ALTER COLUMN status SET DEFAULT 'pending',
+  ALTER COLUMN status SET NOT NULL;
+
+-- Allowed status changes and who may make them. The service role (webhooks,
+-- edge functions) acts as 'system' and may make any allowed change.
+CREATE TABLE public.order_status_transitions (
+  from_status public.order_status NOT NULL,
+  to_status public.order_status NOT NULL,
+  allowed_roles TEXT[] NOT NULL DEFAULT '{}',
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status transitions are viewable by everyone"
+ON public.order_status_transitions
+FOR SELECT
+USING (true);
+
+INSERT INTO public.order_status_transitions (from_status, to_status, allowed_roles) VALUES
+  ('pending', 'paid', '{}'),
+  ('pending', 'payment_failed', '{}'),
+  ('pending', 'confirmed', '{seller}'),
+  ('pending', 'cancelled', '{buyer,seller}'),
+  ('payment_failed', 'paid', '{}'),
+  ('payment_failed', 'cancelled', '{}'),
+  ('paid', 'preparing', '{seller}'),
+  ('paid', 'refunded', '{}'),
+  ('paid', 'disputed', '{}'),
+  ('confirmed', 'preparing', '{seller}'),
+  ('confirmed', 'cancelled', '{seller}'),
+  ('preparing', 'out_for_delivery', '{seller}'),
+  ('preparing', 'cancelled', '{seller}'),
+  ('preparing', 'refunded', '{}'),
+  ('preparing', 'disputed', '{}'),
+  ('out_for_delivery', 'delivered', '{seller}'),
+  ('out_for_delivery', 'refunded', '{}'),
+  ('out_for_delivery', 'disputed', '{}'),
+  ('delivered', 'refunded', '{}'),
+  ('delivered', 'disputed', '{}'),
+  ('disputed', 'refunded', '{}'),
+  ('disputed', 'delivered', '{}');
+
+-- Audit trail of every status change
+CREATE TABLE public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  changed_by UUID,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view history of their own orders"
+ON public.order_status_history
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders
+  WHERE orders.id = order_status_history.order_id
+  AND orders.user_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can view history of orders for their products"
+ON public.order_status_history
+FOR SELECT
+USING (public.is_order_seller(order_id, auth.uid()));
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history(order_id, created_at);
+
+-- Existing orders start their history at their current status
+INSERT INTO public.order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT id, NULL, status, 'Status before order history was recorded', created_at
+FROM public.orders;
+
+-- Reject status changes that are not in the transition table
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Invalid order status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+-- Record each status change, and commit or release the order's stock as it
+-- is paid/confirmed or cancelled/refunded. transition_order_status passes its
+-- note through the app.order_status_note setting.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+
+  IF NEW.status IN ('paid', 'confirmed') THEN
+    PERFORM public.commit_order_stock(NEW.id);
+  ELSIF NEW.status IN ('cancelled', 'refunded') THEN
+    PERFORM public.release_order_stock(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_order_status_change
+AFTER INSERT OR UPDATE OF status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status_change();
+
+-- The single entry point for changing an order's status. Checks the caller's
+-- role against the transition table; the service role may make any allowed
+-- transition.
+CREATE OR REPLACE FUNCTION public.transition_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_role TEXT;
+  v_allowed_roles TEXT[];
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    v_role := 'system';
+  ELSIF public.is_order_seller(p_order_id, auth.uid()) THEN
+    v_role := 'seller';
+  ELSIF v_order.user_id = auth.uid() THEN
+    v_role := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT allowed_roles INTO v_allowed_roles
+  FROM public.order_status_transitions
+  WHERE from_status = v_order.status AND to_status = p_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move an order from % to %', v_order.status, p_status;
+  END IF;
+
+  IF v_role <> 'system' THEN
+    IF NOT v_role = ANY (v_allowed_roles) THEN
+      RAISE EXCEPTION 'You are not allowed to move this order from % to %', v_order.status, p_status;
+    END IF;
+
+    -- Card orders are confirmed and cancelled by their payment, not by people
+    IF v_order.status = 'pending' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders are confirmed or cancelled by their payment';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- Stock is now committed and released by the status trigger
+CREATE OR REPLACE FUNCTION public.confirm_cash_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.transition_order_status(p_order_id, 'confirmed', 'Cash order confirmed by seller');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.transition_order_status(p_order_id, 'cancelled', 'Cancelled by buyer');
+END;
+$$;
+
+-- Seller assigns a driver to a paid or confirmed order and starts preparing it
+CREATE OR REPLACE FUNCTION public.assign_order_driver(
+  p_order_id UUID,
+  p_driver_notes TEXT,
+  p_estimated_delivery TIMESTAMPTZ
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+BEGIN
+  IF NOT public.is_order_seller(p_order_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You can only assign drivers to orders for your own products';
+  END IF;
+
+  v_order := public.transition_order_status(p_order_id, 'preparing', p_driver_notes);
+
+  UPDATE public.orders
+  SET driver_assigned = true,
+      driver_notes = p_driver_notes,
+      estimated_delivery = p_estimated_delivery
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_order_status(UUID, public.order_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_order_status(UUID, public.order_status, TEXT) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.assign_order_driver(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_order_driver(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
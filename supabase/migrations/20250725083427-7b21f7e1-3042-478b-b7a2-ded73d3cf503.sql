@@ -0,0 +1,628 @@
+-- Split orders into one fulfilment per seller. Each fulfilment has its own
+-- status, driver and delivery ETA; the order's status follows its least
+-- advanced fulfilment, and payment events on the order carry down to all of
+-- them.
+CREATE TABLE public.order_fulfillments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL,
+  status public.order_status NOT NULL DEFAULT 'pending',
+  subtotal NUMERIC(10,2) NOT NULL DEFAULT 0,
+  driver_assigned BOOLEAN NOT NULL DEFAULT false,
+  driver_notes TEXT,
+  estimated_delivery TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (order_id, seller_id)
+);
+
+ALTER TABLE public.order_fulfillments ENABLE ROW LEVEL SECURITY;
+
+-- Changes go through transition_fulfillment_status and assign_fulfillment_driver
+CREATE POLICY "Users can view fulfilments of their own orders"
+ON public.order_fulfillments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders
+  WHERE orders.id = order_fulfillments.order_id
+  AND orders.user_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can view their own fulfilments"
+ON public.order_fulfillments
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE INDEX idx_order_fulfillments_order_id ON public.order_fulfillments(order_id);
+CREATE INDEX idx_order_fulfillments_seller_id ON public.order_fulfillments(seller_id);
+
+CREATE TRIGGER update_order_fulfillments_updated_at
+BEFORE UPDATE ON public.order_fulfillments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.order_items
+ADD COLUMN fulfillment_id UUID REFERENCES public.order_fulfillments(id) ON DELETE CASCADE;
+
+ALTER TABLE public.seller_notifications
+ADD COLUMN fulfillment_id UUID REFERENCES public.order_fulfillments(id) ON DELETE CASCADE;
+
+-- Fulfilment changes appear in the order's history alongside order-level changes
+ALTER TABLE public.order_status_history
+ADD COLUMN fulfillment_id UUID REFERENCES public.order_fulfillments(id) ON DELETE CASCADE;
+
+-- Split existing orders, carrying over their status and driver details
+INSERT INTO public.order_fulfillments (
+  order_id, seller_id, status, subtotal, driver_assigned, driver_notes, estimated_delivery, created_at
+)
+SELECT o.id,
+       p.seller_id,
+       o.status,
+       SUM(oi.price * oi.quantity),
+       COALESCE(o.driver_assigned, false),
+       o.driver_notes,
+       o.estimated_delivery,
+       o.created_at
+FROM public.orders o
+JOIN public.order_items oi ON oi.order_id = o.id
+JOIN public.products p ON p.id = oi.product_id
+GROUP BY o.id, p.seller_id;
+
+UPDATE public.order_items oi
+SET fulfillment_id = f.id
+FROM public.products p, public.order_fulfillments f
+WHERE p.id = oi.product_id
+AND f.order_id = oi.order_id
+AND f.seller_id = p.seller_id;
+
+ALTER TABLE public.order_items
+ALTER COLUMN fulfillment_id SET NOT NULL;
+
+CREATE INDEX idx_order_items_fulfillment_id ON public.order_items(fulfillment_id);
+
+UPDATE public.seller_notifications n
+SET fulfillment_id = f.id
+FROM public.order_fulfillments f
+WHERE f.order_id = n.order_id
+AND f.seller_id = n.seller_id;
+
+-- Driver details now live on each fulfilment
+ALTER TABLE public.orders
+  DROP COLUMN driver_assigned,
+  DROP COLUMN driver_notes,
+  DROP COLUMN estimated_delivery;
+
+-- Sellers now act on their fulfilments; 'seller' in allowed_roles applies to
+-- fulfilment transitions
+COMMENT ON COLUMN public.order_status_transitions.allowed_roles IS
+  'Who besides the service role may make this change: buyer (on the order) or seller (on their fulfilment)';
+
+-- Items of cancelled fulfilments have already had their stock given back, so
+-- order-wide stock changes skip them
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.products p
+  SET stock_quantity = COALESCE(p.stock_quantity, 0) - i.quantity,
+      reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+  FROM (
+    SELECT oi.product_id, SUM(oi.quantity) AS quantity
+    FROM public.order_items oi
+    JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+    WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+    GROUP BY oi.product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  UPDATE public.orders SET stock_status = 'committed' WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status = 'reserved' THEN
+    UPDATE public.products p
+    SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+    FROM (
+      SELECT oi.product_id, SUM(oi.quantity) AS quantity
+      FROM public.order_items oi
+      JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+      WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+      GROUP BY oi.product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSIF v_stock_status = 'committed' THEN
+    UPDATE public.products p
+    SET stock_quantity = COALESCE(p.stock_quantity, 0) + i.quantity
+    FROM (
+      SELECT oi.product_id, SUM(oi.quantity) AS quantity
+      FROM public.order_items oi
+      JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+      WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+      GROUP BY oi.product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSE
+    RETURN;
+  END IF;
+
+  UPDATE public.orders SET stock_status = 'released' WHERE id = p_order_id;
+END;
+$$;
+
+-- Give back the stock of a single cancelled fulfilment while the rest of the
+-- order carries on
+CREATE OR REPLACE FUNCTION public.release_fulfillment_stock(p_fulfillment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT o.stock_status INTO v_stock_status
+  FROM public.order_fulfillments f
+  JOIN public.orders o ON o.id = f.order_id
+  WHERE f.id = p_fulfillment_id;
+
+  IF v_stock_status = 'reserved' THEN
+    UPDATE public.products p
+    SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE fulfillment_id = p_fulfillment_id
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSIF v_stock_status = 'committed' THEN
+    UPDATE public.products p
+    SET stock_quantity = COALESCE(p.stock_quantity, 0) + i.quantity
+    FROM (
+      SELECT product_id, SUM(quantity) AS quantity
+      FROM public.order_items
+      WHERE fulfillment_id = p_fulfillment_id
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+  END IF;
+END;
+$$;
+
+-- Move the order to the status of its least advanced active fulfilment, or
+-- cancel it once every fulfilment is cancelled. Orders that are cancelled,
+-- refunded or disputed are settled at the order level and left alone.
+CREATE OR REPLACE FUNCTION public.sync_order_status(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.order_status;
+  v_target public.order_status;
+BEGIN
+  SELECT status INTO v_current FROM public.orders WHERE id = p_order_id;
+
+  IF v_current IN ('cancelled', 'refunded', 'disputed') THEN
+    RETURN;
+  END IF;
+
+  SELECT status INTO v_target
+  FROM public.order_fulfillments
+  WHERE order_id = p_order_id AND status <> 'cancelled'
+  ORDER BY CASE status
+    WHEN 'pending' THEN 0
+    WHEN 'payment_failed' THEN 0
+    WHEN 'paid' THEN 1
+    WHEN 'confirmed' THEN 1
+    WHEN 'preparing' THEN 2
+    WHEN 'out_for_delivery' THEN 3
+    ELSE 4
+  END
+  LIMIT 1;
+
+  v_target := COALESCE(v_target, 'cancelled');
+
+  IF v_target = v_current OR NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = v_current AND to_status = v_target
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.orders SET status = v_target WHERE id = p_order_id;
+END;
+$$;
+
+-- Order-level changes: record history, commit or release stock, then carry
+-- the new status down to every fulfilment that can take it. Stock is handled
+-- first so a cancelled order's items are not skipped as already released.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+
+  IF NEW.status IN ('paid', 'confirmed') THEN
+    PERFORM public.commit_order_stock(NEW.id);
+  ELSIF NEW.status IN ('cancelled', 'refunded') THEN
+    PERFORM public.release_order_stock(NEW.id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE public.order_fulfillments f
+    SET status = NEW.status
+    WHERE f.order_id = NEW.id
+    AND f.status <> NEW.status
+    AND EXISTS (
+      SELECT 1 FROM public.order_status_transitions t
+      WHERE t.from_status = f.status AND t.to_status = NEW.status
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fulfilment changes: record history, give back a cancelled fulfilment's
+-- stock and roll the status up to the order
+CREATE OR REPLACE FUNCTION public.record_fulfillment_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.order_status_history (order_id, fulfillment_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.order_id,
+    NEW.id,
+    OLD.status,
+    NEW.status,
+    auth.uid(),
+    NULLIF(current_setting('app.order_status_note', true), '')
+  );
+
+  IF NEW.status = 'cancelled' AND NOT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = NEW.order_id AND status IN ('cancelled', 'refunded')
+  ) THEN
+    PERFORM public.release_fulfillment_stock(NEW.id);
+  END IF;
+
+  PERFORM public.sync_order_status(NEW.order_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_fulfillment_status_transition
+BEFORE UPDATE OF status ON public.order_fulfillments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE TRIGGER record_fulfillment_status_change
+AFTER UPDATE OF status ON public.order_fulfillments
+FOR EACH ROW
+EXECUTE FUNCTION public.record_fulfillment_status_change();
+
+-- Order-level changes are now made by the service role (payments) and buyers;
+-- sellers use transition_fulfillment_status
+CREATE OR REPLACE FUNCTION public.transition_order_status(
+  p_order_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_role TEXT;
+  v_allowed_roles TEXT[];
+BEGIN
+  SELECT * INTO v_order FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    v_role := 'system';
+  ELSIF v_order.user_id = auth.uid() THEN
+    v_role := 'buyer';
+  ELSE
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  SELECT allowed_roles INTO v_allowed_roles
+  FROM public.order_status_transitions
+  WHERE from_status = v_order.status AND to_status = p_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move an order from % to %', v_order.status, p_status;
+  END IF;
+
+  IF v_role <> 'system' THEN
+    IF NOT v_role = ANY (v_allowed_roles) THEN
+      RAISE EXCEPTION 'You are not allowed to move this order from % to %', v_order.status, p_status;
+    END IF;
+
+    -- Card orders are confirmed and cancelled by their payment, not by people
+    IF v_order.status = 'pending' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders are confirmed or cancelled by their payment';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- The single entry point for a seller changing their part of an order
+CREATE OR REPLACE FUNCTION public.transition_fulfillment_status(
+  p_fulfillment_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_order public.orders;
+  v_allowed_roles TEXT[];
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id;
+
+  IF NOT FOUND OR (auth.uid() IS NOT NULL AND v_fulfillment.seller_id <> auth.uid()) THEN
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  -- Lock the order before the fulfilment, in the same order as order-level
+  -- changes, so the two cannot deadlock
+  SELECT * INTO v_order FROM public.orders WHERE id = v_fulfillment.order_id FOR UPDATE;
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id FOR UPDATE;
+
+  SELECT allowed_roles INTO v_allowed_roles
+  FROM public.order_status_transitions
+  WHERE from_status = v_fulfillment.status AND to_status = p_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move a fulfilment from % to %', v_fulfillment.status, p_status;
+  END IF;
+
+  IF auth.uid() IS NOT NULL THEN
+    IF NOT 'seller' = ANY (v_allowed_roles) THEN
+      RAISE EXCEPTION 'You are not allowed to move this fulfilment from % to %', v_fulfillment.status, p_status;
+    END IF;
+
+    IF v_fulfillment.status = 'pending' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders are confirmed or cancelled by their payment';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.order_fulfillments
+  SET status = p_status
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Seller confirms their part of a pending cash-on-delivery order. The order
+-- is confirmed, and its stock committed, once every seller has confirmed.
+CREATE OR REPLACE FUNCTION public.confirm_cash_order(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment_id UUID;
+BEGIN
+  SELECT id INTO v_fulfillment_id
+  FROM public.order_fulfillments
+  WHERE order_id = p_order_id AND seller_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can only confirm orders for your own products';
+  END IF;
+
+  PERFORM public.transition_fulfillment_status(v_fulfillment_id, 'confirmed', 'Cash order confirmed by seller');
+END;
+$$;
+
+DROP FUNCTION public.assign_order_driver(UUID, TEXT, TIMESTAMPTZ);
+
+-- Seller assigns a driver to their paid or confirmed fulfilment and starts
+-- preparing it
+CREATE OR REPLACE FUNCTION public.assign_fulfillment_driver(
+  p_fulfillment_id UUID,
+  p_driver_notes TEXT,
+  p_estimated_delivery TIMESTAMPTZ
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  v_fulfillment := public.transition_fulfillment_status(p_fulfillment_id, 'preparing', p_driver_notes);
+
+  UPDATE public.order_fulfillments
+  SET driver_assigned = true,
+      driver_notes = p_driver_notes,
+      estimated_delivery = p_estimated_delivery
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Create an order with one fulfilment per seller and reserve its stock
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_shipping_address TEXT,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF p_shipping_address IS NULL OR btrim(p_shipping_address) = '' THEN
+    RAISE EXCEPTION 'Shipping address is required';
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (user_id, total_amount, shipping_address, payment_method, status, stock_status)
+  VALUES (p_user_id, v_total, p_shipping_address, p_payment_method, 'pending', 'reserved')
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal)
+  SELECT v_order.id, p.seller_id, SUM(p.price * l.quantity)
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_fulfillment_stock(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_fulfillment_stock(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.sync_order_status(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.sync_order_status(UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.transition_fulfillment_status(UUID, public.order_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transition_fulfillment_status(UUID, public.order_status, TEXT) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.assign_fulfillment_driver(UUID, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_fulfillment_driver(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
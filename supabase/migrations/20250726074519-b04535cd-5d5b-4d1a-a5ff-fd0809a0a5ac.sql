@@ -0,0 +1,325 @@
+-- Driver accounts. Signing up as a driver grants nothing by itself: a driver
+-- only sees deliveries once a seller has registered them and their account
+-- has been linked by email.
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'driver';
+
+-- Drivers registered by a seller
+CREATE TABLE public.drivers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id UUID NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  vehicle TEXT,
+  email TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.drivers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view their own drivers"
+ON public.drivers
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can add their own drivers"
+ON public.drivers
+FOR INSERT
+WITH CHECK (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can update their own drivers"
+ON public.drivers
+FOR UPDATE
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can delete their own drivers"
+ON public.drivers
+FOR DELETE
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Drivers can view their own driver records"
+ON public.drivers
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_drivers_seller_id ON public.drivers(seller_id);
+CREATE INDEX idx_drivers_user_id ON public.drivers(user_id);
+
+CREATE TRIGGER update_drivers_updated_at
+BEFORE UPDATE ON public.drivers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The assigned driver and their proof of delivery
+ALTER TABLE public.order_fulfillments
+ADD COLUMN driver_id UUID REFERENCES public.drivers(id) ON DELETE SET NULL,
+ADD COLUMN picked_up_at TIMESTAMPTZ,
+ADD COLUMN delivered_at TIMESTAMPTZ,
+ADD COLUMN proof_of_delivery_note TEXT,
+ADD COLUMN proof_of_delivery_url TEXT;
+
+CREATE INDEX idx_order_fulfillments_driver_id ON public.order_fulfillments(driver_id);
+
+-- Lets policies check driver access to an order without recursing through
+-- the orders <-> order_fulfillments policies
+CREATE OR REPLACE FUNCTION public.is_order_driver(p_order_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.order_fulfillments f
+    JOIN public.drivers d ON d.id = f.driver_id
+    WHERE f.order_id = p_order_id AND d.user_id = p_user_id
+  )
+$$;
+
+-- Drivers need the delivery address and what they are carrying
+CREATE POLICY "Drivers can view orders they deliver" ON public.orders
+FOR SELECT
+USING (public.is_order_driver(id, auth.uid()));
+
+CREATE POLICY "Drivers can view their assigned fulfilments"
+ON public.order_fulfillments
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.drivers
+  WHERE drivers.id = order_fulfillments.driver_id
+  AND drivers.user_id = auth.uid()
+));
+
+CREATE POLICY "Drivers can view items they deliver" ON public.order_items
+FOR SELECT
+USING (EXISTS (
+  SELECT 1
+  FROM public.order_fulfillments f
+  JOIN public.drivers d ON d.id = f.driver_id
+  WHERE f.id = order_items.fulfillment_id
+  AND d.user_id = auth.uid()
+));
+
+-- Drivers move their deliveries on from pickup to delivery
+UPDATE public.order_status_transitions
+SET allowed_roles = array_append(allowed_roles, 'driver')
+WHERE (from_status, to_status) IN (('preparing', 'out_for_delivery'), ('out_for_delivery', 'delivered'));
+
+COMMENT ON COLUMN public.order_status_transitions.allowed_roles IS
+  'Who besides the service role may make this change: buyer (on the order), or seller or assigned driver (on a fulfilment)';
+
+-- Sellers act on their own fulfilments, drivers on the ones assigned to them
+CREATE OR REPLACE FUNCTION public.transition_fulfillment_status(
+  p_fulfillment_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_order public.orders;
+  v_role TEXT;
+  v_allowed_roles TEXT[];
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    v_role := 'system';
+  ELSIF v_fulfillment.seller_id = auth.uid() THEN
+    v_role := 'seller';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.drivers
+    WHERE id = v_fulfillment.driver_id AND user_id = auth.uid()
+  ) THEN
+    v_role := 'driver';
+  ELSE
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  -- Lock the order before the fulfilment, in the same order as order-level
+  -- changes, so the two cannot deadlock
+  SELECT * INTO v_order FROM public.orders WHERE id = v_fulfillment.order_id FOR UPDATE;
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id FOR UPDATE;
+
+  SELECT allowed_roles INTO v_allowed_roles
+  FROM public.order_status_transitions
+  WHERE from_status = v_fulfillment.status AND to_status = p_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move a fulfilment from % to %', v_fulfillment.status, p_status;
+  END IF;
+
+  IF v_role <> 'system' THEN
+    IF NOT v_role = ANY (v_allowed_roles) THEN
+      RAISE EXCEPTION 'You are not allowed to move this fulfilment from % to %', v_fulfillment.status, p_status;
+    END IF;
+
+    IF v_fulfillment.status = 'pending' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders are confirmed or cancelled by their payment';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.order_fulfillments
+  SET status = p_status
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+DROP FUNCTION public.assign_fulfillment_driver(UUID, TEXT, TIMESTAMPTZ);
+
+-- Seller assigns one of their active drivers to a paid or confirmed
+-- fulfilment and starts preparing it
+CREATE OR REPLACE FUNCTION public.assign_fulfillment_driver(
+  p_fulfillment_id UUID,
+  p_driver_id UUID,
+  p_estimated_delivery TIMESTAMPTZ,
+  p_driver_notes TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_driver public.drivers;
+BEGIN
+  SELECT * INTO v_driver FROM public.drivers WHERE id = p_driver_id;
+
+  IF NOT FOUND OR v_driver.seller_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Driver not found';
+  END IF;
+
+  IF NOT v_driver.active THEN
+    RAISE EXCEPTION 'Driver % is not active', v_driver.name;
+  END IF;
+
+  IF p_estimated_delivery IS NULL OR p_estimated_delivery <= now() THEN
+    RAISE EXCEPTION 'Estimated delivery must be in the future';
+  END IF;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'preparing', format('Driver %s assigned', v_driver.name)
+  );
+
+  UPDATE public.order_fulfillments
+  SET driver_id = p_driver_id,
+      driver_assigned = true,
+      driver_notes = NULLIF(btrim(p_driver_notes), ''),
+      estimated_delivery = p_estimated_delivery
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Driver has collected the items from the seller
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_picked_up(p_fulfillment_id UUID)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'out_for_delivery', 'Picked up by driver'
+  );
+
+  UPDATE public.order_fulfillments
+  SET picked_up_at = now()
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Driver has handed the items over. A note or a photo URL is required as
+-- proof of delivery.
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_delivered(
+  p_fulfillment_id UUID,
+  p_proof_note TEXT DEFAULT NULL,
+  p_proof_url TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  IF COALESCE(btrim(p_proof_note), '') = '' AND COALESCE(btrim(p_proof_url), '') = '' THEN
+    RAISE EXCEPTION 'A delivery note or photo is required as proof of delivery';
+  END IF;
+
+  IF p_proof_url IS NOT NULL AND btrim(p_proof_url) <> '' AND p_proof_url !~* '^https?://' THEN
+    RAISE EXCEPTION 'Proof of delivery photo must be an http(s) URL';
+  END IF;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'delivered', NULLIF(btrim(p_proof_note), '')
+  );
+
+  UPDATE public.order_fulfillments
+  SET delivered_at = now(),
+      proof_of_delivery_note = NULLIF(btrim(p_proof_note), ''),
+      proof_of_delivery_url = NULLIF(btrim(p_proof_url), '')
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Link the signed-in driver account to the driver records sellers created
+-- for its (confirmed) email address
+CREATE OR REPLACE FUNCTION public.link_driver_account()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_linked INTEGER;
+BEGIN
+  UPDATE public.drivers
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL
+  AND email IS NOT NULL
+  AND lower(email) = lower(auth.email());
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  RETURN v_linked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_fulfillment_driver(UUID, UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.assign_fulfillment_driver(UUID, UUID, TIMESTAMPTZ, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_fulfillment_picked_up(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_fulfillment_picked_up(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_fulfillment_delivered(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_fulfillment_delivered(UUID, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.link_driver_account() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.link_driver_account() TO authenticated;
@@ -0,0 +1,3 @@
+-- A delivery the driver could not complete. Added on its own because a new
+-- enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'delivery_failed' AFTER 'out_for_delivery';
@@ -0,0 +1,218 @@
+-- Driver delivery steps: picked up -> en route -> delivered, or a failed
+-- attempt that can be retried. Cash-on-delivery orders record the cash the
+-- driver collected.
+ALTER TABLE public.order_fulfillments
+ADD COLUMN en_route_at TIMESTAMPTZ,
+ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN cash_collected_at TIMESTAMPTZ,
+ADD COLUMN cash_collected_amount NUMERIC(10,2);
+
+INSERT INTO public.order_status_transitions (from_status, to_status, allowed_roles) VALUES
+  ('out_for_delivery', 'delivery_failed', '{seller,driver}'),
+  ('delivery_failed', 'out_for_delivery', '{seller,driver}'),
+  ('delivery_failed', 'cancelled', '{seller}'),
+  ('delivery_failed', 'refunded', '{}'),
+  ('delivery_failed', 'disputed', '{}');
+
+-- A failed attempt sits just behind out_for_delivery, so an order shows it
+-- while any of its deliveries has failed
+CREATE OR REPLACE FUNCTION public.sync_order_status(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_current public.order_status;
+  v_target public.order_status;
+BEGIN
+  SELECT status INTO v_current FROM public.orders WHERE id = p_order_id;
+
+  IF v_current IN ('cancelled', 'refunded', 'disputed') THEN
+    RETURN;
+  END IF;
+
+  SELECT status INTO v_target
+  FROM public.order_fulfillments
+  WHERE order_id = p_order_id AND status <> 'cancelled'
+  ORDER BY CASE status
+    WHEN 'pending' THEN 0
+    WHEN 'payment_failed' THEN 0
+    WHEN 'paid' THEN 1
+    WHEN 'confirmed' THEN 1
+    WHEN 'preparing' THEN 2
+    WHEN 'delivery_failed' THEN 3
+    WHEN 'out_for_delivery' THEN 4
+    ELSE 5
+  END
+  LIMIT 1;
+
+  v_target := COALESCE(v_target, 'cancelled');
+
+  IF v_target = v_current OR NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = v_current AND to_status = v_target
+  ) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.orders SET status = v_target WHERE id = p_order_id;
+END;
+$$;
+
+-- Driver has collected the items, or is setting out again after a failed
+-- attempt
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_picked_up(p_fulfillment_id UUID)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id,
+    'out_for_delivery',
+    CASE WHEN v_fulfillment.status = 'delivery_failed' THEN 'Delivery retried' ELSE 'Picked up by driver' END
+  );
+
+  UPDATE public.order_fulfillments
+  SET picked_up_at = now(),
+      en_route_at = NULL
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Driver is on the way to the buyer. The status stays out_for_delivery; the
+-- step is recorded in the order's history.
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_en_route(p_fulfillment_id UUID)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.drivers
+    WHERE id = v_fulfillment.driver_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  IF v_fulfillment.status <> 'out_for_delivery' THEN
+    RAISE EXCEPTION 'Only picked up deliveries can be en route';
+  END IF;
+
+  UPDATE public.order_fulfillments
+  SET en_route_at = now()
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  INSERT INTO public.order_status_history (order_id, fulfillment_id, from_status, to_status, changed_by, note)
+  VALUES (v_fulfillment.order_id, v_fulfillment.id, v_fulfillment.status, v_fulfillment.status, auth.uid(), 'En route to buyer');
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+-- Driver could not hand the items over; the reason goes into the history
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_delivery_failed(
+  p_fulfillment_id UUID,
+  p_reason TEXT
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required for a failed delivery attempt';
+  END IF;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'delivery_failed', btrim(p_reason)
+  );
+
+  UPDATE public.order_fulfillments
+  SET failed_attempts = failed_attempts + 1,
+      en_route_at = NULL
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+DROP FUNCTION public.mark_fulfillment_delivered(UUID, TEXT, TEXT);
+
+-- Driver has handed the items over. A note or a photo URL is required as
+-- proof of delivery, and cash orders need the driver to confirm they
+-- collected the cash.
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_delivered(
+  p_fulfillment_id UUID,
+  p_proof_note TEXT DEFAULT NULL,
+  p_proof_url TEXT DEFAULT NULL,
+  p_cash_collected BOOLEAN DEFAULT false
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_is_cash BOOLEAN;
+BEGIN
+  IF COALESCE(btrim(p_proof_note), '') = '' AND COALESCE(btrim(p_proof_url), '') = '' THEN
+    RAISE EXCEPTION 'A delivery note or photo is required as proof of delivery';
+  END IF;
+
+  IF p_proof_url IS NOT NULL AND btrim(p_proof_url) <> '' AND p_proof_url !~* '^https?://' THEN
+    RAISE EXCEPTION 'Proof of delivery photo must be an http(s) URL';
+  END IF;
+
+  SELECT o.payment_method = 'cash' INTO v_is_cash
+  FROM public.order_fulfillments f
+  JOIN public.orders o ON o.id = f.order_id
+  WHERE f.id = p_fulfillment_id;
+
+  IF v_is_cash AND NOT COALESCE(p_cash_collected, false) THEN
+    RAISE EXCEPTION 'Confirm the cash was collected before marking a cash order delivered';
+  END IF;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'delivered', NULLIF(btrim(p_proof_note), '')
+  );
+
+  UPDATE public.order_fulfillments
+  SET delivered_at = now(),
+      proof_of_delivery_note = NULLIF(btrim(p_proof_note), ''),
+      proof_of_delivery_url = NULLIF(btrim(p_proof_url), ''),
+      cash_collected_at = CASE WHEN v_is_cash THEN now() END,
+      cash_collected_amount = CASE WHEN v_is_cash THEN subtotal END
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_fulfillment_en_route(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_fulfillment_en_route(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_fulfillment_delivery_failed(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_fulfillment_delivery_failed(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_fulfillment_delivered(UUID, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_fulfillment_delivered(UUID, TEXT, TEXT, BOOLEAN) TO authenticated;
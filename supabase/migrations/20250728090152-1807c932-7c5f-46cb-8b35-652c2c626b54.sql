@@ -0,0 +1,101 @@
+-- Latest driver position for each delivery that is out for delivery, streamed
+-- to the buyer over realtime. One row per fulfilment, overwritten as the
+-- driver moves and removed once the delivery is over.
+CREATE TABLE public.delivery_locations (
+  fulfillment_id UUID PRIMARY KEY REFERENCES public.order_fulfillments(id) ON DELETE CASCADE,
+  driver_id UUID NOT NULL REFERENCES public.drivers(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  heading DOUBLE PRECISION,
+  speed DOUBLE PRECISION,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.delivery_locations ENABLE ROW LEVEL SECURITY;
+
+-- The assigned driver publishes while the delivery is out for delivery
+CREATE POLICY "Drivers can publish locations for their deliveries"
+ON public.delivery_locations
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1
+  FROM public.order_fulfillments f
+  JOIN public.drivers d ON d.id = f.driver_id
+  WHERE f.id = delivery_locations.fulfillment_id
+  AND d.id = delivery_locations.driver_id
+  AND d.user_id = auth.uid()
+  AND f.status = 'out_for_delivery'
+));
+
+CREATE POLICY "Drivers can update locations for their deliveries"
+ON public.delivery_locations
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.drivers
+  WHERE drivers.id = delivery_locations.driver_id
+  AND drivers.user_id = auth.uid()
+))
+WITH CHECK (EXISTS (
+  SELECT 1
+  FROM public.order_fulfillments f
+  JOIN public.drivers d ON d.id = f.driver_id
+  WHERE f.id = delivery_locations.fulfillment_id
+  AND d.id = delivery_locations.driver_id
+  AND d.user_id = auth.uid()
+  AND f.status = 'out_for_delivery'
+));
+
+CREATE POLICY "Drivers can view their own locations"
+ON public.delivery_locations
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.drivers
+  WHERE drivers.id = delivery_locations.driver_id
+  AND drivers.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can view driver locations for their own orders"
+ON public.delivery_locations
+FOR SELECT
+USING (EXISTS (
+  SELECT 1
+  FROM public.order_fulfillments f
+  JOIN public.orders o ON o.id = f.order_id
+  WHERE f.id = delivery_locations.fulfillment_id
+  AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can view driver locations for their fulfilments"
+ON public.delivery_locations
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.order_fulfillments
+  WHERE order_fulfillments.id = delivery_locations.fulfillment_id
+  AND order_fulfillments.seller_id = auth.uid()
+));
+
+-- Stop sharing the driver's position once the delivery is no longer on the road
+CREATE OR REPLACE FUNCTION public.clear_delivery_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'out_for_delivery' THEN
+    DELETE FROM public.delivery_locations WHERE fulfillment_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_delivery_location
+AFTER UPDATE OF status ON public.order_fulfillments
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_delivery_location();
+
+-- Enable realtime for delivery locations
+ALTER TABLE public.delivery_locations REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.delivery_locations;
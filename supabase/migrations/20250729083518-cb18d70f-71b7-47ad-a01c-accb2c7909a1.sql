@@ -0,0 +1,248 @@
+-- Saved buyer addresses. Orders keep their own snapshot of the address they
+-- were placed with, so editing or deleting an address never changes history.
+CREATE TABLE public.user_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label TEXT,
+  line1 TEXT NOT NULL,
+  line2 TEXT,
+  city TEXT NOT NULL,
+  postal_code TEXT,
+  country TEXT NOT NULL,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  phone TEXT,
+  delivery_instructions TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own addresses"
+ON public.user_addresses
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their own addresses"
+ON public.user_addresses
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own addresses"
+ON public.user_addresses
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own addresses"
+ON public.user_addresses
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_user_addresses_user_id ON public.user_addresses(user_id);
+
+-- At most one default address per user
+CREATE UNIQUE INDEX idx_user_addresses_one_default
+ON public.user_addresses(user_id)
+WHERE is_default;
+
+CREATE TRIGGER update_user_addresses_updated_at
+BEFORE UPDATE ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Making an address the default takes the flag off the previous one
+CREATE OR REPLACE FUNCTION public.clear_other_default_addresses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_default THEN
+    UPDATE public.user_addresses
+    SET is_default = false
+    WHERE user_id = NEW.user_id
+    AND id <> NEW.id
+    AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_other_default_addresses
+BEFORE INSERT OR UPDATE OF is_default ON public.user_addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_other_default_addresses();
+
+-- The structured address an order was placed with. shipping_address stays as
+-- the formatted one-line version for drivers, sellers and Stripe.
+ALTER TABLE public.orders
+ADD COLUMN shipping_address_snapshot JSONB,
+ADD COLUMN shipping_latitude DOUBLE PRECISION,
+ADD COLUMN shipping_longitude DOUBLE PRECISION;
+
+-- Validate and trim an address sent at checkout into the snapshot stored on
+-- the order. Blank optional fields become null.
+CREATE OR REPLACE FUNCTION public.normalize_shipping_address(p_address JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_address JSONB;
+  v_latitude DOUBLE PRECISION;
+  v_longitude DOUBLE PRECISION;
+BEGIN
+  IF p_address IS NULL OR jsonb_typeof(p_address) <> 'object' THEN
+    RAISE EXCEPTION 'Shipping address is required';
+  END IF;
+
+  v_address := jsonb_build_object(
+    'label', NULLIF(btrim(p_address->>'label'), ''),
+    'line1', NULLIF(btrim(p_address->>'line1'), ''),
+    'line2', NULLIF(btrim(p_address->>'line2'), ''),
+    'city', NULLIF(btrim(p_address->>'city'), ''),
+    'postal_code', NULLIF(btrim(p_address->>'postal_code'), ''),
+    'country', NULLIF(btrim(p_address->>'country'), ''),
+    'phone', NULLIF(btrim(p_address->>'phone'), ''),
+    'delivery_instructions', NULLIF(btrim(p_address->>'delivery_instructions'), '')
+  );
+
+  IF v_address->>'line1' IS NULL OR v_address->>'city' IS NULL OR v_address->>'country' IS NULL THEN
+    RAISE EXCEPTION 'Shipping address needs a street, city and country';
+  END IF;
+
+  -- Coordinates are optional, but must come as a valid pair
+  IF jsonb_typeof(p_address->'latitude') = 'number' AND jsonb_typeof(p_address->'longitude') = 'number' THEN
+    v_latitude := (p_address->>'latitude')::DOUBLE PRECISION;
+    v_longitude := (p_address->>'longitude')::DOUBLE PRECISION;
+
+    IF v_latitude NOT BETWEEN -90 AND 90 OR v_longitude NOT BETWEEN -180 AND 180 THEN
+      RAISE EXCEPTION 'Invalid shipping address coordinates';
+    END IF;
+  END IF;
+
+  RETURN v_address || jsonb_build_object('latitude', v_latitude, 'longitude', v_longitude);
+END;
+$$;
+
+-- One-line version of an address snapshot
+CREATE OR REPLACE FUNCTION public.format_shipping_address(p_address JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(', ',
+    p_address->>'line1',
+    p_address->>'line2',
+    p_address->>'city',
+    p_address->>'postal_code',
+    p_address->>'country'
+  );
+$$;
+
+-- create_order now takes the structured address instead of free text
+DROP FUNCTION public.create_order(UUID, JSONB, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, shipping_address, shipping_address_snapshot,
+    shipping_latitude, shipping_longitude, payment_method, status, stock_status
+  )
+  VALUES (
+    p_user_id, v_total, public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal)
+  SELECT v_order.id, p.seller_id, SUM(p.price * l.quantity)
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  GROUP BY p.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT) TO service_role;
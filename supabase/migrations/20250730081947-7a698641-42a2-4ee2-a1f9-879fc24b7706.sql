@@ -0,0 +1,353 @@
+-- Seller delivery zones: a radius around a store location or a drawn polygon,
+-- each with its own fee and minimum order. Sellers without any active zones
+-- keep delivering anywhere for free.
+CREATE TABLE public.delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  seller_id UUID NOT NULL,
+  name TEXT NOT NULL,
+  zone_type TEXT NOT NULL CHECK (zone_type IN ('radius', 'polygon')),
+  center_latitude DOUBLE PRECISION CHECK (center_latitude BETWEEN -90 AND 90),
+  center_longitude DOUBLE PRECISION CHECK (center_longitude BETWEEN -180 AND 180),
+  radius_km NUMERIC(8,2) CHECK (radius_km > 0),
+  -- [[lng, lat], ...], the order Mapbox uses
+  polygon JSONB,
+  fee NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  min_order_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT delivery_zones_shape CHECK (
+    (zone_type = 'radius' AND center_latitude IS NOT NULL AND center_longitude IS NOT NULL AND radius_km IS NOT NULL)
+    OR (zone_type = 'polygon' AND jsonb_typeof(polygon) = 'array' AND jsonb_array_length(polygon) >= 3)
+  )
+);
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view their own delivery zones"
+ON public.delivery_zones
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can add their own delivery zones"
+ON public.delivery_zones
+FOR INSERT
+WITH CHECK (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can update their own delivery zones"
+ON public.delivery_zones
+FOR UPDATE
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can delete their own delivery zones"
+ON public.delivery_zones
+FOR DELETE
+USING (auth.uid() = seller_id);
+
+CREATE INDEX idx_delivery_zones_seller_id ON public.delivery_zones(seller_id);
+
+CREATE TRIGGER update_delivery_zones_updated_at
+BEFORE UPDATE ON public.delivery_zones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each seller's part of an order carries its own delivery fee; the order total
+-- includes them all
+ALTER TABLE public.order_fulfillments
+ADD COLUMN delivery_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN delivery_zone_id UUID REFERENCES public.delivery_zones(id) ON DELETE SET NULL;
+
+ALTER TABLE public.orders
+ADD COLUMN delivery_fee NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION public.haversine_km(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Ray casting; p_polygon is [[lng, lat], ...]
+CREATE OR REPLACE FUNCTION public.point_in_polygon(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_polygon JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_count INTEGER := jsonb_array_length(p_polygon);
+  v_inside BOOLEAN := false;
+  v_xi DOUBLE PRECISION;
+  v_yi DOUBLE PRECISION;
+  v_xj DOUBLE PRECISION;
+  v_yj DOUBLE PRECISION;
+  j INTEGER := v_count - 1;
+BEGIN
+  FOR i IN 0 .. v_count - 1 LOOP
+    v_xi := (p_polygon->i->>0)::DOUBLE PRECISION;
+    v_yi := (p_polygon->i->>1)::DOUBLE PRECISION;
+    v_xj := (p_polygon->j->>0)::DOUBLE PRECISION;
+    v_yj := (p_polygon->j->>1)::DOUBLE PRECISION;
+
+    IF (v_yi > p_lat) <> (v_yj > p_lat)
+      AND p_lng < (v_xj - v_xi) * (p_lat - v_yi) / (v_yj - v_yi) + v_xi THEN
+      v_inside := NOT v_inside;
+    END IF;
+
+    j := i;
+  END LOOP;
+
+  RETURN v_inside;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delivery_zone_contains(
+  p_zone public.delivery_zones,
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_zone.zone_type
+    WHEN 'radius' THEN
+      public.haversine_km(p_zone.center_latitude, p_zone.center_longitude, p_lat, p_lng) <= p_zone.radius_km
+    ELSE
+      public.point_in_polygon(p_lat, p_lng, p_zone.polygon)
+  END;
+$$;
+
+-- Price delivery for a cart to an address, per seller. Each seller uses their
+-- cheapest active zone that contains the address and whose minimum the
+-- seller's part of the cart meets. Sellers who can't deliver get a reason:
+-- no_location (the address has no coordinates), outside_zones or
+-- below_minimum (with the smallest minimum that would work).
+CREATE OR REPLACE FUNCTION public.quote_delivery(p_items JSONB, p_address JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lat DOUBLE PRECISION;
+  v_lng DOUBLE PRECISION;
+  v_seller RECORD;
+  v_zone public.delivery_zones;
+  v_minimum NUMERIC;
+  v_entry JSONB;
+  v_sellers JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(p_address->'latitude') = 'number' AND jsonb_typeof(p_address->'longitude') = 'number' THEN
+    v_lat := (p_address->>'latitude')::DOUBLE PRECISION;
+    v_lng := (p_address->>'longitude')::DOUBLE PRECISION;
+  END IF;
+
+  FOR v_seller IN
+    SELECT p.seller_id,
+           SUM(p.price * l.quantity) AS subtotal,
+           array_agg(p.name ORDER BY p.name) AS products
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  LOOP
+    v_entry := jsonb_build_object(
+      'seller_id', v_seller.seller_id,
+      'subtotal', v_seller.subtotal,
+      'products', to_jsonb(v_seller.products),
+      'deliverable', true,
+      'delivery_fee', 0,
+      'zone_id', NULL,
+      'zone_name', NULL,
+      'reason', NULL
+    );
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.delivery_zones
+      WHERE seller_id = v_seller.seller_id AND active
+    ) THEN
+      NULL;
+    ELSIF v_lat IS NULL THEN
+      v_entry := v_entry || jsonb_build_object('deliverable', false, 'reason', 'no_location');
+    ELSE
+      SELECT * INTO v_zone
+      FROM public.delivery_zones z
+      WHERE z.seller_id = v_seller.seller_id
+      AND z.active
+      AND z.min_order_amount <= v_seller.subtotal
+      AND public.delivery_zone_contains(z, v_lat, v_lng)
+      ORDER BY z.fee, z.min_order_amount
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_entry := v_entry || jsonb_build_object(
+          'delivery_fee', v_zone.fee,
+          'zone_id', v_zone.id,
+          'zone_name', v_zone.name
+        );
+        v_total := v_total + v_zone.fee;
+      ELSE
+        SELECT MIN(z.min_order_amount) INTO v_minimum
+        FROM public.delivery_zones z
+        WHERE z.seller_id = v_seller.seller_id
+        AND z.active
+        AND public.delivery_zone_contains(z, v_lat, v_lng);
+
+        v_entry := v_entry || CASE
+          WHEN v_minimum IS NULL THEN jsonb_build_object('deliverable', false, 'reason', 'outside_zones')
+          ELSE jsonb_build_object('deliverable', false, 'reason', 'below_minimum', 'min_order_amount', v_minimum)
+        END;
+      END IF;
+    END IF;
+
+    v_sellers := v_sellers || v_entry;
+  END LOOP;
+
+  RETURN jsonb_build_object('delivery_fee', v_total, 'sellers', v_sellers);
+END;
+$$;
+
+-- Orders now include a delivery fee per seller and are refused when a seller
+-- can't deliver to the address
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least $%',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          v_undeliverable->>'min_order_amount';
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, shipping_address, shipping_address_snapshot,
+    shipping_latitude, shipping_longitude, payment_method, status, stock_status
+  )
+  VALUES (
+    p_user_id, v_total + (v_quote->>'delivery_fee')::NUMERIC, (v_quote->>'delivery_fee')::NUMERIC,
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID
+  FROM (
+    SELECT p.seller_id, SUM(p.price * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_delivery(JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_delivery(JSONB, JSONB) TO authenticated, service_role;
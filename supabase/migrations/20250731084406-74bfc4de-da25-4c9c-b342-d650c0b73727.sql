@@ -0,0 +1,74 @@
+-- Merge a cart built while signed out into the caller's saved cart. Quantities
+-- for the same product are added together and capped at the stock that is
+-- currently available. Returns one entry per guest line that couldn't be
+-- added in full, with how many were added.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_line RECORD;
+  v_quantity INTEGER;
+  v_conflicts JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' THEN
+    RETURN v_conflicts;
+  END IF;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity AS guest_quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           GREATEST(COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0), 0) AS available,
+           COALESCE(c.quantity, 0) AS saved_quantity
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.cart_items c ON c.product_id = l.product_id AND c.user_id = v_user_id
+    WHERE l.quantity > 0
+  LOOP
+    IF NOT v_line.found THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', NULL,
+        'requested', v_line.guest_quantity,
+        'added', 0,
+        'available', 0
+      );
+      CONTINUE;
+    END IF;
+
+    v_quantity := LEAST(v_line.saved_quantity + v_line.guest_quantity, v_line.available);
+
+    IF v_quantity < v_line.saved_quantity + v_line.guest_quantity THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.saved_quantity + v_line.guest_quantity,
+        'added', GREATEST(v_quantity - v_line.saved_quantity, 0),
+        'available', v_line.available
+      );
+    END IF;
+
+    -- Never lower what was already saved; only the guest quantity is capped
+    IF v_quantity > v_line.saved_quantity THEN
+      INSERT INTO public.cart_items (user_id, product_id, quantity)
+      VALUES (v_user_id, v_line.product_id, v_quantity)
+      ON CONFLICT (user_id, product_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity;
+    END IF;
+  END LOOP;
+
+  RETURN v_conflicts;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(JSONB) TO authenticated;
@@ -0,0 +1,3 @@
+-- Broadcast cart changes so every open tab and device stays in sync
+ALTER TABLE public.cart_items REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.cart_items;
@@ -0,0 +1,338 @@
+-- Discount codes. A seller's code only discounts that seller's products; codes
+-- without a seller apply to the whole cart and are managed with the service
+-- role. Codes are only ever checked through evaluate_promotion, so buyers
+-- can't list them.
+CREATE TABLE public.promotions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code <> '' AND code = upper(btrim(code))),
+  seller_id UUID,
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC(10,2) NOT NULL CHECK (discount_value > 0),
+  min_order_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+  -- NULL means unlimited
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_user INTEGER CHECK (max_uses_per_user > 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT promotions_percentage_range CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CONSTRAINT promotions_date_range CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+ALTER TABLE public.promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view their own promotions"
+ON public.promotions
+FOR SELECT
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can add their own promotions"
+ON public.promotions
+FOR INSERT
+WITH CHECK (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can update their own promotions"
+ON public.promotions
+FOR UPDATE
+USING (auth.uid() = seller_id);
+
+CREATE POLICY "Sellers can delete their own promotions"
+ON public.promotions
+FOR DELETE
+USING (auth.uid() = seller_id);
+
+CREATE INDEX idx_promotions_seller_id ON public.promotions(seller_id);
+
+CREATE TRIGGER update_promotions_updated_at
+BEFORE UPDATE ON public.promotions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An order using a code counts as one use of it until it is cancelled
+ALTER TABLE public.orders
+ADD COLUMN promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+ADD COLUMN promotion_code TEXT,
+ADD COLUMN discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_orders_promotion_id ON public.orders(promotion_id);
+
+-- A seller's own code comes out of that seller's part of the order; the
+-- platform funds codes without a seller
+ALTER TABLE public.order_fulfillments
+ADD COLUMN discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Check a code against a cart for a user. Returns {valid: false, code, reason}
+-- with reason one of not_found, not_started, expired, no_eligible_items,
+-- below_minimum, usage_limit or user_limit, or {valid: true, promotion_id,
+-- code, seller_id, discount_type, discount_value, eligible_subtotal,
+-- discount_amount}.
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  p_user_id UUID,
+  p_code TEXT,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT := upper(btrim(COALESCE(p_code, '')));
+  v_promotion public.promotions;
+  v_eligible NUMERIC := 0;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_promotion
+  FROM public.promotions
+  WHERE code = v_code;
+
+  IF NOT FOUND OR NOT v_promotion.active THEN
+    v_reason := 'not_found';
+  ELSIF v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > now() THEN
+    v_reason := 'not_started';
+  ELSIF v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= now() THEN
+    v_reason := 'expired';
+  ELSE
+    SELECT COALESCE(SUM(p.price * l.quantity), 0) INTO v_eligible
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.quantity > 0
+      AND (v_promotion.seller_id IS NULL OR p.seller_id = v_promotion.seller_id);
+
+    IF v_eligible = 0 THEN
+      v_reason := 'no_eligible_items';
+    ELSIF v_eligible < v_promotion.min_order_amount THEN
+      v_reason := 'below_minimum';
+    ELSIF v_promotion.max_uses IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses THEN
+      v_reason := 'usage_limit';
+    ELSIF v_promotion.max_uses_per_user IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND user_id = p_user_id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses_per_user THEN
+      v_reason := 'user_limit';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'code', v_code,
+      'reason', v_reason,
+      'min_order_amount', v_promotion.min_order_amount
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'seller_id', v_promotion.seller_id,
+    'discount_type', v_promotion.discount_type,
+    'discount_value', v_promotion.discount_value,
+    'eligible_subtotal', v_eligible,
+    'discount_amount', CASE v_promotion.discount_type
+      WHEN 'percentage' THEN round(v_eligible * v_promotion.discount_value / 100, 2)
+      ELSE LEAST(v_promotion.discount_value, v_eligible)
+    END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_promotion(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_promotion(UUID, TEXT, JSONB) TO service_role;
+
+-- What checkout shows before the order is placed
+CREATE OR REPLACE FUNCTION public.quote_promotion(p_code TEXT, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN public.evaluate_promotion(auth.uid(), p_code, p_items);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_promotion(TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_promotion(TEXT, JSONB) TO authenticated;
+
+DROP FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least $%',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          v_undeliverable->>'min_order_amount';
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least $%',
+            v_promotion->>'code', v_promotion->>'min_order_amount';
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id, discount_amount)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID,
+         CASE WHEN (v_promotion->>'seller_id')::UUID = s.seller_id
+           THEN (v_promotion->>'discount_amount')::NUMERIC
+           ELSE 0
+         END
+  FROM (
+    SELECT p.seller_id, SUM(p.price * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT, TEXT) TO service_role;
@@ -0,0 +1,310 @@
+-- Sales tax. A rule applies to a country, optionally narrowed to a city and/or
+-- a product category; the most specific active rule wins and products with no
+-- matching rule are untaxed. Rules are platform settings managed with the
+-- service role.
+CREATE TABLE public.tax_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  country TEXT NOT NULL CHECK (btrim(country) <> ''),
+  city TEXT,
+  category TEXT,
+  -- Percent, e.g. 8.25
+  rate NUMERIC(6,3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tax rules"
+ON public.tax_rules
+FOR SELECT
+USING (true);
+
+CREATE UNIQUE INDEX idx_tax_rules_scope
+ON public.tax_rules (lower(country), lower(COALESCE(city, '')), lower(COALESCE(category, '')))
+WHERE active;
+
+CREATE TRIGGER update_tax_rules_updated_at
+BEFORE UPDATE ON public.tax_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Tax is charged per line, at the rate that applied when the order was placed
+ALTER TABLE public.order_items
+ADD COLUMN tax_rate NUMERIC(6,3) NOT NULL DEFAULT 0,
+ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders
+ADD COLUMN tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- The rate for a product category shipped to an address, as a percent
+CREATE OR REPLACE FUNCTION public.tax_rate_for(p_address JSONB, p_category TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT r.rate
+    FROM public.tax_rules r
+    WHERE r.active
+      AND lower(r.country) = lower(btrim(p_address->>'country'))
+      AND (r.city IS NULL OR lower(r.city) = lower(btrim(p_address->>'city')))
+      AND (r.category IS NULL OR lower(r.category) = lower(btrim(p_category)))
+    ORDER BY (r.city IS NOT NULL) DESC, (r.category IS NOT NULL) DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Tax for each cart line. Tax is charged on what the buyer pays, so a line's
+-- share of an evaluate_promotion discount comes off first, split across the
+-- lines the code applies to in proportion to their value.
+CREATE OR REPLACE FUNCTION public.cart_tax_lines(p_items JSONB, p_address JSONB, p_promotion JSONB)
+RETURNS TABLE (product_id UUID, tax_rate NUMERIC, tax_amount NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         r.rate,
+         round(
+           (p.price * l.quantity - CASE
+              WHEN (p_promotion->>'valid')::BOOLEAN
+                AND (p_promotion->>'seller_id' IS NULL OR (p_promotion->>'seller_id')::UUID = p.seller_id)
+              THEN (p_promotion->>'discount_amount')::NUMERIC * p.price * l.quantity
+                / NULLIF((p_promotion->>'eligible_subtotal')::NUMERIC, 0)
+              ELSE 0
+            END) * r.rate / 100,
+           2
+         )
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  CROSS JOIN LATERAL (SELECT public.tax_rate_for(p_address, p.category) AS rate) r;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cart_tax_lines(JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cart_tax_lines(JSONB, JSONB, JSONB) TO service_role;
+
+-- What checkout shows before the order is placed: {tax_amount, lines:
+-- [{product_id, tax_rate, tax_amount}]}
+CREATE OR REPLACE FUNCTION public.quote_tax(
+  p_items JSONB,
+  p_address JSONB,
+  p_promotion_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion JSONB;
+  v_lines JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    v_promotion := public.evaluate_promotion(auth.uid(), p_promotion_code, p_items);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', t.product_id,
+    'tax_rate', t.tax_rate,
+    'tax_amount', t.tax_amount
+  )), '[]'::JSONB)
+  INTO v_lines
+  FROM public.cart_tax_lines(p_items, p_address, v_promotion) t;
+
+  RETURN jsonb_build_object(
+    'tax_amount', (SELECT COALESCE(SUM((line.value->>'tax_amount')::NUMERIC), 0) FROM jsonb_array_elements(v_lines) line),
+    'lines', v_lines
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quote_tax(JSONB, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_tax(JSONB, JSONB, TEXT) TO authenticated;
+
+-- Same as before, plus tax on each item and in the order total
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+  v_tax NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least $%',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          v_undeliverable->>'min_order_amount';
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least $%',
+            v_promotion->>'code', v_promotion->>'min_order_amount';
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id, discount_amount)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID,
+         CASE WHEN (v_promotion->>'seller_id')::UUID = s.seller_id
+           THEN (v_promotion->>'discount_amount')::NUMERIC
+           ELSE 0
+         END
+  FROM (
+    SELECT p.seller_id, SUM(p.price * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id, tax_rate, tax_amount)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id, t.tax_rate, t.tax_amount
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id
+  JOIN public.cart_tax_lines(p_items, v_address, v_promotion) t ON t.product_id = p.id;
+
+  SELECT COALESCE(SUM(tax_amount), 0) INTO v_tax
+  FROM public.order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE public.orders
+  SET tax_amount = v_tax,
+      total_amount = total_amount + v_tax
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
@@ -0,0 +1,285 @@
+-- Multi-currency. Every amount the database works with stays in the base
+-- currency, USD. Sellers enter a list price in their own currency and
+-- products.price is derived from it, so pricing, delivery, discounts and tax
+-- keep working on one currency. Buyers are charged in a currency of their
+-- choice at the rate recorded on the order.
+CREATE TABLE public.exchange_rates (
+  currency TEXT PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  -- Units of this currency per 1 USD
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starting rates; the platform keeps these up to date with the service role
+INSERT INTO public.exchange_rates (currency, rate) VALUES
+  ('USD', 1),
+  ('EUR', 0.92),
+  ('GBP', 0.79),
+  ('CAD', 1.37),
+  ('AUD', 1.52);
+
+ALTER TABLE public.products
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' REFERENCES public.exchange_rates(currency),
+ADD COLUMN list_price NUMERIC(10,2) CHECK (list_price >= 0);
+
+UPDATE public.products SET list_price = price;
+
+ALTER TABLE public.products
+ALTER COLUMN list_price SET NOT NULL,
+ALTER COLUMN price SET DEFAULT 0;
+
+-- products.price is the list price in USD. Writes that only set price (there
+-- is no list price yet) are taken as a list price in the product's currency.
+CREATE OR REPLACE FUNCTION public.set_product_base_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.list_price IS NULL THEN
+    NEW.list_price := NEW.price;
+  END IF;
+
+  NEW.price := round(NEW.list_price / (
+    SELECT rate FROM public.exchange_rates WHERE currency = NEW.currency
+  ), 2);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_products_base_price
+BEFORE INSERT OR UPDATE OF list_price, currency ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_base_price();
+
+-- Re-price products listed in a currency when its rate changes
+CREATE OR REPLACE FUNCTION public.reprice_products_for_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET price = round(list_price / NEW.rate, 2)
+  WHERE currency = NEW.currency;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reprice_products_on_rate_change
+AFTER UPDATE OF rate ON public.exchange_rates
+FOR EACH ROW
+WHEN (OLD.rate IS DISTINCT FROM NEW.rate)
+EXECUTE FUNCTION public.reprice_products_for_rate();
+
+-- Order amounts stay in USD; the buyer pays amount * exchange_rate in currency
+ALTER TABLE public.orders
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN exchange_rate NUMERIC(18,8) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+DROP FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+  v_tax NUMERIC;
+  v_exchange_rate NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  SELECT rate INTO v_exchange_rate
+  FROM public.exchange_rates
+  WHERE currency = upper(btrim(p_currency));
+
+  IF v_exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'Payments in % are not supported', p_currency;
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least $%',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          v_undeliverable->>'min_order_amount';
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least $%',
+            v_promotion->>'code', v_promotion->>'min_order_amount';
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status, currency, exchange_rate
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved', upper(btrim(p_currency)), v_exchange_rate
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id, discount_amount)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID,
+         CASE WHEN (v_promotion->>'seller_id')::UUID = s.seller_id
+           THEN (v_promotion->>'discount_amount')::NUMERIC
+           ELSE 0
+         END
+  FROM (
+    SELECT p.seller_id, SUM(p.price * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id, tax_rate, tax_amount)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id, t.tax_rate, t.tax_amount
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id
+  JOIN public.cart_tax_lines(p_items, v_address, v_promotion) t ON t.product_id = p.id;
+
+  SELECT COALESCE(SUM(tax_amount), 0) INTO v_tax
+  FROM public.order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE public.orders
+  SET tax_amount = v_tax,
+      total_amount = total_amount + v_tax
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order(UUID, JSONB, JSONB, TEXT, TEXT, TEXT) TO service_role;
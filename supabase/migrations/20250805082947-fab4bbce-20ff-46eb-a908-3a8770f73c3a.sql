@@ -0,0 +1,367 @@
+-- Store money as whole minor units (cents) instead of decimal amounts, so sums
+-- and Stripe amounts are exact. Column names stay the same. Rates and
+-- percentages (exchange_rates.rate, tax rates, percentage discounts) are not
+-- money and keep their decimals.
+ALTER TABLE public.products
+ALTER COLUMN price TYPE BIGINT USING round(price * 100),
+ALTER COLUMN list_price TYPE BIGINT USING round(list_price * 100);
+
+ALTER TABLE public.orders
+ALTER COLUMN total_amount TYPE BIGINT USING round(total_amount * 100),
+ALTER COLUMN delivery_fee TYPE BIGINT USING round(delivery_fee * 100),
+ALTER COLUMN discount_amount TYPE BIGINT USING round(discount_amount * 100),
+ALTER COLUMN tax_amount TYPE BIGINT USING round(tax_amount * 100);
+
+ALTER TABLE public.order_items
+ALTER COLUMN price TYPE BIGINT USING round(price * 100),
+ALTER COLUMN tax_amount TYPE BIGINT USING round(tax_amount * 100);
+
+ALTER TABLE public.order_fulfillments
+ALTER COLUMN subtotal TYPE BIGINT USING round(subtotal * 100),
+ALTER COLUMN delivery_fee TYPE BIGINT USING round(delivery_fee * 100),
+ALTER COLUMN discount_amount TYPE BIGINT USING round(discount_amount * 100),
+ALTER COLUMN cash_collected_amount TYPE BIGINT USING round(cash_collected_amount * 100);
+
+ALTER TABLE public.delivery_zones
+ALTER COLUMN fee TYPE BIGINT USING round(fee * 100),
+ALTER COLUMN min_order_amount TYPE BIGINT USING round(min_order_amount * 100);
+
+ALTER TABLE public.promotions
+ALTER COLUMN min_order_amount TYPE BIGINT USING round(min_order_amount * 100);
+
+-- discount_value is a percent for percentage codes and minor units for fixed ones
+UPDATE public.promotions
+SET discount_value = discount_value * 100
+WHERE discount_type = 'fixed';
+
+ALTER TABLE public.seller_analytics
+ALTER COLUMN total_revenue TYPE BIGINT USING round(total_revenue * 100);
+
+-- Minor units of the base currency as text for error messages, e.g. $12.50
+CREATE OR REPLACE FUNCTION public.format_money(p_amount BIGINT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '$' || to_char(p_amount / 100.0, 'FM999999999990.00');
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_product_base_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.list_price IS NULL THEN
+    NEW.list_price := NEW.price;
+  END IF;
+
+  NEW.price := round(NEW.list_price / (
+    SELECT rate FROM public.exchange_rates WHERE currency = NEW.currency
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reprice_products_for_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET price = round(list_price / NEW.rate)
+  WHERE currency = NEW.currency;
+
+  RETURN NEW;
+END;
+$$;
+
+-- The functions below only change where they round: to whole minor units
+
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  p_user_id UUID,
+  p_code TEXT,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT := upper(btrim(COALESCE(p_code, '')));
+  v_promotion public.promotions;
+  v_eligible NUMERIC := 0;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_promotion
+  FROM public.promotions
+  WHERE code = v_code;
+
+  IF NOT FOUND OR NOT v_promotion.active THEN
+    v_reason := 'not_found';
+  ELSIF v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > now() THEN
+    v_reason := 'not_started';
+  ELSIF v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= now() THEN
+    v_reason := 'expired';
+  ELSE
+    SELECT COALESCE(SUM(p.price * l.quantity), 0) INTO v_eligible
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.quantity > 0
+      AND (v_promotion.seller_id IS NULL OR p.seller_id = v_promotion.seller_id);
+
+    IF v_eligible = 0 THEN
+      v_reason := 'no_eligible_items';
+    ELSIF v_eligible < v_promotion.min_order_amount THEN
+      v_reason := 'below_minimum';
+    ELSIF v_promotion.max_uses IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses THEN
+      v_reason := 'usage_limit';
+    ELSIF v_promotion.max_uses_per_user IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND user_id = p_user_id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses_per_user THEN
+      v_reason := 'user_limit';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'code', v_code,
+      'reason', v_reason,
+      'min_order_amount', v_promotion.min_order_amount
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'seller_id', v_promotion.seller_id,
+    'discount_type', v_promotion.discount_type,
+    'discount_value', v_promotion.discount_value,
+    'eligible_subtotal', v_eligible,
+    'discount_amount', CASE v_promotion.discount_type
+      WHEN 'percentage' THEN round(v_eligible * v_promotion.discount_value / 100)
+      ELSE LEAST(v_promotion.discount_value, v_eligible)
+    END
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cart_tax_lines(p_items JSONB, p_address JSONB, p_promotion JSONB)
+RETURNS TABLE (product_id UUID, tax_rate NUMERIC, tax_amount NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         r.rate,
+         round(
+           (p.price * l.quantity - CASE
+              WHEN (p_promotion->>'valid')::BOOLEAN
+                AND (p_promotion->>'seller_id' IS NULL OR (p_promotion->>'seller_id')::UUID = p.seller_id)
+              THEN (p_promotion->>'discount_amount')::NUMERIC * p.price * l.quantity
+                / NULLIF((p_promotion->>'eligible_subtotal')::NUMERIC, 0)
+              ELSE 0
+            END) * r.rate / 100
+         )
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  CROSS JOIN LATERAL (SELECT public.tax_rate_for(p_address, p.category) AS rate) r;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+  v_tax NUMERIC;
+  v_exchange_rate NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  SELECT rate INTO v_exchange_rate
+  FROM public.exchange_rates
+  WHERE currency = upper(btrim(p_currency));
+
+  IF v_exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'Payments in % are not supported', p_currency;
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.quantity,
+           p.id IS NOT NULL AS found,
+           p.name,
+           COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0) AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', GREATEST(COALESCE(v_line.available, 0), 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least %',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          public.format_money((v_undeliverable->>'min_order_amount')::BIGINT);
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least %',
+            v_promotion->>'code', public.format_money((v_promotion->>'min_order_amount')::BIGINT);
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(p.price * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status, currency, exchange_rate
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved', upper(btrim(p_currency)), v_exchange_rate
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id, discount_amount)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID,
+         CASE WHEN (v_promotion->>'seller_id')::UUID = s.seller_id
+           THEN (v_promotion->>'discount_amount')::NUMERIC
+           ELSE 0
+         END
+  FROM (
+    SELECT p.seller_id, SUM(p.price * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (order_id, product_id, quantity, price, fulfillment_id, tax_rate, tax_amount)
+  SELECT v_order.id, p.id, l.quantity, p.price, f.id, t.tax_rate, t.tax_amount
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id
+  JOIN public.cart_tax_lines(p_items, v_address, v_promotion) t ON t.product_id = p.id;
+
+  SELECT COALESCE(SUM(tax_amount), 0) INTO v_tax
+  FROM public.order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE public.orders
+  SET tax_amount = v_tax,
+      total_amount = total_amount + v_tax
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id;
+
+  RETURN v_order;
+END;
+$$;
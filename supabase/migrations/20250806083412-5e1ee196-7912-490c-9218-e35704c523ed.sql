@@ -0,0 +1,911 @@
+-- Product variants. A product can be sold in several options, e.g. each size
+-- and colour of a shirt, with its own SKU, stock and optionally its own price
+-- and image. Products without variants keep working as before; for products
+-- with variants, every cart and order line names the variant and stock is
+-- held per variant.
+
+-- The axes buyers pick a variant by, in display order, e.g.
+-- [{"name": "Size", "values": ["S", "M", "L"]}]
+ALTER TABLE public.products
+ADD COLUMN variant_options JSONB NOT NULL DEFAULT '[]'::JSONB
+  CHECK (jsonb_typeof(variant_options) = 'array');
+
+CREATE TABLE public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- One value per axis, e.g. {"Size": "M", "Color": "Red"}
+  options JSONB NOT NULL CHECK (jsonb_typeof(options) = 'object'),
+  -- The values joined in axis order, e.g. "M / Red"
+  name TEXT NOT NULL CHECK (name <> ''),
+  sku TEXT CHECK (sku <> ''),
+  -- In the product's currency; NULL sells at the product's price
+  list_price BIGINT CHECK (list_price >= 0),
+  -- list_price in the base currency, kept up to date like products.price
+  price BIGINT,
+  stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  reserved_quantity INTEGER NOT NULL DEFAULT 0 CHECK (reserved_quantity >= 0),
+  -- NULL shows the product's image
+  image_url TEXT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (product_id, options),
+  UNIQUE (product_id, sku)
+);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product variants are viewable by everyone"
+ON public.product_variants
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Sellers can add variants to their own products"
+ON public.product_variants
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can update variants of their own products"
+ON public.product_variants
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can delete variants of their own products"
+ON public.product_variants
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE INDEX idx_product_variants_product_id ON public.product_variants(product_id, position);
+
+CREATE TRIGGER update_product_variants_updated_at
+BEFORE UPDATE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_variant_base_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.price := round(NEW.list_price / (
+    SELECT r.rate
+    FROM public.products p
+    JOIN public.exchange_rates r ON r.currency = p.currency
+    WHERE p.id = NEW.product_id
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_product_variants_base_price
+BEFORE INSERT OR UPDATE OF list_price ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.set_variant_base_price();
+
+CREATE OR REPLACE FUNCTION public.reprice_products_for_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET price = round(list_price / NEW.rate)
+  WHERE currency = NEW.currency;
+
+  UPDATE public.product_variants v
+  SET price = round(v.list_price / NEW.rate)
+  FROM public.products p
+  WHERE p.id = v.product_id AND p.currency = NEW.currency AND v.list_price IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Variant prices follow the product when its currency changes
+CREATE OR REPLACE FUNCTION public.reprice_variants_for_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.product_variants
+  SET price = round(list_price / (SELECT rate FROM public.exchange_rates WHERE currency = NEW.currency))
+  WHERE product_id = NEW.id AND list_price IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reprice_variants_on_currency_change
+AFTER UPDATE OF currency ON public.products
+FOR EACH ROW
+WHEN (OLD.currency IS DISTINCT FROM NEW.currency)
+EXECUTE FUNCTION public.reprice_variants_for_product();
+
+-- A product with variants shows their combined stock, so listings and the
+-- seller dashboard need no changes
+CREATE OR REPLACE FUNCTION public.sync_product_stock_from_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products
+  SET stock_quantity = COALESCE(v.stock_quantity, 0),
+      reserved_quantity = COALESCE(v.reserved_quantity, 0)
+  FROM (
+    SELECT SUM(stock_quantity) AS stock_quantity, SUM(reserved_quantity) AS reserved_quantity
+    FROM public.product_variants
+    WHERE product_id = v_product_id
+  ) v
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_stock_from_variants
+AFTER INSERT OR DELETE OR UPDATE OF stock_quantity, reserved_quantity ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_product_stock_from_variants();
+
+-- The same product can now be in the cart once per variant
+ALTER TABLE public.cart_items
+ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+DROP CONSTRAINT cart_items_user_id_product_id_key,
+ADD CONSTRAINT cart_items_user_id_product_id_variant_id_key
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+-- variant_name keeps what was bought if the variant is later changed or removed
+ALTER TABLE public.order_items
+ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN variant_name TEXT;
+
+-- Cart payloads now carry an optional variant_id, and lines are per variant
+DROP FUNCTION public.cart_lines(JSONB);
+
+CREATE OR REPLACE FUNCTION public.cart_lines(p_items JSONB)
+RETURNS TABLE (product_id UUID, variant_id UUID, quantity INTEGER)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (item->>'product_id')::UUID,
+         NULLIF(item->>'variant_id', '')::UUID,
+         SUM((item->>'quantity')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(p_items) AS item
+  GROUP BY 1, 2
+$$;
+
+-- Whether a cart line names something that can be bought: a product without
+-- variants, or one of the product's variants
+CREATE OR REPLACE FUNCTION public.is_valid_cart_line(p_product_id UUID, p_variant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_variant_id IS NULL THEN
+      EXISTS (SELECT 1 FROM public.products WHERE id = p_product_id)
+      AND NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id)
+    ELSE
+      EXISTS (SELECT 1 FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id)
+  END
+$$;
+
+-- Guest lines are merged per variant
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_line RECORD;
+  v_quantity INTEGER;
+  v_conflicts JSONB := '[]'::JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' THEN
+    RETURN v_conflicts;
+  END IF;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.variant_id,
+           l.quantity AS guest_quantity,
+           public.is_valid_cart_line(l.product_id, l.variant_id) AS found,
+           p.name || COALESCE(' (' || v.name || ')', '') AS name,
+           GREATEST(CASE
+             WHEN v.id IS NOT NULL THEN v.stock_quantity - v.reserved_quantity
+             ELSE COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0)
+           END, 0) AS available,
+           COALESCE(c.quantity, 0) AS saved_quantity
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+    LEFT JOIN public.cart_items c
+      ON c.product_id = l.product_id
+      AND c.variant_id IS NOT DISTINCT FROM l.variant_id
+      AND c.user_id = v_user_id
+    WHERE l.quantity > 0
+  LOOP
+    IF NOT v_line.found THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', NULL,
+        'requested', v_line.guest_quantity,
+        'added', 0,
+        'available', 0
+      );
+      CONTINUE;
+    END IF;
+
+    v_quantity := LEAST(v_line.saved_quantity + v_line.guest_quantity, v_line.available);
+
+    IF v_quantity < v_line.saved_quantity + v_line.guest_quantity THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', v_line.name,
+        'requested', v_line.saved_quantity + v_line.guest_quantity,
+        'added', GREATEST(v_quantity - v_line.saved_quantity, 0),
+        'available', v_line.available
+      );
+    END IF;
+
+    -- Never lower what was already saved; only the guest quantity is capped
+    IF v_quantity > v_line.saved_quantity THEN
+      INSERT INTO public.cart_items (user_id, product_id, variant_id, quantity)
+      VALUES (v_user_id, v_line.product_id, v_line.variant_id, v_quantity)
+      ON CONFLICT (user_id, product_id, variant_id)
+      DO UPDATE SET quantity = EXCLUDED.quantity;
+    END IF;
+  END LOOP;
+
+  RETURN v_conflicts;
+END;
+$$;
+
+-- Line prices below are the variant's price where it has one
+
+CREATE OR REPLACE FUNCTION public.quote_delivery(p_items JSONB, p_address JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lat DOUBLE PRECISION;
+  v_lng DOUBLE PRECISION;
+  v_seller RECORD;
+  v_zone public.delivery_zones;
+  v_minimum NUMERIC;
+  v_entry JSONB;
+  v_sellers JSONB := '[]'::JSONB;
+  v_total NUMERIC := 0;
+BEGIN
+  IF jsonb_typeof(p_address->'latitude') = 'number' AND jsonb_typeof(p_address->'longitude') = 'number' THEN
+    v_lat := (p_address->>'latitude')::DOUBLE PRECISION;
+    v_lng := (p_address->>'longitude')::DOUBLE PRECISION;
+  END IF;
+
+  FOR v_seller IN
+    SELECT p.seller_id,
+           SUM(COALESCE(v.price, p.price) * l.quantity) AS subtotal,
+           array_agg(DISTINCT p.name ORDER BY p.name) AS products
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+    GROUP BY p.seller_id
+  LOOP
+    v_entry := jsonb_build_object(
+      'seller_id', v_seller.seller_id,
+      'subtotal', v_seller.subtotal,
+      'products', to_jsonb(v_seller.products),
+      'deliverable', true,
+      'delivery_fee', 0,
+      'zone_id', NULL,
+      'zone_name', NULL,
+      'reason', NULL
+    );
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.delivery_zones
+      WHERE seller_id = v_seller.seller_id AND active
+    ) THEN
+      NULL;
+    ELSIF v_lat IS NULL THEN
+      v_entry := v_entry || jsonb_build_object('deliverable', false, 'reason', 'no_location');
+    ELSE
+      SELECT * INTO v_zone
+      FROM public.delivery_zones z
+      WHERE z.seller_id = v_seller.seller_id
+      AND z.active
+      AND z.min_order_amount <= v_seller.subtotal
+      AND public.delivery_zone_contains(z, v_lat, v_lng)
+      ORDER BY z.fee, z.min_order_amount
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_entry := v_entry || jsonb_build_object(
+          'delivery_fee', v_zone.fee,
+          'zone_id', v_zone.id,
+          'zone_name', v_zone.name
+        );
+        v_total := v_total + v_zone.fee;
+      ELSE
+        SELECT MIN(z.min_order_amount) INTO v_minimum
+        FROM public.delivery_zones z
+        WHERE z.seller_id = v_seller.seller_id
+        AND z.active
+        AND public.delivery_zone_contains(z, v_lat, v_lng);
+
+        v_entry := v_entry || CASE
+          WHEN v_minimum IS NULL THEN jsonb_build_object('deliverable', false, 'reason', 'outside_zones')
+          ELSE jsonb_build_object('deliverable', false, 'reason', 'below_minimum', 'min_order_amount', v_minimum)
+        END;
+      END IF;
+    END IF;
+
+    v_sellers := v_sellers || v_entry;
+  END LOOP;
+
+  RETURN jsonb_build_object('delivery_fee', v_total, 'sellers', v_sellers);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.evaluate_promotion(
+  p_user_id UUID,
+  p_code TEXT,
+  p_items JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT := upper(btrim(COALESCE(p_code, '')));
+  v_promotion public.promotions;
+  v_eligible NUMERIC := 0;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_promotion
+  FROM public.promotions
+  WHERE code = v_code;
+
+  IF NOT FOUND OR NOT v_promotion.active THEN
+    v_reason := 'not_found';
+  ELSIF v_promotion.starts_at IS NOT NULL AND v_promotion.starts_at > now() THEN
+    v_reason := 'not_started';
+  ELSIF v_promotion.ends_at IS NOT NULL AND v_promotion.ends_at <= now() THEN
+    v_reason := 'expired';
+  ELSE
+    SELECT COALESCE(SUM(COALESCE(v.price, p.price) * l.quantity), 0) INTO v_eligible
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+    WHERE l.quantity > 0
+      AND (v_promotion.seller_id IS NULL OR p.seller_id = v_promotion.seller_id);
+
+    IF v_eligible = 0 THEN
+      v_reason := 'no_eligible_items';
+    ELSIF v_eligible < v_promotion.min_order_amount THEN
+      v_reason := 'below_minimum';
+    ELSIF v_promotion.max_uses IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses THEN
+      v_reason := 'usage_limit';
+    ELSIF v_promotion.max_uses_per_user IS NOT NULL AND (
+      SELECT COUNT(*) FROM public.orders
+      WHERE promotion_id = v_promotion.id AND user_id = p_user_id AND status <> 'cancelled'
+    ) >= v_promotion.max_uses_per_user THEN
+      v_reason := 'user_limit';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'valid', false,
+      'code', v_code,
+      'reason', v_reason,
+      'min_order_amount', v_promotion.min_order_amount
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'promotion_id', v_promotion.id,
+    'code', v_promotion.code,
+    'seller_id', v_promotion.seller_id,
+    'discount_type', v_promotion.discount_type,
+    'discount_value', v_promotion.discount_value,
+    'eligible_subtotal', v_eligible,
+    'discount_amount', CASE v_promotion.discount_type
+      WHEN 'percentage' THEN round(v_eligible * v_promotion.discount_value / 100)
+      ELSE LEAST(v_promotion.discount_value, v_eligible)
+    END
+  );
+END;
+$$;
+
+-- Now also per variant
+DROP FUNCTION public.cart_tax_lines(JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.cart_tax_lines(p_items JSONB, p_address JSONB, p_promotion JSONB)
+RETURNS TABLE (product_id UUID, variant_id UUID, tax_rate NUMERIC, tax_amount NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.id,
+         l.variant_id,
+         r.rate,
+         round(
+           (COALESCE(v.price, p.price) * l.quantity - CASE
+              WHEN (p_promotion->>'valid')::BOOLEAN
+                AND (p_promotion->>'seller_id' IS NULL OR (p_promotion->>'seller_id')::UUID = p.seller_id)
+              THEN (p_promotion->>'discount_amount')::NUMERIC * COALESCE(v.price, p.price) * l.quantity
+                / NULLIF((p_promotion->>'eligible_subtotal')::NUMERIC, 0)
+              ELSE 0
+            END) * r.rate / 100
+         )
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+  CROSS JOIN LATERAL (SELECT public.tax_rate_for(p_address, p.category) AS rate) r;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cart_tax_lines(JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cart_tax_lines(JSONB, JSONB, JSONB) TO service_role;
+
+-- Lines now include variant_id
+CREATE OR REPLACE FUNCTION public.quote_tax(
+  p_items JSONB,
+  p_address JSONB,
+  p_promotion_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promotion JSONB;
+  v_lines JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    v_promotion := public.evaluate_promotion(auth.uid(), p_promotion_code, p_items);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', t.product_id,
+    'variant_id', t.variant_id,
+    'tax_rate', t.tax_rate,
+    'tax_amount', t.tax_amount
+  )), '[]'::JSONB)
+  INTO v_lines
+  FROM public.cart_tax_lines(p_items, p_address, v_promotion) t;
+
+  RETURN jsonb_build_object(
+    'tax_amount', (SELECT COALESCE(SUM((line.value->>'tax_amount')::NUMERIC), 0) FROM jsonb_array_elements(v_lines) line),
+    'lines', v_lines
+  );
+END;
+$$;
+
+-- Lines are priced, checked and reserved per variant, and order items record
+-- the variant
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+  v_tax NUMERIC;
+  v_exchange_rate NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  SELECT rate INTO v_exchange_rate
+  FROM public.exchange_rates
+  WHERE currency = upper(btrim(p_currency));
+
+  IF v_exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'Payments in % are not supported', p_currency;
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants
+  WHERE id IN (SELECT l.variant_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.variant_id,
+           l.quantity,
+           public.is_valid_cart_line(l.product_id, l.variant_id) AS found,
+           p.name || COALESCE(' (' || v.name || ')', '') AS name,
+           CASE
+             WHEN v.id IS NOT NULL THEN v.stock_quantity - v.reserved_quantity
+             ELSE COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0)
+           END AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', CASE WHEN v_line.found THEN GREATEST(v_line.available, 0) ELSE 0 END
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least %',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          public.format_money((v_undeliverable->>'min_order_amount')::BIGINT);
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least %',
+            v_promotion->>'code', public.format_money((v_promotion->>'min_order_amount')::BIGINT);
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(COALESCE(v.price, p.price) * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status, currency, exchange_rate
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved', upper(btrim(p_currency)), v_exchange_rate
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id, discount_amount)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID,
+         CASE WHEN (v_promotion->>'seller_id')::UUID = s.seller_id
+           THEN (v_promotion->>'discount_amount')::NUMERIC
+           ELSE 0
+         END
+  FROM (
+    SELECT p.seller_id, SUM(COALESCE(v.price, p.price) * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, quantity, price, fulfillment_id, tax_rate, tax_amount
+  )
+  SELECT v_order.id, p.id, v.id, v.name, l.quantity, COALESCE(v.price, p.price), f.id, t.tax_rate, t.tax_amount
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id
+  JOIN public.cart_tax_lines(p_items, v_address, v_promotion) t
+    ON t.product_id = p.id AND t.variant_id IS NOT DISTINCT FROM l.variant_id;
+
+  SELECT COALESCE(SUM(tax_amount), 0) INTO v_tax
+  FROM public.order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE public.orders
+  SET tax_amount = v_tax,
+      total_amount = total_amount + v_tax
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id AND l.variant_id IS NULL;
+
+  UPDATE public.product_variants v
+  SET reserved_quantity = v.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE v.id = l.variant_id;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Stock moves per variant for lines that name one. Products are locked before
+-- variants, in the order create_order takes them, because changing a
+-- variant's stock also updates its product. Lines whose variant has since been
+-- deleted (variant_name without variant_id) have no stock left to move.
+CREATE OR REPLACE FUNCTION public.lock_order_products(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT product_id FROM public.order_items WHERE order_id = p_order_id)
+  ORDER BY id
+  FOR UPDATE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_order_products(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.commit_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status IS DISTINCT FROM 'reserved' THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.lock_order_products(p_order_id);
+
+  UPDATE public.products p
+  SET stock_quantity = COALESCE(p.stock_quantity, 0) - i.quantity,
+      reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+  FROM (
+    SELECT oi.product_id, SUM(oi.quantity) AS quantity
+    FROM public.order_items oi
+    JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+    WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+      AND oi.variant_id IS NULL AND oi.variant_name IS NULL
+    GROUP BY oi.product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  UPDATE public.product_variants v
+  SET stock_quantity = GREATEST(v.stock_quantity - i.quantity, 0),
+      reserved_quantity = GREATEST(v.reserved_quantity - i.quantity, 0)
+  FROM (
+    SELECT oi.variant_id, SUM(oi.quantity) AS quantity
+    FROM public.order_items oi
+    JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+    WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+    GROUP BY oi.variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE public.orders SET stock_status = 'committed' WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_order_stock(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock_status TEXT;
+BEGIN
+  SELECT stock_status INTO v_stock_status
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_stock_status NOT IN ('reserved', 'committed') OR v_stock_status IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.lock_order_products(p_order_id);
+
+  UPDATE public.products p
+  SET reserved_quantity = CASE WHEN v_stock_status = 'reserved'
+        THEN GREATEST(p.reserved_quantity - i.quantity, 0) ELSE p.reserved_quantity END,
+      stock_quantity = CASE WHEN v_stock_status = 'committed'
+        THEN COALESCE(p.stock_quantity, 0) + i.quantity ELSE p.stock_quantity END
+  FROM (
+    SELECT oi.product_id, SUM(oi.quantity) AS quantity
+    FROM public.order_items oi
+    JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+    WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+      AND oi.variant_id IS NULL AND oi.variant_name IS NULL
+    GROUP BY oi.product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  UPDATE public.product_variants v
+  SET reserved_quantity = CASE WHEN v_stock_status = 'reserved'
+        THEN GREATEST(v.reserved_quantity - i.quantity, 0) ELSE v.reserved_quantity END,
+      stock_quantity = CASE WHEN v_stock_status = 'committed'
+        THEN v.stock_quantity + i.quantity ELSE v.stock_quantity END
+  FROM (
+    SELECT oi.variant_id, SUM(oi.quantity) AS quantity
+    FROM public.order_items oi
+    JOIN public.order_fulfillments f ON f.id = oi.fulfillment_id
+    WHERE oi.order_id = p_order_id AND f.status <> 'cancelled'
+    GROUP BY oi.variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+
+  UPDATE public.orders SET stock_status = 'released' WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.release_fulfillment_stock(p_fulfillment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order_id UUID;
+  v_stock_status TEXT;
+BEGIN
+  SELECT o.id, o.stock_status INTO v_order_id, v_stock_status
+  FROM public.order_fulfillments f
+  JOIN public.orders o ON o.id = f.order_id
+  WHERE f.id = p_fulfillment_id;
+
+  IF v_stock_status NOT IN ('reserved', 'committed') OR v_stock_status IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.lock_order_products(v_order_id);
+
+  UPDATE public.products p
+  SET reserved_quantity = CASE WHEN v_stock_status = 'reserved'
+        THEN GREATEST(p.reserved_quantity - i.quantity, 0) ELSE p.reserved_quantity END,
+      stock_quantity = CASE WHEN v_stock_status = 'committed'
+        THEN COALESCE(p.stock_quantity, 0) + i.quantity ELSE p.stock_quantity END
+  FROM (
+    SELECT product_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE fulfillment_id = p_fulfillment_id
+      AND variant_id IS NULL AND variant_name IS NULL
+    GROUP BY product_id
+  ) i
+  WHERE p.id = i.product_id;
+
+  UPDATE public.product_variants v
+  SET reserved_quantity = CASE WHEN v_stock_status = 'reserved'
+        THEN GREATEST(v.reserved_quantity - i.quantity, 0) ELSE v.reserved_quantity END,
+      stock_quantity = CASE WHEN v_stock_status = 'committed'
+        THEN v.stock_quantity + i.quantity ELSE v.stock_quantity END
+  FROM (
+    SELECT variant_id, SUM(quantity) AS quantity
+    FROM public.order_items
+    WHERE fulfillment_id = p_fulfillment_id
+    GROUP BY variant_id
+  ) i
+  WHERE v.id = i.variant_id;
+END;
+$$;
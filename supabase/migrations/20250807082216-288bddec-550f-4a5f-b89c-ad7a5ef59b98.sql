@@ -0,0 +1,124 @@
+-- Product photos. Sellers upload each image in two sizes (the full image and
+-- a thumbnail, both resized in the browser) to the public product-images
+-- bucket, under a folder named after their user id.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp']);
+
+CREATE POLICY "Product images are viewable by everyone"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'product-images');
+
+CREATE POLICY "Sellers can upload images to their own folder"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'product-images'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  AND EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'seller'
+  )
+);
+
+CREATE POLICY "Sellers can delete images in their own folder"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'product-images'
+  AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE TABLE public.product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  -- Object paths in the product-images bucket, kept so the files can be removed
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_cover BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product images are viewable by everyone"
+ON public.product_images
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Sellers can add images to their own products"
+ON public.product_images
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can update images of their own products"
+ON public.product_images
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE POLICY "Sellers can delete images of their own products"
+ON public.product_images
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.products
+  WHERE id = product_id AND seller_id = auth.uid()
+));
+
+CREATE INDEX idx_product_images_product_id ON public.product_images(product_id, position);
+
+-- At most one cover per product
+CREATE UNIQUE INDEX product_images_one_cover
+ON public.product_images(product_id)
+WHERE is_cover;
+
+CREATE TRIGGER update_product_images_updated_at
+BEFORE UPDATE ON public.product_images
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- products.image_url stays the image listings show: the cover, or the first
+-- image when none is picked. Products without uploads keep their image_url.
+CREATE OR REPLACE FUNCTION public.sync_product_cover_image()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+  v_url TEXT;
+BEGIN
+  SELECT url INTO v_url
+  FROM public.product_images
+  WHERE product_id = v_product_id
+  ORDER BY is_cover DESC, position
+  LIMIT 1;
+
+  IF v_url IS NOT NULL THEN
+    UPDATE public.products
+    SET image_url = v_url
+    WHERE id = v_product_id AND image_url IS DISTINCT FROM v_url;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.products
+    SET image_url = NULL
+    WHERE id = v_product_id AND image_url = OLD.url;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_cover_image
+AFTER INSERT OR DELETE OR UPDATE OF url, position, is_cover ON public.product_images
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_product_cover_image();
@@ -0,0 +1,29 @@
+-- Archived products are hidden from the shop and can't be bought, but stay
+-- in the database so past orders keep pointing at them.
+ALTER TABLE public.products
+ADD COLUMN archived_at TIMESTAMPTZ;
+
+CREATE INDEX idx_products_seller_archived ON public.products(seller_id, archived_at);
+
+-- Deleting a product used to take its order lines with it. A product that
+-- has been ordered can now only be archived.
+ALTER TABLE public.order_items
+DROP CONSTRAINT IF EXISTS order_items_product_id_fkey,
+ADD CONSTRAINT order_items_product_id_fkey
+FOREIGN KEY (product_id) REFERENCES public.products(id) ON DELETE RESTRICT;
+
+CREATE OR REPLACE FUNCTION public.is_valid_cart_line(p_product_id UUID, p_variant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.products WHERE id = p_product_id AND archived_at IS NULL)
+    AND CASE
+      WHEN p_variant_id IS NULL THEN
+        NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id)
+      ELSE
+        EXISTS (SELECT 1 FROM public.product_variants WHERE id = p_variant_id AND product_id = p_product_id)
+    END
+$$;
@@ -0,0 +1,5 @@
+-- The seller's own code for a product. Catalogue imports match rows to
+-- existing products by it, so it is unique per seller.
+ALTER TABLE public.products
+ADD COLUMN sku TEXT CHECK (sku <> ''),
+ADD CONSTRAINT products_seller_id_sku_key UNIQUE (seller_id, sku);
@@ -0,0 +1,130 @@
+-- Product search runs in the database: full-text matching on a weighted
+-- document (name first, then category and SKU, then description), with
+-- trigram similarity on the name to catch typos.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.products
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(category, '') || ' ' || COALESCE(sku, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX idx_products_name_trgm ON public.products USING GIN (name extensions.gin_trgm_ops);
+
+-- Every word of the query as a prefix, all required: "wire head" finds
+-- "Wireless Headphones". NULL when the query has no words.
+CREATE OR REPLACE FUNCTION public.to_prefix_tsquery(p_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- Highlighted matches are wrapped in these control characters rather than
+-- HTML, so seller-written text can't inject markup into the page
+CREATE OR REPLACE FUNCTION public.search_headline_options(p_fragments BOOLEAN)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT format('StartSel=%s, StopSel=%s', chr(2), chr(3))
+    || CASE WHEN p_fragments
+         THEN ', MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "'
+         ELSE ', HighlightAll=true'
+       END
+$$;
+
+-- Products for sale matching the query, best matches first. Without a
+-- query, every product for sale, by name. total_count is the number of
+-- matches before limit and offset.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 48,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price BIGINT,
+  image_url TEXT,
+  category TEXT,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  seller_id UUID,
+  variant_options JSONB,
+  rank REAL,
+  name_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_query TEXT := NULLIF(trim(p_query), '');
+  v_tsquery TSQUERY := public.to_prefix_tsquery(p_query);
+BEGIN
+  RETURN QUERY
+  WITH matches AS (
+    SELECT p.*,
+           CASE
+             WHEN v_query IS NULL THEN 0
+             ELSE COALESCE(ts_rank_cd(p.search_vector, v_tsquery), 0)
+               + word_similarity(v_query, p.name)
+           END::REAL AS match_rank
+    FROM public.products p
+    WHERE p.archived_at IS NULL
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (
+        v_query IS NULL
+        OR p.search_vector @@ v_tsquery
+        -- Typo tolerance: the query is close to some part of the name
+        OR v_query <% p.name
+      )
+  )
+  SELECT m.id,
+         m.name,
+         m.description,
+         m.price,
+         m.image_url,
+         m.category,
+         m.stock_quantity,
+         m.reserved_quantity,
+         m.seller_id,
+         m.variant_options,
+         m.match_rank,
+         CASE
+           WHEN v_tsquery IS NULL THEN m.name
+           ELSE ts_headline('english', m.name, v_tsquery, public.search_headline_options(false))
+         END,
+         CASE
+           WHEN v_tsquery IS NULL OR NOT (to_tsvector('english', COALESCE(m.description, '')) @@ v_tsquery) THEN NULL
+           ELSE ts_headline('english', m.description, v_tsquery, public.search_headline_options(true))
+         END,
+         COUNT(*) OVER ()
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
+
+-- The categories of products for sale, for the shop's category filter
+CREATE OR REPLACE FUNCTION public.product_categories()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT DISTINCT category
+  FROM public.products
+  WHERE archived_at IS NULL AND category IS NOT NULL AND category <> ''
+  ORDER BY category
+$$;
@@ -0,0 +1,218 @@
+-- Filters, sorting and facet counts for the shop's product listing. Ratings
+-- come from reviews, and units sold from orders that were paid for.
+CREATE INDEX IF NOT EXISTS idx_comments_product_id ON public.comments(product_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON public.order_items(product_id);
+
+-- Products for sale matching every given filter (NULL means any), with what
+-- they are ranked and sorted by. Order lines are read regardless of who
+-- placed them, so this only ever returns totals.
+CREATE OR REPLACE FUNCTION public.match_products(
+  p_query TEXT,
+  p_category TEXT,
+  p_seller_id UUID,
+  p_min_price BIGINT,
+  p_max_price BIGINT,
+  p_in_stock BOOLEAN,
+  p_min_rating NUMERIC
+)
+RETURNS TABLE (
+  id UUID,
+  match_rank REAL,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT NULLIF(trim(p_query), '') AS text, public.to_prefix_tsquery(p_query) AS tsquery
+  )
+  SELECT p.id,
+         CASE
+           WHEN q.text IS NULL THEN 0
+           ELSE COALESCE(ts_rank_cd(p.search_vector, q.tsquery), 0) + word_similarity(q.text, p.name)
+         END::REAL,
+         r.average_rating,
+         r.review_count,
+         COALESCE(s.units_sold, 0)
+  FROM public.products p
+  CROSS JOIN q
+  CROSS JOIN LATERAL (
+    SELECT ROUND(AVG(c.rating), 1) AS average_rating, COUNT(c.rating) AS review_count
+    FROM public.comments c
+    WHERE c.product_id = p.id
+  ) r
+  CROSS JOIN LATERAL (
+    SELECT SUM(oi.quantity)::BIGINT AS units_sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.product_id = p.id
+      AND o.status NOT IN ('pending', 'payment_failed', 'cancelled', 'refunded')
+  ) s
+  WHERE p.archived_at IS NULL
+    AND (p_category IS NULL OR p.category = p_category)
+    AND (p_seller_id IS NULL OR p.seller_id = p_seller_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (NOT COALESCE(p_in_stock, false) OR COALESCE(p.stock_quantity, 0) - p.reserved_quantity > 0)
+    AND (p_min_rating IS NULL OR r.average_rating >= p_min_rating)
+    AND (
+      q.text IS NULL
+      OR p.search_vector @@ q.tsquery
+      -- Typo tolerance: the query is close to some part of the name
+      OR q.text <% p.name
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_products(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- The listing itself. p_sort is one of relevance, price_asc, price_desc,
+-- newest, best_selling or top_rated; relevance without a query is by name.
+DROP FUNCTION public.search_products(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 48,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price BIGINT,
+  image_url TEXT,
+  category TEXT,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  seller_id UUID,
+  variant_options JSONB,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT,
+  rank REAL,
+  name_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS tsquery
+  )
+  SELECT p.id,
+         p.name,
+         p.description,
+         p.price,
+         p.image_url,
+         p.category,
+         p.stock_quantity,
+         p.reserved_quantity,
+         p.seller_id,
+         p.variant_options,
+         m.average_rating,
+         m.review_count,
+         m.units_sold,
+         m.match_rank,
+         CASE
+           WHEN q.tsquery IS NULL THEN p.name
+           ELSE ts_headline('english', p.name, q.tsquery, public.search_headline_options(false))
+         END,
+         CASE
+           WHEN q.tsquery IS NULL OR NOT (to_tsvector('english', COALESCE(p.description, '')) @@ q.tsquery) THEN NULL
+           ELSE ts_headline('english', p.description, q.tsquery, public.search_headline_options(true))
+         END,
+         COUNT(*) OVER ()
+  FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+  JOIN public.products p ON p.id = m.id
+  CROSS JOIN q
+  ORDER BY
+    CASE WHEN p_sort = 'price_asc' THEN p.price END ASC,
+    CASE WHEN p_sort = 'price_desc' THEN p.price END DESC,
+    CASE WHEN p_sort = 'newest' THEN p.created_at END DESC,
+    CASE WHEN p_sort = 'best_selling' THEN m.units_sold END DESC,
+    CASE WHEN p_sort = 'top_rated' THEN m.average_rating END DESC NULLS LAST,
+    CASE WHEN p_sort = 'top_rated' THEN m.review_count END DESC,
+    m.match_rank DESC,
+    p.name,
+    p.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0)
+$$;
+
+-- Counts for each filter of the listing. Each facet is counted with every
+-- other filter applied but not its own, so choosing one category still shows
+-- how many products the others have. Seller names are read from profiles,
+-- which buyers can't otherwise see.
+CREATE OR REPLACE FUNCTION public.product_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT jsonb_build_object(
+    'categories', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', c.category, 'count', c.count) ORDER BY c.category), '[]'::JSONB)
+      FROM (
+        SELECT p.category, COUNT(*) AS count
+        FROM public.match_products(p_query, NULL, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+        JOIN public.products p ON p.id = m.id
+        WHERE p.category IS NOT NULL AND p.category <> ''
+        GROUP BY p.category
+      ) c
+    ),
+    'sellers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('id', s.seller_id, 'name', s.name, 'count', s.count) ORDER BY s.name), '[]'::JSONB)
+      FROM (
+        SELECT p.seller_id, COALESCE(NULLIF(pr.full_name, ''), 'Seller') AS name, COUNT(*) AS count
+        FROM public.match_products(p_query, p_category, NULL, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+        JOIN public.products p ON p.id = m.id
+        LEFT JOIN public.profiles pr ON pr.user_id = p.seller_id
+        GROUP BY p.seller_id, pr.full_name
+      ) s
+    ),
+    'price', (
+      SELECT jsonb_build_object('min', MIN(p.price), 'max', MAX(p.price))
+      FROM public.match_products(p_query, p_category, p_seller_id, NULL, NULL, p_in_stock, p_min_rating) m
+      JOIN public.products p ON p.id = m.id
+    ),
+    'in_stock', (
+      SELECT COUNT(*)
+      FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, true, p_min_rating)
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('min', r.min, 'count', r.count) ORDER BY r.min DESC)
+      FROM (
+        SELECT t.min, COUNT(m.id) AS count
+        FROM (VALUES (4), (3), (2), (1)) AS t(min)
+        LEFT JOIN public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, NULL) m
+          ON m.average_rating >= t.min
+        GROUP BY t.min
+      ) r
+    )
+  )
+$$;
+
+-- Categories now come with the listing's facets
+DROP FUNCTION public.product_categories();
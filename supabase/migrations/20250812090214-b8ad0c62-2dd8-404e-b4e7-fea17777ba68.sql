@@ -0,0 +1,106 @@
+-- The product listing pages by cursor rather than offset, so pages stay
+-- cheap however deep the buyer scrolls and don't repeat or skip products
+-- when the catalogue changes in between.
+DROP FUNCTION public.search_products(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC, TEXT, INTEGER, INTEGER);
+
+-- Every sort is turned into the same ascending key (k1, k2, name, id), so
+-- one row comparison finds where the previous page ended. sort_cursor is
+-- that key for each row; pass the last one as p_after for the next page.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 48,
+  p_after TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price BIGINT,
+  image_url TEXT,
+  category TEXT,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  seller_id UUID,
+  variant_options JSONB,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT,
+  rank REAL,
+  name_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT,
+  sort_cursor TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS tsquery
+  ),
+  prev AS (
+    SELECT (c->>0)::NUMERIC AS k1, (c->>1)::NUMERIC AS k2, c->>2 AS name, (c->>3)::UUID AS id
+    FROM (SELECT p_after::JSONB AS c) a
+  ),
+  keyed AS (
+    SELECT p.*,
+           m.average_rating,
+           m.review_count,
+           m.units_sold,
+           m.match_rank,
+           CASE p_sort
+             WHEN 'price_asc' THEN p.price::NUMERIC
+             WHEN 'price_desc' THEN -p.price::NUMERIC
+             WHEN 'newest' THEN -extract(epoch FROM p.created_at)
+             WHEN 'best_selling' THEN -m.units_sold::NUMERIC
+             WHEN 'top_rated' THEN -COALESCE(m.average_rating, 0)
+             ELSE -m.match_rank::NUMERIC
+           END AS k1,
+           CASE p_sort
+             WHEN 'top_rated' THEN -m.review_count::NUMERIC
+             ELSE -m.match_rank::NUMERIC
+           END AS k2,
+           -- Counted before the cursor is applied
+           COUNT(*) OVER () AS total_count
+    FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+    JOIN public.products p ON p.id = m.id
+  )
+  SELECT k.id,
+         k.name,
+         k.description,
+         k.price,
+         k.image_url,
+         k.category,
+         k.stock_quantity,
+         k.reserved_quantity,
+         k.seller_id,
+         k.variant_options,
+         k.average_rating,
+         k.review_count,
+         k.units_sold,
+         k.match_rank,
+         CASE
+           WHEN q.tsquery IS NULL THEN k.name
+           ELSE ts_headline('english', k.name, q.tsquery, public.search_headline_options(false))
+         END,
+         CASE
+           WHEN q.tsquery IS NULL OR NOT (to_tsvector('english', COALESCE(k.description, '')) @@ q.tsquery) THEN NULL
+           ELSE ts_headline('english', k.description, q.tsquery, public.search_headline_options(true))
+         END,
+         k.total_count,
+         jsonb_build_array(k.k1, k.k2, k.name, k.id)::TEXT
+  FROM keyed k
+  CROSS JOIN q
+  CROSS JOIN prev
+  WHERE p_after IS NULL OR (k.k1, k.k2, k.name, k.id) > (prev.k1, prev.k2, prev.name, prev.id)
+  ORDER BY k.k1, k.k2, k.name, k.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+$$;
@@ -0,0 +1,284 @@
+-- Products are filed under a managed tree of categories instead of a free
+-- text category. Categories are platform settings managed with the service
+-- role.
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  parent_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  -- Used in the category's address, /c/<slug>
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  -- A lucide icon name, e.g. 'laptop'
+  icon TEXT,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+USING (true);
+
+CREATE INDEX idx_categories_parent_id ON public.categories(parent_id);
+
+-- No two categories side by side with the same name
+CREATE UNIQUE INDEX idx_categories_sibling_name
+ON public.categories (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::UUID), lower(name));
+
+CREATE TRIGGER update_categories_updated_at
+BEFORE UPDATE ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A category can't be nested under itself or anything nested under it
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT NEW.parent_id AS id
+      UNION
+      SELECT c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON a.id = c.id
+      WHERE c.parent_id IS NOT NULL
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Category % can''t be nested under itself', NEW.name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_category_parent
+BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.check_category_parent();
+
+-- Lower case words joined by dashes: "Home & Garden" becomes home-garden
+CREATE OR REPLACE FUNCTION public.slugify(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(regexp_replace(lower(COALESCE(p_text, '')), '[^a-z0-9]+', '-', 'g'), '-')
+$$;
+
+-- The category with this slug and every category nested under it
+CREATE OR REPLACE FUNCTION public.category_subtree(p_slug TEXT)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE tree AS (
+    SELECT id FROM public.categories WHERE slug = p_slug
+    UNION
+    SELECT c.id
+    FROM public.categories c
+    JOIN tree t ON c.parent_id = t.id
+  )
+  SELECT id FROM tree
+$$;
+
+-- products.category stays as the category's name, kept in step by the
+-- triggers below, so search, tax rules and exports keep reading it
+ALTER TABLE public.products
+ADD COLUMN category_id UUID REFERENCES public.categories(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_products_category_id ON public.products(category_id);
+
+CREATE OR REPLACE FUNCTION public.set_product_category_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.category := (SELECT name FROM public.categories WHERE id = NEW.category_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_product_category_name
+BEFORE INSERT OR UPDATE OF category, category_id ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_category_name();
+
+CREATE OR REPLACE FUNCTION public.sync_category_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products SET category_id = category_id WHERE category_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_category_name
+AFTER UPDATE OF name ON public.categories
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_category_name();
+
+-- Existing free text becomes top-level categories. Spellings that differ
+-- only in case, punctuation or a trailing "s" ("Electronics", "electronics",
+-- "Electronic") become one category, named after the most used of them.
+WITH spellings AS (
+  SELECT btrim(category) AS name, public.slugify(category) AS slug, COUNT(*) AS uses
+  FROM public.products
+  WHERE public.slugify(category) <> ''
+  GROUP BY btrim(category), public.slugify(category)
+),
+ranked AS (
+  SELECT name,
+         slug,
+         row_number() OVER (PARTITION BY regexp_replace(slug, 's$', '') ORDER BY uses DESC, name) AS pick
+  FROM spellings
+)
+INSERT INTO public.categories (name, slug)
+SELECT name, slug FROM ranked WHERE pick = 1;
+
+UPDATE public.products p
+SET category_id = c.id
+FROM public.categories c
+WHERE regexp_replace(public.slugify(p.category), 's$', '') = regexp_replace(c.slug, 's$', '');
+
+-- Filtering by a category now takes its slug and includes the categories
+-- nested under it
+CREATE OR REPLACE FUNCTION public.match_products(
+  p_query TEXT,
+  p_category TEXT,
+  p_seller_id UUID,
+  p_min_price BIGINT,
+  p_max_price BIGINT,
+  p_in_stock BOOLEAN,
+  p_min_rating NUMERIC
+)
+RETURNS TABLE (
+  id UUID,
+  match_rank REAL,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT NULLIF(trim(p_query), '') AS text, public.to_prefix_tsquery(p_query) AS tsquery
+  )
+  SELECT p.id,
+         CASE
+           WHEN q.text IS NULL THEN 0
+           ELSE COALESCE(ts_rank_cd(p.search_vector, q.tsquery), 0) + word_similarity(q.text, p.name)
+         END::REAL,
+         r.average_rating,
+         r.review_count,
+         COALESCE(s.units_sold, 0)
+  FROM public.products p
+  CROSS JOIN q
+  CROSS JOIN LATERAL (
+    SELECT ROUND(AVG(c.rating), 1) AS average_rating, COUNT(c.rating) AS review_count
+    FROM public.comments c
+    WHERE c.product_id = p.id
+  ) r
+  CROSS JOIN LATERAL (
+    SELECT SUM(oi.quantity)::BIGINT AS units_sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.product_id = p.id
+      AND o.status NOT IN ('pending', 'payment_failed', 'cancelled', 'refunded')
+  ) s
+  WHERE p.archived_at IS NULL
+    AND (p_category IS NULL OR p.category_id IN (SELECT public.category_subtree(p_category)))
+    AND (p_seller_id IS NULL OR p.seller_id = p_seller_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (NOT COALESCE(p_in_stock, false) OR COALESCE(p.stock_quantity, 0) - p.reserved_quantity > 0)
+    AND (p_min_rating IS NULL OR r.average_rating >= p_min_rating)
+    AND (
+      q.text IS NULL
+      OR p.search_vector @@ q.tsquery
+      -- Typo tolerance: the query is close to some part of the name
+      OR q.text <% p.name
+    )
+$$;
+
+-- The category facet now lists the categories one level down from the
+-- chosen one (the top level when none is chosen), each counting the
+-- products nested anywhere under it
+CREATE OR REPLACE FUNCTION public.product_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT jsonb_build_object(
+    'categories', (
+      SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('slug', c.slug, 'name', c.name, 'count', c.count) ORDER BY c.sort_order, c.name),
+        '[]'::JSONB
+      )
+      FROM (
+        SELECT child.slug, child.name, child.sort_order, COUNT(*) AS count
+        FROM public.categories child
+        CROSS JOIN LATERAL public.category_subtree(child.slug) AS sub(id)
+        JOIN public.products p ON p.category_id = sub.id
+        JOIN public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+          ON m.id = p.id
+        WHERE (p_category IS NULL AND child.parent_id IS NULL)
+           OR child.parent_id = (SELECT id FROM public.categories WHERE slug = p_category)
+        GROUP BY child.id, child.slug, child.name, child.sort_order
+      ) c
+    ),
+    'sellers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('id', s.seller_id, 'name', s.name, 'count', s.count) ORDER BY s.name), '[]'::JSONB)
+      FROM (
+        SELECT p.seller_id, COALESCE(NULLIF(pr.full_name, ''), 'Seller') AS name, COUNT(*) AS count
+        FROM public.match_products(p_query, p_category, NULL, p_min_price, p_max_price, p_in_stock, p_min_rating) m
+        JOIN public.products p ON p.id = m.id
+        LEFT JOIN public.profiles pr ON pr.user_id = p.seller_id
+        GROUP BY p.seller_id, pr.full_name
+      ) s
+    ),
+    'price', (
+      SELECT jsonb_build_object('min', MIN(p.price), 'max', MAX(p.price))
+      FROM public.match_products(p_query, p_category, p_seller_id, NULL, NULL, p_in_stock, p_min_rating) m
+      JOIN public.products p ON p.id = m.id
+    ),
+    'in_stock', (
+      SELECT COUNT(*)
+      FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, true, p_min_rating)
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('min', r.min, 'count', r.count) ORDER BY r.min DESC)
+      FROM (
+        SELECT t.min, COUNT(m.id) AS count
+        FROM (VALUES (4), (3), (2), (1)) AS t(min)
+        LEFT JOIN public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, NULL) m
+          ON m.average_rating >= t.min
+        GROUP BY t.min
+      ) r
+    )
+  )
+$$;
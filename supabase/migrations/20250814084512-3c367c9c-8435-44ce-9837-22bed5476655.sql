@@ -0,0 +1,429 @@
+-- Categories define the attributes their products have (screen size,
+-- material, weight...), which products fill in, the product page lists and
+-- the listing can be filtered by. Like categories, attributes are platform
+-- settings managed with the service role.
+CREATE TABLE public.category_attributes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id UUID NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  -- Where the value is kept in products.attributes
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL CHECK (btrim(label) <> ''),
+  type TEXT NOT NULL CHECK (type IN ('text', 'number', 'boolean', 'select')),
+  -- Shown after number values, e.g. 'in' or 'kg'
+  unit TEXT,
+  -- The choices of a select attribute
+  options TEXT[] NOT NULL DEFAULT '{}',
+  min_value NUMERIC,
+  max_value NUMERIC,
+  required BOOLEAN NOT NULL DEFAULT false,
+  -- Offered as a filter on the category's listing
+  filterable BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (category_id, key),
+  CHECK (type <> 'select' OR cardinality(options) > 0),
+  CHECK (min_value IS NULL OR max_value IS NULL OR min_value <= max_value)
+);
+
+ALTER TABLE public.category_attributes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view category attributes"
+ON public.category_attributes
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_category_attributes_updated_at
+BEFORE UPDATE ON public.category_attributes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Values keyed by attribute key: strings for text and select attributes,
+-- numbers and booleans for the others
+ALTER TABLE public.products
+ADD COLUMN attributes JSONB NOT NULL DEFAULT '{}'::JSONB CHECK (jsonb_typeof(attributes) = 'object');
+
+CREATE INDEX idx_products_attributes ON public.products USING GIN (attributes);
+
+-- The attributes of a category's products: its own and those of every
+-- category it's nested under, outermost first. A nested category can
+-- redefine an attribute by using the same key.
+CREATE OR REPLACE FUNCTION public.category_attribute_schema(p_category_id UUID)
+RETURNS SETOF public.category_attributes
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH RECURSIVE ancestors AS (
+    SELECT id, parent_id, 0 AS depth FROM public.categories WHERE id = p_category_id
+    UNION ALL
+    SELECT c.id, c.parent_id, a.depth + 1
+    FROM public.categories c
+    JOIN ancestors a ON c.id = a.parent_id
+  ),
+  nearest AS (
+    SELECT DISTINCT ON (ca.key) ca.*, a.depth
+    FROM public.category_attributes ca
+    JOIN ancestors a ON a.id = ca.category_id
+    ORDER BY ca.key, a.depth
+  )
+  SELECT id, category_id, key, label, type, unit, options, min_value, max_value, required, filterable,
+         sort_order, created_at, updated_at
+  FROM nearest
+  ORDER BY depth DESC, sort_order, label
+$$;
+
+-- Checks each value against the product's category and drops those it
+-- doesn't define, so changing category doesn't leave stale ones behind.
+-- Required attributes are left to the product form, so imports and older
+-- products aren't rejected when a category gains one.
+CREATE OR REPLACE FUNCTION public.validate_product_attributes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_attribute public.category_attributes;
+  v_value JSONB;
+  v_attributes JSONB := '{}'::JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.attributes IS NOT DISTINCT FROM OLD.attributes
+     AND NEW.category_id IS NOT DISTINCT FROM OLD.category_id THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_attribute IN SELECT * FROM public.category_attribute_schema(NEW.category_id) LOOP
+    v_value := NEW.attributes->v_attribute.key;
+    CONTINUE WHEN v_value IS NULL OR v_value = 'null'::JSONB OR v_value = '""'::JSONB;
+
+    IF v_attribute.type = 'number' THEN
+      IF jsonb_typeof(v_value) <> 'number' THEN
+        RAISE EXCEPTION '% must be a number', v_attribute.label;
+      END IF;
+      IF (v_attribute.min_value IS NOT NULL AND (v_value #>> '{}')::NUMERIC < v_attribute.min_value)
+         OR (v_attribute.max_value IS NOT NULL AND (v_value #>> '{}')::NUMERIC > v_attribute.max_value) THEN
+        RAISE EXCEPTION '% must be between % and %', v_attribute.label,
+          COALESCE(v_attribute.min_value::TEXT, 'any'), COALESCE(v_attribute.max_value::TEXT, 'any');
+      END IF;
+    ELSIF v_attribute.type = 'boolean' THEN
+      IF jsonb_typeof(v_value) <> 'boolean' THEN
+        RAISE EXCEPTION '% must be yes or no', v_attribute.label;
+      END IF;
+    ELSIF jsonb_typeof(v_value) <> 'string' THEN
+      RAISE EXCEPTION '% must be text', v_attribute.label;
+    ELSIF v_attribute.type = 'select' AND NOT (v_value #>> '{}') = ANY (v_attribute.options) THEN
+      RAISE EXCEPTION '% must be one of %', v_attribute.label, array_to_string(v_attribute.options, ', ');
+    END IF;
+
+    v_attributes := v_attributes || jsonb_build_object(v_attribute.key, v_value);
+  END LOOP;
+
+  NEW.attributes := v_attributes;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_product_attributes
+BEFORE INSERT OR UPDATE OF attributes, category_id ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_product_attributes();
+
+-- Whether a product's attribute value passes a listing filter: a list of
+-- accepted values, or a {"min", "max"} range for numbers
+CREATE OR REPLACE FUNCTION public.attribute_matches(p_value JSONB, p_filter JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_value IS NULL THEN false
+    WHEN jsonb_typeof(p_filter) = 'array' THEN
+      EXISTS (SELECT 1 FROM jsonb_array_elements_text(p_filter) AS accepted WHERE accepted = p_value #>> '{}')
+    WHEN jsonb_typeof(p_filter) = 'object' THEN
+      CASE
+        WHEN jsonb_typeof(p_value) <> 'number' THEN false
+        ELSE (p_filter->>'min' IS NULL OR (p_value #>> '{}')::NUMERIC >= (p_filter->>'min')::NUMERIC)
+         AND (p_filter->>'max' IS NULL OR (p_value #>> '{}')::NUMERIC <= (p_filter->>'max')::NUMERIC)
+      END
+    ELSE p_value = p_filter
+  END
+$$;
+
+-- The listing functions take attribute filters as p_attributes, keyed by
+-- attribute key
+DROP FUNCTION public.product_search_facets(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC);
+DROP FUNCTION public.search_products(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC, TEXT, INTEGER, TEXT);
+DROP FUNCTION public.match_products(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC);
+
+-- Products for sale matching every given filter (NULL means any), with what
+-- they are ranked and sorted by
+CREATE OR REPLACE FUNCTION public.match_products(
+  p_query TEXT,
+  p_category TEXT,
+  p_seller_id UUID,
+  p_min_price BIGINT,
+  p_max_price BIGINT,
+  p_in_stock BOOLEAN,
+  p_min_rating NUMERIC,
+  p_attributes JSONB
+)
+RETURNS TABLE (
+  id UUID,
+  match_rank REAL,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT NULLIF(trim(p_query), '') AS text, public.to_prefix_tsquery(p_query) AS tsquery
+  )
+  SELECT p.id,
+         CASE
+           WHEN q.text IS NULL THEN 0
+           ELSE COALESCE(ts_rank_cd(p.search_vector, q.tsquery), 0) + word_similarity(q.text, p.name)
+         END::REAL,
+         r.average_rating,
+         r.review_count,
+         COALESCE(s.units_sold, 0)
+  FROM public.products p
+  CROSS JOIN q
+  CROSS JOIN LATERAL (
+    SELECT ROUND(AVG(c.rating), 1) AS average_rating, COUNT(c.rating) AS review_count
+    FROM public.comments c
+    WHERE c.product_id = p.id
+  ) r
+  CROSS JOIN LATERAL (
+    SELECT SUM(oi.quantity)::BIGINT AS units_sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE oi.product_id = p.id
+      AND o.status NOT IN ('pending', 'payment_failed', 'cancelled', 'refunded')
+  ) s
+  WHERE p.archived_at IS NULL
+    AND (p_category IS NULL OR p.category_id IN (SELECT public.category_subtree(p_category)))
+    AND (p_seller_id IS NULL OR p.seller_id = p_seller_id)
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (NOT COALESCE(p_in_stock, false) OR COALESCE(p.stock_quantity, 0) - p.reserved_quantity > 0)
+    AND (p_min_rating IS NULL OR r.average_rating >= p_min_rating)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_each(COALESCE(p_attributes, '{}'::JSONB)) f(key, value)
+      WHERE NOT public.attribute_matches(p.attributes->f.key, f.value)
+    )
+    AND (
+      q.text IS NULL
+      OR p.search_vector @@ q.tsquery
+      -- Typo tolerance: the query is close to some part of the name
+      OR q.text <% p.name
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_products(TEXT, TEXT, UUID, BIGINT, BIGINT, BOOLEAN, NUMERIC, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Unchanged apart from passing p_attributes on
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_attributes JSONB DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INTEGER DEFAULT 48,
+  p_after TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  price BIGINT,
+  image_url TEXT,
+  category TEXT,
+  stock_quantity INTEGER,
+  reserved_quantity INTEGER,
+  seller_id UUID,
+  variant_options JSONB,
+  average_rating NUMERIC,
+  review_count BIGINT,
+  units_sold BIGINT,
+  rank REAL,
+  name_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT,
+  sort_cursor TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT public.to_prefix_tsquery(p_query) AS tsquery
+  ),
+  prev AS (
+    SELECT (c->>0)::NUMERIC AS k1, (c->>1)::NUMERIC AS k2, c->>2 AS name, (c->>3)::UUID AS id
+    FROM (SELECT p_after::JSONB AS c) a
+  ),
+  keyed AS (
+    SELECT p.*,
+           m.average_rating,
+           m.review_count,
+           m.units_sold,
+           m.match_rank,
+           CASE p_sort
+             WHEN 'price_asc' THEN p.price::NUMERIC
+             WHEN 'price_desc' THEN -p.price::NUMERIC
+             WHEN 'newest' THEN -extract(epoch FROM p.created_at)
+             WHEN 'best_selling' THEN -m.units_sold::NUMERIC
+             WHEN 'top_rated' THEN -COALESCE(m.average_rating, 0)
+             ELSE -m.match_rank::NUMERIC
+           END AS k1,
+           CASE p_sort
+             WHEN 'top_rated' THEN -m.review_count::NUMERIC
+             ELSE -m.match_rank::NUMERIC
+           END AS k2,
+           -- Counted before the cursor is applied
+           COUNT(*) OVER () AS total_count
+    FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating, p_attributes) m
+    JOIN public.products p ON p.id = m.id
+  )
+  SELECT k.id,
+         k.name,
+         k.description,
+         k.price,
+         k.image_url,
+         k.category,
+         k.stock_quantity,
+         k.reserved_quantity,
+         k.seller_id,
+         k.variant_options,
+         k.average_rating,
+         k.review_count,
+         k.units_sold,
+         k.match_rank,
+         CASE
+           WHEN q.tsquery IS NULL THEN k.name
+           ELSE ts_headline('english', k.name, q.tsquery, public.search_headline_options(false))
+         END,
+         CASE
+           WHEN q.tsquery IS NULL OR NOT (to_tsvector('english', COALESCE(k.description, '')) @@ q.tsquery) THEN NULL
+           ELSE ts_headline('english', k.description, q.tsquery, public.search_headline_options(true))
+         END,
+         k.total_count,
+         jsonb_build_array(k.k1, k.k2, k.name, k.id)::TEXT
+  FROM keyed k
+  CROSS JOIN q
+  CROSS JOIN prev
+  WHERE p_after IS NULL OR (k.k1, k.k2, k.name, k.id) > (prev.k1, prev.k2, prev.name, prev.id)
+  ORDER BY k.k1, k.k2, k.name, k.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+$$;
+
+-- Filterable attributes of the chosen category are counted like the other
+-- facets: with every filter applied except their own
+CREATE OR REPLACE FUNCTION public.product_search_facets(
+  p_query TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_seller_id UUID DEFAULT NULL,
+  p_min_price BIGINT DEFAULT NULL,
+  p_max_price BIGINT DEFAULT NULL,
+  p_in_stock BOOLEAN DEFAULT false,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_attributes JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT jsonb_build_object(
+    'categories', (
+      SELECT COALESCE(
+        jsonb_agg(jsonb_build_object('slug', c.slug, 'name', c.name, 'count', c.count) ORDER BY c.sort_order, c.name),
+        '[]'::JSONB
+      )
+      FROM (
+        SELECT child.slug, child.name, child.sort_order, COUNT(*) AS count
+        FROM public.categories child
+        CROSS JOIN LATERAL public.category_subtree(child.slug) AS sub(id)
+        JOIN public.products p ON p.category_id = sub.id
+        JOIN public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating, p_attributes) m
+          ON m.id = p.id
+        WHERE (p_category IS NULL AND child.parent_id IS NULL)
+           OR child.parent_id = (SELECT id FROM public.categories WHERE slug = p_category)
+        GROUP BY child.id, child.slug, child.name, child.sort_order
+      ) c
+    ),
+    'sellers', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('id', s.seller_id, 'name', s.name, 'count', s.count) ORDER BY s.name), '[]'::JSONB)
+      FROM (
+        SELECT p.seller_id, COALESCE(NULLIF(pr.full_name, ''), 'Seller') AS name, COUNT(*) AS count
+        FROM public.match_products(p_query, p_category, NULL, p_min_price, p_max_price, p_in_stock, p_min_rating, p_attributes) m
+        JOIN public.products p ON p.id = m.id
+        LEFT JOIN public.profiles pr ON pr.user_id = p.seller_id
+        GROUP BY p.seller_id, pr.full_name
+      ) s
+    ),
+    'price', (
+      SELECT jsonb_build_object('min', MIN(p.price), 'max', MAX(p.price))
+      FROM public.match_products(p_query, p_category, p_seller_id, NULL, NULL, p_in_stock, p_min_rating, p_attributes) m
+      JOIN public.products p ON p.id = m.id
+    ),
+    'in_stock', (
+      SELECT COUNT(*)
+      FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, true, p_min_rating, p_attributes)
+    ),
+    'ratings', (
+      SELECT jsonb_agg(jsonb_build_object('min', r.min, 'count', r.count) ORDER BY r.min DESC)
+      FROM (
+        SELECT t.min, COUNT(m.id) AS count
+        FROM (VALUES (4), (3), (2), (1)) AS t(min)
+        LEFT JOIN public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, NULL, p_attributes) m
+          ON m.average_rating >= t.min
+        GROUP BY t.min
+      ) r
+    ),
+    'attributes', (
+      SELECT COALESCE(jsonb_agg(
+        jsonb_build_object('key', a.key, 'label', a.label, 'type', a.type, 'unit', a.unit)
+        || CASE
+             WHEN a.type = 'number' THEN (
+               SELECT jsonb_build_object(
+                 'min', MIN((p.attributes->>a.key)::NUMERIC),
+                 'max', MAX((p.attributes->>a.key)::NUMERIC)
+               )
+               FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating, COALESCE(p_attributes, '{}'::JSONB) - a.key) m
+               JOIN public.products p ON p.id = m.id
+               WHERE jsonb_typeof(p.attributes->a.key) = 'number'
+             )
+             ELSE (
+               SELECT jsonb_build_object(
+                 'values',
+                 COALESCE(jsonb_agg(jsonb_build_object('value', v.value, 'count', v.count) ORDER BY v.value), '[]'::JSONB)
+               )
+               FROM (
+                 SELECT p.attributes->>a.key AS value, COUNT(*) AS count
+                 FROM public.match_products(p_query, p_category, p_seller_id, p_min_price, p_max_price, p_in_stock, p_min_rating, COALESCE(p_attributes, '{}'::JSONB) - a.key) m
+                 JOIN public.products p ON p.id = m.id
+                 WHERE p.attributes->>a.key IS NOT NULL
+                 GROUP BY 1
+               ) v
+             )
+           END
+        ORDER BY a.ordinality
+      ), '[]'::JSONB)
+      FROM public.category_attribute_schema((SELECT id FROM public.categories WHERE slug = p_category)) WITH ORDINALITY AS a
+      WHERE a.filterable
+    )
+  )
+$$;
@@ -0,0 +1,64 @@
+-- What a cash-on-delivery buyer pays the driver for one fulfilment: the
+-- seller's items less their share of the promotion discount, plus their
+-- delivery fee and the tax on their items
+CREATE OR REPLACE FUNCTION public.fulfillment_amount_due(p_fulfillment_id UUID)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.subtotal - f.discount_amount + f.delivery_fee
+    + (SELECT COALESCE(SUM(i.tax_amount), 0) FROM public.order_items i WHERE i.fulfillment_id = f.id)
+  FROM public.order_fulfillments f
+  WHERE f.id = p_fulfillment_id
+$$;
+
+-- Unchanged apart from recording the full amount due as the cash collected
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_delivered(
+  p_fulfillment_id UUID,
+  p_proof_note TEXT DEFAULT NULL,
+  p_proof_url TEXT DEFAULT NULL,
+  p_cash_collected BOOLEAN DEFAULT false
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_is_cash BOOLEAN;
+BEGIN
+  IF COALESCE(btrim(p_proof_note), '') = '' AND COALESCE(btrim(p_proof_url), '') = '' THEN
+    RAISE EXCEPTION 'A delivery note or photo is required as proof of delivery';
+  END IF;
+
+  IF p_proof_url IS NOT NULL AND btrim(p_proof_url) <> '' AND p_proof_url !~* '^https?://' THEN
+    RAISE EXCEPTION 'Proof of delivery photo must be an http(s) URL';
+  END IF;
+
+  SELECT o.payment_method = 'cash' INTO v_is_cash
+  FROM public.order_fulfillments f
+  JOIN public.orders o ON o.id = f.order_id
+  WHERE f.id = p_fulfillment_id;
+
+  IF v_is_cash AND NOT COALESCE(p_cash_collected, false) THEN
+    RAISE EXCEPTION 'Confirm the cash was collected before marking a cash order delivered';
+  END IF;
+
+  v_fulfillment := public.transition_fulfillment_status(
+    p_fulfillment_id, 'delivered', NULLIF(btrim(p_proof_note), '')
+  );
+
+  UPDATE public.order_fulfillments
+  SET delivered_at = now(),
+      proof_of_delivery_note = NULLIF(btrim(p_proof_note), ''),
+      proof_of_delivery_url = NULLIF(btrim(p_proof_url), ''),
+      cash_collected_at = CASE WHEN v_is_cash THEN now() END,
+      cash_collected_amount = CASE WHEN v_is_cash THEN public.fulfillment_amount_due(id) END
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  RETURN v_fulfillment;
+END;
+$$;
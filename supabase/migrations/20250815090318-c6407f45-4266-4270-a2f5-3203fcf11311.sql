@@ -0,0 +1,84 @@
+-- When the sellers were told about the order an event paid. Telling them
+-- happens after the event's transaction, so a retried delivery of the event
+-- finishes it when it failed.
+ALTER TABLE public.stripe_events
+ADD COLUMN sellers_notified_at TIMESTAMPTZ;
+
+-- Applies a Stripe event to its order in one transaction: claims the event,
+-- keeps the payment intent, moves the order to `p_to` if it is in one of the
+-- `p_from` statuses and records what happened. If any step fails nothing is
+-- kept, the claim included, so Stripe's retry starts over. An event that was
+-- already applied is returned as recorded, without doing anything again.
+-- The order is found by `p_column` ('id', 'stripe_session_id' or
+-- 'stripe_payment_intent_id') equal to `p_value`.
+CREATE OR REPLACE FUNCTION public.apply_stripe_event(
+  p_event_id TEXT,
+  p_type TEXT,
+  p_column TEXT DEFAULT NULL,
+  p_value TEXT DEFAULT NULL,
+  p_from public.order_status[] DEFAULT '{}',
+  p_to public.order_status DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS public.stripe_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event public.stripe_events;
+  v_order public.orders;
+BEGIN
+  -- A concurrent delivery of the same event waits here until the first
+  -- one's transaction ends
+  INSERT INTO public.stripe_events (id, type)
+  VALUES (p_event_id, p_type)
+  ON CONFLICT (id) DO NOTHING
+  RETURNING * INTO v_event;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_event FROM public.stripe_events WHERE id = p_event_id;
+    RETURN v_event;
+  END IF;
+
+  IF p_value IS NULL THEN
+    RETURN v_event;
+  ELSIF p_column = 'id' THEN
+    SELECT * INTO v_order FROM public.orders WHERE id = p_value::UUID FOR UPDATE;
+  ELSIF p_column = 'stripe_session_id' THEN
+    SELECT * INTO v_order FROM public.orders WHERE stripe_session_id = p_value FOR UPDATE;
+  ELSIF p_column = 'stripe_payment_intent_id' THEN
+    SELECT * INTO v_order FROM public.orders WHERE stripe_payment_intent_id = p_value FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Cannot find orders by %', p_column;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN v_event;
+  END IF;
+
+  IF p_payment_intent_id IS NOT NULL THEN
+    UPDATE public.orders
+    SET stripe_payment_intent_id = p_payment_intent_id
+    WHERE id = v_order.id;
+  END IF;
+
+  -- transition_order_status commits or releases the order's stock and
+  -- records the change in its status history
+  IF p_to IS NOT NULL AND v_order.status = ANY (p_from) THEN
+    PERFORM public.transition_order_status(v_order.id, p_to, p_note);
+  END IF;
+
+  UPDATE public.stripe_events
+  SET order_id = v_order.id,
+      previous_status = v_order.status,
+      new_status = CASE WHEN p_to IS NOT NULL AND v_order.status = ANY (p_from) THEN p_to END
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  RETURN v_event;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_stripe_event(TEXT, TEXT, TEXT, TEXT, public.order_status[], public.order_status, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Amounts in create_order's error messages, in the currency the buyer is
+-- paying in: converted at the order's rate and named, e.g. 11.62 EUR
+CREATE OR REPLACE FUNCTION public.format_order_money(p_amount BIGINT, p_currency TEXT, p_rate NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(round(p_amount * p_rate) / 100.0, 'FM999999999990.00') || ' ' || p_currency;
+$$;
@@ -0,0 +1,33 @@
+-- Link the signed-in driver account to the driver records sellers created
+-- for its email address. Only once the account has confirmed that address:
+-- otherwise anyone could sign up with a driver's email and take over their
+-- deliveries. Drivers are linked on the first sign-in after confirming.
+CREATE OR REPLACE FUNCTION public.link_driver_account()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_linked INTEGER;
+BEGIN
+  SELECT email INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid()
+  AND email_confirmed_at IS NOT NULL;
+
+  IF v_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.drivers
+  SET user_id = auth.uid()
+  WHERE user_id IS NULL
+  AND email IS NOT NULL
+  AND lower(email) = lower(v_email);
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  RETURN v_linked;
+END;
+$$;
@@ -0,0 +1,260 @@
+-- Shares an order's discount between its fulfilments: all of it to the
+-- seller whose code it was, or for a platform-wide code in proportion to each
+-- seller's subtotal. Rounding is left to the largest fulfilment, so the
+-- shares add up exactly to orders.discount_amount.
+CREATE OR REPLACE FUNCTION public.allocate_order_discount(p_order_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH shares AS (
+    SELECT f.id,
+           o.discount_amount,
+           p.seller_id AS promotion_seller_id,
+           CASE
+             WHEN p.seller_id IS NOT NULL THEN
+               CASE WHEN f.seller_id = p.seller_id THEN o.discount_amount ELSE 0 END
+             ELSE COALESCE(floor(o.discount_amount * f.subtotal / NULLIF(SUM(f.subtotal) OVER (), 0)), 0)
+           END AS share,
+           row_number() OVER (ORDER BY f.subtotal DESC, f.id) AS rank
+    FROM public.order_fulfillments f
+    JOIN public.orders o ON o.id = f.order_id
+    LEFT JOIN public.promotions p ON p.id = o.promotion_id
+    WHERE f.order_id = p_order_id
+  )
+  UPDATE public.order_fulfillments f
+  SET discount_amount = s.share + CASE
+        WHEN s.promotion_seller_id IS NULL AND s.rank = 1 THEN s.discount_amount - (SELECT SUM(share) FROM shares)
+        ELSE 0
+      END
+  FROM shares s
+  WHERE f.id = s.id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.allocate_order_discount(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Orders placed with a platform-wide code gave every fulfilment a zero share
+SELECT public.allocate_order_discount(o.id)
+FROM public.orders o
+WHERE o.discount_amount <> (
+  SELECT COALESCE(SUM(f.discount_amount), 0) FROM public.order_fulfillments f WHERE f.order_id = o.id
+);
+
+-- Unchanged apart from sharing the discount with allocate_order_discount,
+-- checking the fulfilments add up to the order total, and showing minimum
+-- order amounts in the order's currency
+CREATE OR REPLACE FUNCTION public.create_order(
+  p_user_id UUID,
+  p_items JSONB,
+  p_address JSONB,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_promotion_code TEXT DEFAULT NULL,
+  p_currency TEXT DEFAULT 'USD'
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.orders;
+  v_line RECORD;
+  v_shortages JSONB := '[]'::JSONB;
+  v_total NUMERIC;
+  v_address JSONB;
+  v_quote JSONB;
+  v_undeliverable JSONB;
+  v_promotion JSONB;
+  v_tax NUMERIC;
+  v_exchange_rate NUMERIC;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  v_address := public.normalize_shipping_address(p_address);
+
+  SELECT rate INTO v_exchange_rate
+  FROM public.exchange_rates
+  WHERE currency = upper(btrim(p_currency));
+
+  IF v_exchange_rate IS NULL THEN
+    RAISE EXCEPTION 'Payments in % are not supported', p_currency;
+  END IF;
+
+  -- Lock the products in a stable order so concurrent checkouts queue up
+  -- instead of both reading the same available stock
+  PERFORM 1
+  FROM public.products
+  WHERE id IN (SELECT l.product_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants
+  WHERE id IN (SELECT l.variant_id FROM public.cart_lines(p_items) l)
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.product_id,
+           l.variant_id,
+           l.quantity,
+           public.is_valid_cart_line(l.product_id, l.variant_id) AS found,
+           p.name || COALESCE(' (' || v.name || ')', '') AS name,
+           CASE
+             WHEN v.id IS NOT NULL THEN v.stock_quantity - v.reserved_quantity
+             ELSE COALESCE(p.stock_quantity, 0) - COALESCE(p.reserved_quantity, 0)
+           END AS available
+    FROM public.cart_lines(p_items) l
+    LEFT JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', v_line.product_id;
+    END IF;
+
+    IF NOT v_line.found OR v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_object(
+        'product_id', v_line.product_id,
+        'variant_id', v_line.variant_id,
+        'name', v_line.name,
+        'requested', v_line.quantity,
+        'available', CASE WHEN v_line.found THEN GREATEST(v_line.available, 0) ELSE 0 END
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock'
+      USING DETAIL = v_shortages::TEXT;
+  END IF;
+
+  v_quote := public.quote_delivery(p_items, v_address);
+
+  SELECT s.value INTO v_undeliverable
+  FROM jsonb_array_elements(v_quote->'sellers') s
+  WHERE NOT (s.value->>'deliverable')::BOOLEAN
+  LIMIT 1;
+
+  IF v_undeliverable IS NOT NULL THEN
+    CASE v_undeliverable->>'reason'
+      WHEN 'no_location' THEN
+        RAISE EXCEPTION 'Please pin your delivery address on the map';
+      WHEN 'below_minimum' THEN
+        RAISE EXCEPTION 'Delivery of % to this address needs an order of at least %',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', '),
+          public.format_order_money((v_undeliverable->>'min_order_amount')::BIGINT, upper(btrim(p_currency)), v_exchange_rate);
+      ELSE
+        RAISE EXCEPTION '% cannot be delivered to this address',
+          array_to_string(ARRAY(SELECT jsonb_array_elements_text(v_undeliverable->'products')), ', ');
+    END CASE;
+  END IF;
+
+  IF NULLIF(btrim(p_promotion_code), '') IS NOT NULL THEN
+    -- Hold the code so concurrent checkouts can't both take its last use
+    PERFORM 1
+    FROM public.promotions
+    WHERE code = upper(btrim(p_promotion_code))
+    FOR UPDATE;
+
+    v_promotion := public.evaluate_promotion(p_user_id, p_promotion_code, p_items);
+
+    IF NOT (v_promotion->>'valid')::BOOLEAN THEN
+      CASE v_promotion->>'reason'
+        WHEN 'not_started' THEN
+          RAISE EXCEPTION 'Code % is not active yet', v_promotion->>'code';
+        WHEN 'expired' THEN
+          RAISE EXCEPTION 'Code % has expired', v_promotion->>'code';
+        WHEN 'no_eligible_items' THEN
+          RAISE EXCEPTION 'Code % does not apply to anything in your cart', v_promotion->>'code';
+        WHEN 'below_minimum' THEN
+          RAISE EXCEPTION 'Code % needs an order of at least %',
+            v_promotion->>'code',
+            public.format_order_money((v_promotion->>'min_order_amount')::BIGINT, upper(btrim(p_currency)), v_exchange_rate);
+        WHEN 'usage_limit', 'user_limit' THEN
+          RAISE EXCEPTION 'Code % has already been used up', v_promotion->>'code';
+        ELSE
+          RAISE EXCEPTION 'Code % is not valid', v_promotion->>'code';
+      END CASE;
+    END IF;
+  END IF;
+
+  SELECT SUM(COALESCE(v.price, p.price) * l.quantity) INTO v_total
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id;
+
+  INSERT INTO public.orders (
+    user_id, total_amount, delivery_fee, discount_amount, promotion_id, promotion_code,
+    shipping_address, shipping_address_snapshot, shipping_latitude, shipping_longitude,
+    payment_method, status, stock_status, currency, exchange_rate
+  )
+  VALUES (
+    p_user_id,
+    v_total - COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0) + (v_quote->>'delivery_fee')::NUMERIC,
+    (v_quote->>'delivery_fee')::NUMERIC,
+    COALESCE((v_promotion->>'discount_amount')::NUMERIC, 0),
+    (v_promotion->>'promotion_id')::UUID,
+    v_promotion->>'code',
+    public.format_shipping_address(v_address), v_address,
+    (v_address->>'latitude')::DOUBLE PRECISION, (v_address->>'longitude')::DOUBLE PRECISION,
+    p_payment_method, 'pending', 'reserved', upper(btrim(p_currency)), v_exchange_rate
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO public.order_fulfillments (order_id, seller_id, subtotal, delivery_fee, delivery_zone_id)
+  SELECT v_order.id, s.seller_id, s.subtotal, (q.value->>'delivery_fee')::NUMERIC, (q.value->>'zone_id')::UUID
+  FROM (
+    SELECT p.seller_id, SUM(COALESCE(v.price, p.price) * l.quantity) AS subtotal
+    FROM public.cart_lines(p_items) l
+    JOIN public.products p ON p.id = l.product_id
+    LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+    GROUP BY p.seller_id
+  ) s
+  JOIN jsonb_array_elements(v_quote->'sellers') q ON (q.value->>'seller_id')::UUID = s.seller_id;
+
+  PERFORM public.allocate_order_discount(v_order.id);
+
+  INSERT INTO public.order_items (
+    order_id, product_id, variant_id, variant_name, quantity, price, fulfillment_id, tax_rate, tax_amount
+  )
+  SELECT v_order.id, p.id, v.id, v.name, l.quantity, COALESCE(v.price, p.price), f.id, t.tax_rate, t.tax_amount
+  FROM public.cart_lines(p_items) l
+  JOIN public.products p ON p.id = l.product_id
+  LEFT JOIN public.product_variants v ON v.id = l.variant_id AND v.product_id = l.product_id
+  JOIN public.order_fulfillments f ON f.order_id = v_order.id AND f.seller_id = p.seller_id
+  JOIN public.cart_tax_lines(p_items, v_address, v_promotion) t
+    ON t.product_id = p.id AND t.variant_id IS NOT DISTINCT FROM l.variant_id;
+
+  SELECT COALESCE(SUM(tax_amount), 0) INTO v_tax
+  FROM public.order_items
+  WHERE order_id = v_order.id;
+
+  UPDATE public.orders
+  SET tax_amount = v_tax,
+      total_amount = total_amount + v_tax
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  -- Cash is collected per fulfilment, so between them they must ask for
+  -- exactly the order total
+  IF (SELECT SUM(public.fulfillment_amount_due(id)) FROM public.order_fulfillments WHERE order_id = v_order.id)
+     <> v_order.total_amount THEN
+    RAISE EXCEPTION 'Order % does not add up: its fulfilments differ from its total', v_order.id;
+  END IF;
+
+  UPDATE public.products p
+  SET reserved_quantity = p.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE p.id = l.product_id AND l.variant_id IS NULL;
+
+  UPDATE public.product_variants v
+  SET reserved_quantity = v.reserved_quantity + l.quantity
+  FROM public.cart_lines(p_items) l
+  WHERE v.id = l.variant_id;
+
+  RETURN v_order;
+END;
+$$;
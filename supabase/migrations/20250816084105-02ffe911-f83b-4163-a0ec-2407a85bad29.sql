@@ -0,0 +1,11 @@
+-- Amounts are kept, shown and charged in hundredths of a unit, so only
+-- currencies with two decimal places can be offered. Stripe reads amounts in
+-- each currency's own minor units, which would be 100 times off for
+-- zero-decimal currencies and 10 times off for three-decimal ones.
+ALTER TABLE public.exchange_rates
+ADD CONSTRAINT exchange_rates_two_decimal_currency CHECK (
+  currency NOT IN (
+    'BIF', 'CLP', 'DJF', 'GNF', 'ISK', 'JPY', 'KMF', 'KRW', 'MGA', 'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF',
+    'XPF', 'BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND'
+  )
+);
@@ -0,0 +1,77 @@
+-- Unchanged apart from stopping sellers cancelling card orders
+CREATE OR REPLACE FUNCTION public.transition_fulfillment_status(
+  p_fulfillment_id UUID,
+  p_status public.order_status,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+  v_order public.orders;
+  v_role TEXT;
+  v_allowed_roles TEXT[];
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    v_role := 'system';
+  ELSIF v_fulfillment.seller_id = auth.uid() THEN
+    v_role := 'seller';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.drivers
+    WHERE id = v_fulfillment.driver_id AND user_id = auth.uid()
+  ) THEN
+    v_role := 'driver';
+  ELSE
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  -- Lock the order before the fulfilment, in the same order as order-level
+  -- changes, so the two cannot deadlock
+  SELECT * INTO v_order FROM public.orders WHERE id = v_fulfillment.order_id FOR UPDATE;
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id FOR UPDATE;
+
+  SELECT allowed_roles INTO v_allowed_roles
+  FROM public.order_status_transitions
+  WHERE from_status = v_fulfillment.status AND to_status = p_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot move a fulfilment from % to %', v_fulfillment.status, p_status;
+  END IF;
+
+  IF v_role <> 'system' THEN
+    IF NOT v_role = ANY (v_allowed_roles) THEN
+      RAISE EXCEPTION 'You are not allowed to move this fulfilment from % to %', v_fulfillment.status, p_status;
+    END IF;
+
+    IF v_fulfillment.status = 'pending' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders are confirmed or cancelled by their payment';
+    END IF;
+
+    -- Cancelling releases the stock but gives no money back, so a seller can
+    -- only cancel cash orders. Paid card orders are ended by refunding them.
+    IF p_status = 'cancelled' AND v_order.payment_method <> 'cash' THEN
+      RAISE EXCEPTION 'Card orders that have been paid can only be refunded, not cancelled';
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.order_fulfillments
+  SET status = p_status
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN v_fulfillment;
+END;
+$$;
@@ -0,0 +1,38 @@
+-- Unchanged apart from locking the order before the fulfilment, in the same
+-- order as transition_fulfillment_status, so the two cannot deadlock
+CREATE OR REPLACE FUNCTION public.mark_fulfillment_en_route(p_fulfillment_id UUID)
+RETURNS public.order_fulfillments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fulfillment public.order_fulfillments;
+BEGIN
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.drivers
+    WHERE id = v_fulfillment.driver_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Fulfilment not found';
+  END IF;
+
+  PERFORM 1 FROM public.orders WHERE id = v_fulfillment.order_id FOR UPDATE;
+  SELECT * INTO v_fulfillment FROM public.order_fulfillments WHERE id = p_fulfillment_id FOR UPDATE;
+
+  IF v_fulfillment.status <> 'out_for_delivery' THEN
+    RAISE EXCEPTION 'Only picked up deliveries can be en route';
+  END IF;
+
+  UPDATE public.order_fulfillments
+  SET en_route_at = now()
+  WHERE id = p_fulfillment_id
+  RETURNING * INTO v_fulfillment;
+
+  INSERT INTO public.order_status_history (order_id, fulfillment_id, from_status, to_status, changed_by, note)
+  VALUES (v_fulfillment.order_id, v_fulfillment.id, v_fulfillment.status, v_fulfillment.status, auth.uid(), 'En route to buyer');
+
+  RETURN v_fulfillment;
+END;
+$$;
@@ -0,0 +1,9 @@
+-- products.price is only ever derived from the list price: a write that sets
+-- it directly is re-derived too, instead of leaving it out of step with
+-- list_price and the exchange rate
+DROP TRIGGER set_products_base_price ON public.products;
+
+CREATE TRIGGER set_products_base_price
+BEFORE INSERT OR UPDATE OF list_price, currency, price ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.set_product_base_price();